@@ -0,0 +1,57 @@
+import { App, Modal, Setting } from 'obsidian';
+import { t } from '../../i18n';
+
+/**
+ * Modal asking the user to confirm an action that can't be undone from the view.
+ * Used before deleting selected notes.
+ */
+export class ConfirmModal extends Modal {
+  private title: string;
+  private message: string;
+  private confirmText: string;
+  private onConfirm: () => void | Promise<void>;
+
+  constructor(
+    app: App,
+    title: string,
+    message: string,
+    confirmText: string,
+    onConfirm: () => void | Promise<void>
+  ) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.confirmText = confirmText;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', { text: this.message });
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText(t('common.cancel'))
+          .onClick(() => {
+            this.close();
+          })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText(this.confirmText)
+          .setWarning()
+          .onClick(() => {
+            this.close();
+            void this.onConfirm();
+          })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -1,4 +1,5 @@
 import React from 'react';
+import { t } from '../../i18n';
 
 interface EmptyStateProps {
   message?: string;
@@ -9,7 +10,7 @@ interface EmptyStateProps {
  * Empty state component shown when there's no data to display.
  */
 export const EmptyState: React.FC<EmptyStateProps> = ({
-  message = 'No entries to display',
+  message = t('common.noEntries'),
   icon = '📋',
 }) => {
   return (
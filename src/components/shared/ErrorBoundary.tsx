@@ -1,4 +1,5 @@
-import React from 'react';
+import * as React from 'react';
+import { t } from '../../i18n';
 
 interface ErrorBoundaryProps {
   children: React.ReactNode;
@@ -11,7 +12,8 @@ interface ErrorBoundaryState {
 
 /**
  * Error boundary component to catch React errors.
- * Displays a fallback UI instead of crashing the entire view.
+ * Displays a fallback UI instead of crashing the entire view,
+ * with a button to render the view again.
  */
 export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
   constructor(props: ErrorBoundaryProps) {
@@ -27,14 +29,24 @@ export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoun
     console.error('React error caught by ErrorBoundary:', error, errorInfo);
   }
 
+  /**
+   * Clear the error and render the view again
+   */
+  handleReload = () => {
+    this.setState({ hasError: false, error: null });
+  };
+
   render() {
     if (this.state.hasError) {
       return (
         <div className="bv-error">
-          <h3>Something went wrong</h3>
-          <p>{this.state.error?.message || 'Unknown error'}</p>
+          <h3>{t('error.title')}</h3>
+          <p>{this.state.error?.message || t('error.unknown')}</p>
+          <button className="bv-error-reload" onClick={this.handleReload}>
+            {t('error.reloadView')}
+          </button>
           <p className="bv-text-xs bv-mt-4 bv-text-muted">
-            Check the console for more details
+            {t('error.checkConsole')}
           </p>
         </div>
       );
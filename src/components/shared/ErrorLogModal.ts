@@ -0,0 +1,62 @@
+import { App, Modal, Setting } from 'obsidian';
+import { format } from 'date-fns';
+import { clearErrorLog, getErrorLog, retryError } from '../../utils/errorReporter';
+import { t } from '../../i18n';
+
+/**
+ * Modal listing failed operations from all views.
+ * Opened from the "Show error log" command.
+ */
+export class ErrorLogModal extends Modal {
+  constructor(app: App) {
+    super(app);
+  }
+
+  onOpen() {
+    this.setTitle(t('errorLog.title'));
+    this.renderEntries();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  /**
+   * Render the log entries with retry buttons
+   */
+  private renderEntries() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const entries = getErrorLog();
+
+    if (entries.length === 0) {
+      contentEl.createEl('p', { text: t('errorLog.empty'), cls: 'bv-text-muted' });
+      return;
+    }
+
+    entries.forEach((entry) => {
+      const target = entry.file ? ` · ${entry.file.path}` : '';
+      const setting = new Setting(contentEl)
+        .setName(t('error.failed', { action: entry.action }))
+        .setDesc(`${format(entry.timestamp, 'HH:mm:ss')}${target} · ${entry.message}`);
+
+      if (entry.retry) {
+        setting.addButton((btn) =>
+          btn.setButtonText(t('common.retry')).onClick(async () => {
+            await retryError(entry);
+            this.renderEntries();
+          })
+        );
+      }
+    });
+
+    new Setting(contentEl).addButton((btn) =>
+      btn.setButtonText(t('errorLog.clear')).onClick(() => {
+        clearErrorLog();
+        this.renderEntries();
+      })
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import * as React from 'react';
+import { debounce } from 'obsidian';
+import { useQuickFilter } from '../../context/QuickFilterContext';
+import { parseQuickFilter, QuickFilterTerm, removeQuickFilterTerm } from '../../utils/quickFilter';
+import { t } from '../../i18n';
+
+/** Delay between typing and filtering the view (ms) */
+const FILTER_DELAY = 200;
+
+/**
+ * Search field that temporarily narrows down the notes a view shows.
+ * Property and date chips recognized in the query are listed next to it and
+ * can be removed one by one. Renders nothing outside a filter provider.
+ */
+export const FilterBar: React.FC = () => {
+  const filter = useQuickFilter();
+  const query = filter?.query ?? '';
+  const setQuery = filter?.setQuery;
+  // Typed text, ahead of the query while the debounce is pending
+  const [draft, setDraft] = React.useState(query);
+
+  const applyQuery = React.useMemo(
+    () => debounce((next: string) => setQuery?.(next), FILTER_DELAY, true),
+    [setQuery]
+  );
+
+  React.useEffect(() => () => {
+    applyQuery.cancel();
+  }, [applyQuery]);
+
+  const terms = React.useMemo(() => parseQuickFilter(draft), [draft]);
+  const chips = terms.filter((term) => term.kind !== 'text');
+
+  /**
+   * Replace the query right away (chip removal, clearing)
+   */
+  const replaceQuery = (next: string) => {
+    setDraft(next);
+    applyQuery.cancel();
+    setQuery?.(next);
+  };
+
+  const removeChip = (term: QuickFilterTerm) => {
+    replaceQuery(removeQuickFilterTerm(terms, term));
+  };
+
+  if (!filter) return null;
+
+  return (
+    <div className="bv-filter-bar">
+      <input
+        type="text"
+        className="bv-filter-input"
+        value={draft}
+        placeholder={t('filter.placeholder')}
+        aria-label={t('filter.label')}
+        spellCheck={false}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          applyQuery(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape' && draft) {
+            e.preventDefault();
+            e.stopPropagation();
+            replaceQuery('');
+          }
+        }}
+      />
+      {chips.map((term, index) => (
+        <span key={`${index}:${term.raw}`} className={`bv-filter-chip bv-filter-chip-${term.kind}`}>
+          {term.raw}
+          <span
+            className="bv-filter-chip-remove"
+            role="button"
+            aria-label={t('filter.removeChip', { chip: term.raw })}
+            onClick={() => removeChip(term)}
+          >
+            ×
+          </span>
+        </span>
+      ))}
+      {draft && (
+        <span
+          className="bv-filter-clear"
+          role="button"
+          aria-label={t('filter.clear')}
+          onClick={() => replaceQuery('')}
+        >
+          ×
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+/**
+ * A labelled value offered by OptionSuggestModal.
+ */
+export interface SuggestOption<T> {
+  label: string;
+  value: T;
+}
+
+/**
+ * Fuzzy-search modal for picking one of a fixed set of options.
+ * Used by commands that need a choice, e.g. the Gantt timeline step.
+ */
+export class OptionSuggestModal<T> extends FuzzySuggestModal<SuggestOption<T>> {
+  private options: SuggestOption<T>[];
+  private onChoose: (value: T) => void;
+
+  constructor(
+    app: App,
+    options: SuggestOption<T>[],
+    onChoose: (value: T) => void,
+    placeholder: string = ''
+  ) {
+    super(app);
+    this.options = options;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): SuggestOption<T>[] {
+    return this.options;
+  }
+
+  getItemText(option: SuggestOption<T>): string {
+    return option.label;
+  }
+
+  onChooseItem(option: SuggestOption<T>): void {
+    this.onChoose(option.value);
+  }
+}
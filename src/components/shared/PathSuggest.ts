@@ -0,0 +1,95 @@
+import { AbstractInputSuggest, App, TFile, TFolder } from 'obsidian';
+
+/**
+ * Input suggestions for folders in the vault.
+ * Used by the settings tab for the new-note folder.
+ */
+export class FolderSuggest extends AbstractInputSuggest<TFolder> {
+  private inputEl: HTMLInputElement;
+
+  constructor(app: App, inputEl: HTMLInputElement) {
+    super(app, inputEl);
+    this.inputEl = inputEl;
+  }
+
+  protected getSuggestions(query: string): TFolder[] {
+    const lowerQuery = query.toLowerCase();
+    return this.app.vault
+      .getAllFolders()
+      .filter((folder) => folder.path.toLowerCase().includes(lowerQuery));
+  }
+
+  renderSuggestion(folder: TFolder, el: HTMLElement): void {
+    el.setText(folder.path);
+  }
+
+  selectSuggestion(folder: TFolder): void {
+    this.setValue(folder.path);
+    this.inputEl.trigger('input');
+    this.close();
+  }
+}
+
+/**
+ * Input suggestions for markdown files in the vault.
+ * Used by the settings tab for the template note.
+ */
+export class MarkdownFileSuggest extends AbstractInputSuggest<TFile> {
+  private inputEl: HTMLInputElement;
+
+  constructor(app: App, inputEl: HTMLInputElement) {
+    super(app, inputEl);
+    this.inputEl = inputEl;
+  }
+
+  protected getSuggestions(query: string): TFile[] {
+    const lowerQuery = query.toLowerCase();
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.toLowerCase().includes(lowerQuery));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.setText(file.path);
+  }
+
+  selectSuggestion(file: TFile): void {
+    this.setValue(file.path);
+    this.inputEl.trigger('input');
+    this.close();
+  }
+}
+
+/**
+ * Input suggestions for notes to link to.
+ * Used by link properties in the property popover; the chosen note is
+ * passed on as link text relative to the note being edited.
+ */
+export class LinkSuggest extends AbstractInputSuggest<TFile> {
+  private sourcePath: string;
+  private onLinkSelect: (linktext: string) => void;
+
+  constructor(app: App, inputEl: HTMLInputElement, sourcePath: string, onLinkSelect: (linktext: string) => void) {
+    super(app, inputEl);
+    this.sourcePath = sourcePath;
+    this.onLinkSelect = onLinkSelect;
+  }
+
+  protected getSuggestions(query: string): TFile[] {
+    const lowerQuery = query.toLowerCase();
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.toLowerCase().includes(lowerQuery));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.setText(file.path);
+  }
+
+  selectSuggestion(file: TFile): void {
+    const linktext = this.app.metadataCache.fileToLinktext(file, this.sourcePath, true);
+    this.setValue(linktext);
+    this.onLinkSelect(linktext);
+    this.close();
+  }
+}
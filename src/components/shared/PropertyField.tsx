@@ -0,0 +1,266 @@
+import * as React from 'react';
+import { App } from 'obsidian';
+import { format, parse, isValid } from 'date-fns';
+import { LinkSuggest } from './PathSuggest';
+import { getLinkTarget, PropertyType } from '../../utils/propertyTypes';
+import { DATE_FORMAT, DATETIME_FORMAT } from '../../utils/dateCodec';
+import { parseDate } from '../../utils/dateParsing';
+import { t } from '../../i18n';
+
+interface PropertyFieldProps {
+  app: App;
+  /** Frontmatter key */
+  name: string;
+  value: unknown;
+  type: PropertyType;
+  /** Path of the note being edited, for resolving links */
+  sourcePath: string;
+  /** Custom date formats from plugin settings, for reading date values */
+  dateFormats: string[];
+  /** Called with the new value; null clears the property */
+  onChange: (value: unknown) => void;
+}
+
+/**
+ * Editing widget for a single frontmatter property, chosen by its type.
+ * Text-like fields save on Enter or when they lose focus; checkboxes and
+ * list items save right away.
+ */
+export const PropertyField: React.FC<PropertyFieldProps> = ({
+  app,
+  name,
+  value,
+  type,
+  sourcePath,
+  dateFormats,
+  onChange,
+}) => {
+  switch (type) {
+    case 'checkbox':
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          aria-label={name}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      );
+
+    case 'number':
+      return (
+        <DraftInput
+          type="number"
+          name={name}
+          value={typeof value === 'number' ? String(value) : ''}
+          onCommit={(draft) => {
+            const number = Number(draft);
+            if (draft === '') onChange(null);
+            else if (!Number.isNaN(number)) onChange(number);
+          }}
+        />
+      );
+
+    case 'date':
+    case 'datetime': {
+      const inputFormat = type === 'date' ? DATE_FORMAT : DATETIME_FORMAT;
+      const date = parseDate(value, dateFormats);
+      return (
+        <DraftInput
+          type={type === 'date' ? 'date' : 'datetime-local'}
+          name={name}
+          value={date ? format(date, inputFormat) : ''}
+          onCommit={(draft) => {
+            if (draft === '') {
+              onChange(null);
+              return;
+            }
+            // The input's value is always in the ISO shape of its type
+            const parsed = parse(draft, inputFormat, new Date());
+            if (isValid(parsed)) onChange(parsed);
+          }}
+        />
+      );
+    }
+
+    case 'list':
+      return <ListField name={name} value={value} onChange={onChange} />;
+
+    case 'link':
+      return <LinkField app={app} name={name} value={value} sourcePath={sourcePath} onChange={onChange} />;
+
+    default:
+      return (
+        <DraftInput
+          type="text"
+          name={name}
+          value={toText(value)}
+          onCommit={(draft) => onChange(draft === '' ? null : draft)}
+        />
+      );
+  }
+};
+
+/**
+ * Show a frontmatter value in a text input (nested objects as JSON).
+ */
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return value === null || value === undefined ? '' : JSON.stringify(value);
+}
+
+/**
+ * Keep an edited value until it is saved, and reset it when the property
+ * changes in the note. Each value is saved at most once.
+ */
+function useDraft(value: string, onCommit: (draft: string) => void) {
+  const [draft, setDraft] = React.useState(value);
+  const savedRef = React.useRef(value);
+
+  React.useEffect(() => {
+    setDraft(value);
+    savedRef.current = value;
+  }, [value]);
+
+  const save = (next: string) => {
+    if (next === savedRef.current) return;
+    savedRef.current = next;
+    onCommit(next);
+  };
+
+  return { draft, setDraft, save };
+}
+
+/**
+ * Input that saves on Enter and blur.
+ */
+const DraftInput: React.FC<{
+  type: string;
+  name: string;
+  value: string;
+  onCommit: (draft: string) => void;
+}> = ({ type, name, value, onCommit }) => {
+  const { draft, setDraft, save } = useDraft(value, onCommit);
+
+  return (
+    <input
+      type={type}
+      value={draft}
+      aria-label={name}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => save(draft.trim())}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          e.currentTarget.blur();
+        }
+      }}
+    />
+  );
+};
+
+/**
+ * List items with a remove button each, and an input that adds an item on Enter.
+ */
+const ListField: React.FC<{
+  name: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}> = ({ name, value, onChange }) => {
+  const [draft, setDraft] = React.useState('');
+  const items = Array.isArray(value)
+    ? value.map(toText)
+    : value === null || value === undefined || value === '' ? [] : [toText(value)];
+
+  const addItem = () => {
+    const item = draft.trim();
+    setDraft('');
+    if (item) onChange([...items, item]);
+  };
+
+  return (
+    <div className="bv-property-list">
+      {items.map((item, index) => (
+        <span key={`${index}:${item}`} className="bv-property-list-item">
+          {item}
+          <span
+            className="bv-property-list-remove"
+            role="button"
+            aria-label={t('properties.removeItem', { item })}
+            onClick={() => onChange(items.filter((_, other) => other !== index))}
+          >
+            ×
+          </span>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        aria-label={name}
+        placeholder={t('properties.addItem')}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={addItem}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addItem();
+          }
+        }}
+      />
+    </div>
+  );
+};
+
+/**
+ * Note name with suggestions from the vault, stored as a [[wikilink]].
+ * Saved when a suggestion is picked or the input loses focus.
+ */
+const LinkField: React.FC<{
+  app: App;
+  name: string;
+  value: unknown;
+  sourcePath: string;
+  onChange: (value: unknown) => void;
+}> = ({ app, name, value, sourcePath, onChange }) => {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const target = getLinkTarget(value) ?? '';
+  const { draft, setDraft, save } = useDraft(target, (linktext) => {
+    onChange(linktext === '' ? null : `[[${linktext}]]`);
+  });
+
+  // Keep the latest save for the suggest, which is created once
+  const saveRef = React.useRef(save);
+  saveRef.current = save;
+
+  React.useEffect(() => {
+    if (!inputRef.current) return;
+    const suggest = new LinkSuggest(app, inputRef.current, sourcePath, (linktext) => {
+      setDraft(linktext);
+      saveRef.current(linktext);
+    });
+    return () => suggest.close();
+  }, [app, sourcePath, setDraft]);
+
+  return (
+    <div className="bv-property-link">
+      <input
+        ref={inputRef}
+        type="text"
+        value={draft}
+        aria-label={name}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => save(draft.trim())}
+      />
+      {target && (
+        <span
+          className="bv-property-link-open"
+          role="button"
+          aria-label={t('properties.openLink')}
+          onClick={() => void app.workspace.openLinkText(target, sourcePath)}
+        >
+          ↗
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+import { App, FrontMatterCache, TFile } from 'obsidian';
+import { PropertyField } from './PropertyField';
+import { usePropertyUpdate } from '../../hooks/usePropertyUpdate';
+import { usePropertyPopover, usePropertyPopoverTarget } from '../../context/PropertyPopoverContext';
+import { getPropertyType } from '../../utils/propertyTypes';
+import { t } from '../../i18n';
+
+/** Gap between the popover and its item, and minimum distance to the window edges */
+const POPOVER_MARGIN = 8;
+
+interface PropertyPopoverProps {
+  file: TFile;
+  /** Item the popover is placed next to */
+  anchorEl: HTMLElement;
+  app: App;
+  /** Custom date formats from plugin settings, for reading date values */
+  dateFormats: string[];
+  onClose: () => void;
+}
+
+/**
+ * Popover listing a note's frontmatter properties with an editing widget
+ * for each (text, number, checkbox, date, date & time, list, link).
+ * Every change is saved on its own and can be undone in the view.
+ * Closes on Escape or a click outside.
+ */
+export const PropertyPopover: React.FC<PropertyPopoverProps> = ({
+  file,
+  anchorEl,
+  app,
+  dateFormats,
+  onClose,
+}) => {
+  const popoverRef = React.useRef<HTMLDivElement>(null);
+  const [position, setPosition] = React.useState<{ left: number; top: number } | null>(null);
+  const frontmatter = useFrontmatter(file, app);
+  const { updateProperty, startBatch } = usePropertyUpdate(app);
+
+  /**
+   * Write one property (undone as its own step)
+   */
+  const saveProperty = React.useCallback((name: string, value: unknown) => {
+    void updateProperty(file, `note.${name}`, value, startBatch(t('history.change', { name })));
+  }, [file, updateProperty, startBatch]);
+
+  // Place below the item, or above it when there's no room, inside the window
+  React.useLayoutEffect(() => {
+    const popoverEl = popoverRef.current;
+    if (!popoverEl) return;
+
+    const anchorRect = anchorEl.getBoundingClientRect();
+    const { innerWidth, innerHeight } = anchorEl.win;
+    const { offsetWidth: width, offsetHeight: height } = popoverEl;
+
+    let top = anchorRect.bottom + POPOVER_MARGIN;
+    if (top + height > innerHeight - POPOVER_MARGIN) {
+      top = Math.max(POPOVER_MARGIN, anchorRect.top - POPOVER_MARGIN - height);
+    }
+    const left = Math.max(POPOVER_MARGIN, Math.min(anchorRect.left, innerWidth - POPOVER_MARGIN - width));
+
+    setPosition({ left, top });
+  }, [anchorEl]);
+
+  // Close on Escape and on clicks outside the popover
+  React.useEffect(() => {
+    const doc = anchorEl.doc;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      const target = e.target as HTMLElement;
+      // Link suggestions are rendered outside the popover
+      if (popoverRef.current?.contains(target) || target.closest('.suggestion-container')) return;
+
+      // Save the field being edited before it unmounts
+      const focused = doc.activeElement;
+      if (focused instanceof HTMLElement && popoverRef.current?.contains(focused)) {
+        focused.blur();
+      }
+      onClose();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    };
+
+    doc.addEventListener('pointerdown', handlePointerDown, true);
+    doc.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      doc.removeEventListener('pointerdown', handlePointerDown, true);
+      doc.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [anchorEl, onClose]);
+
+  const properties = Object.entries(frontmatter ?? {});
+
+  return createPortal(
+    <div
+      ref={popoverRef}
+      className="bv-property-popover"
+      style={{
+        left: position?.left ?? 0,
+        top: position?.top ?? 0,
+        visibility: position ? 'visible' : 'hidden',
+      }}
+    >
+      <div className="bv-property-popover-title">{file.basename}</div>
+      {properties.length === 0 ? (
+        <div className="bv-property-popover-empty">{t('properties.empty')}</div>
+      ) : (
+        properties.map(([name, value]) => (
+          <label key={name} className="bv-property-row">
+            <span className="bv-property-name">{name}</span>
+            <PropertyField
+              app={app}
+              name={name}
+              value={value}
+              type={getPropertyType(app, name, value)}
+              sourcePath={file.path}
+              dateFormats={dateFormats}
+              onChange={(newValue) => saveProperty(name, newValue)}
+            />
+          </label>
+        ))
+      )}
+    </div>,
+    anchorEl.doc.body
+  );
+};
+
+/**
+ * Shows the property popover of the enclosing view while it is open.
+ */
+export const PropertyPopoverHost: React.FC<{
+  app: App;
+  /** Custom date formats from plugin settings */
+  dateFormats: string[];
+}> = ({ app, dateFormats }) => {
+  const popover = usePropertyPopover();
+  const target = usePropertyPopoverTarget();
+  const close = React.useCallback(() => popover?.close(), [popover]);
+
+  if (!target) return null;
+
+  return (
+    <PropertyPopover
+      key={target.file.path}
+      file={target.file}
+      anchorEl={target.anchorEl}
+      app={app}
+      dateFormats={dateFormats}
+      onClose={close}
+    />
+  );
+};
+
+/**
+ * Read a note's frontmatter and follow changes to it.
+ */
+function useFrontmatter(file: TFile, app: App): FrontMatterCache | undefined {
+  const read = React.useCallback(() => app.metadataCache.getFileCache(file)?.frontmatter, [app, file]);
+  const [frontmatter, setFrontmatter] = React.useState(read);
+
+  React.useEffect(() => {
+    setFrontmatter(read());
+    const ref = app.metadataCache.on('changed', (changedFile) => {
+      if (changedFile === file) {
+        setFrontmatter(read());
+      }
+    });
+    return () => app.metadataCache.offref(ref);
+  }, [app, file, read]);
+
+  return frontmatter;
+}
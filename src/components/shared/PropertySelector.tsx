@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
 import { App } from 'obsidian';
+import { t } from '../../i18n';
 
 interface PropertySelectorProps {
   value: string;
@@ -20,7 +21,7 @@ export const PropertySelector: React.FC<PropertySelectorProps> = ({
   app,
   filter = 'all',
   label,
-  placeholder = 'Select property',
+  placeholder = t('common.selectProperty'),
 }) => {
   // Get all available properties from the vault
   const properties = useMemo(() => {
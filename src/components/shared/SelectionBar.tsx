@@ -0,0 +1,40 @@
+import * as React from 'react';
+import { App } from 'obsidian';
+import { useSelection, useSelectionCount } from '../../context/SelectionContext';
+import { useBulkActions } from '../../hooks/useBulkActions';
+import { t, tn } from '../../i18n';
+
+interface SelectionBarProps {
+  app: App;
+  /** Ids of the properties the view shows */
+  properties: string[];
+  /** Ids of the view's date properties; "shift dates" is hidden when empty */
+  dateProperties: string[];
+  /** Custom date formats from plugin settings, for reading the dates to shift */
+  dateFormats: string[];
+}
+
+/**
+ * Bar with actions for the selected notes of a view.
+ * Stays at the bottom of the view while anything is selected; renders nothing otherwise.
+ */
+export const SelectionBar: React.FC<SelectionBarProps> = ({ app, properties, dateProperties, dateFormats }) => {
+  const selection = useSelection();
+  const count = useSelectionCount();
+  const { setProperty, shiftDates, moveToFolder, deleteNotes } = useBulkActions(properties, dateProperties, dateFormats, app);
+
+  if (!selection || count === 0) return null;
+
+  return (
+    <div className="bv-selection-bar">
+      <span className="bv-selection-count">{tn('selection.count', count)}</span>
+      <button onClick={setProperty}>{t('selection.setProperty')}</button>
+      {dateProperties.some(Boolean) && (
+        <button onClick={shiftDates}>{t('selection.shiftDates')}</button>
+      )}
+      <button onClick={moveToFolder}>{t('selection.moveToFolder')}</button>
+      <button className="mod-warning" onClick={deleteNotes}>{t('selection.delete')}</button>
+      <button className="bv-selection-clear" onClick={() => selection.clear()}>{t('selection.clear')}</button>
+    </div>
+  );
+};
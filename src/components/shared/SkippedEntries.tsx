@@ -0,0 +1,36 @@
+import * as React from 'react';
+import { App } from 'obsidian';
+import { SkippedEntry } from '../../types/view-config';
+import { createNoteOpener } from '../../utils/noteOpener';
+import { tn } from '../../i18n';
+
+interface SkippedEntriesProps {
+  skipped: SkippedEntry[];
+  app: App;
+}
+
+/**
+ * Collapsible list of notes left out of a view because their dates couldn't be parsed.
+ * Renders nothing when no notes were skipped.
+ */
+export const SkippedEntries: React.FC<SkippedEntriesProps> = ({ skipped, app }) => {
+  if (skipped.length === 0) return null;
+
+  return (
+    <details className="bv-skipped">
+      <summary className="bv-skipped-summary">
+        {tn('skipped.summary', skipped.length)}
+      </summary>
+      <ul className="bv-skipped-list">
+        {skipped.map((entry, index) => (
+          <li key={`${entry.file.path}-${index}`} className="bv-skipped-item">
+            <a className="bv-skipped-link" onClick={createNoteOpener(app, entry.file)}>
+              {entry.file.basename}
+            </a>
+            <span className="bv-skipped-reason">{entry.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
@@ -1,25 +1,40 @@
 import { App, Modal, Setting } from 'obsidian';
+import { t } from '../../i18n';
 
 /**
  * Simple modal for text input.
- * Used for creating new groups/columns.
+ * Used for creating new groups/columns and for values of bulk actions.
  */
 export class TextInputModal extends Modal {
   private result: string = '';
   private onSubmit: (result: string) => void | Promise<void>;
   private title: string;
   private placeholder: string;
+  private label: string;
+  private submitText: string;
 
   constructor(
     app: App,
     title: string,
     onSubmit: (result: string) => void | Promise<void>,
-    placeholder: string = ''
+    placeholder: string = '',
+    label: string = t('common.name'),
+    submitText: string = t('common.create')
   ) {
     super(app);
     this.title = title;
     this.onSubmit = onSubmit;
     this.placeholder = placeholder;
+    this.label = label;
+    this.submitText = submitText;
+  }
+
+  /**
+   * Pre-fill the input (e.g. with the current name when renaming)
+   */
+  setValue(value: string): this {
+    this.result = value;
+    return this;
   }
 
   onOpen() {
@@ -28,10 +43,11 @@ export class TextInputModal extends Modal {
     contentEl.createEl('h2', { text: this.title });
 
     new Setting(contentEl)
-      .setName('Name')
+      .setName(this.label)
       .addText((text) =>
         text
           .setPlaceholder(this.placeholder)
+          .setValue(this.result)
           .onChange((value) => {
             this.result = value;
           })
@@ -40,14 +56,14 @@ export class TextInputModal extends Modal {
     new Setting(contentEl)
       .addButton((btn) =>
         btn
-          .setButtonText('Cancel')
+          .setButtonText(t('common.cancel'))
           .onClick(() => {
             this.close();
           })
       )
       .addButton((btn) =>
         btn
-          .setButtonText('Create')
+          .setButtonText(this.submitText)
           .setCta()
           .onClick(() => {
             this.close();
@@ -0,0 +1,55 @@
+import * as React from 'react';
+import { createContext, useContext } from 'react';
+import { BadgeColors, ColorRules, getColorForValue } from '../utils/colorUtils';
+
+const ColorRulesContext = createContext<ColorRules | null>(null);
+
+/**
+ * Provider for the "color by" settings of the enclosing view.
+ * Set up by ReactBasesView from the view config.
+ */
+export const ColorRulesProvider: React.FC<{
+  rules: ColorRules;
+  children?: React.ReactNode;
+}> = ({ rules, children }) => {
+  return (
+    <ColorRulesContext.Provider value={rules}>
+      {children}
+    </ColorRulesContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the view's color rules.
+ * Returns null when used outside a provider (values get their hash color).
+ */
+export function useColorRules(): ColorRules | null {
+  return useContext(ColorRulesContext);
+}
+
+/**
+ * Colors of a value, following the view's mappings.
+ *
+ * @param value - Property or group value; undefined for items without one
+ * @returns Colors, or null when there's no value
+ */
+export function useValueColor(value: string | undefined): BadgeColors | null {
+  const rules = useColorRules();
+  return value === undefined ? null : getColorForValue(value, rules);
+}
+
+/**
+ * Inline style that colors a task bar or event by its color value.
+ * Read by the `.bv-colored` rules in the stylesheets.
+ *
+ * @param value - The item's value of the color property
+ * @returns CSS variables, or undefined to keep the accent color
+ */
+export function useItemColorStyle(value: string | undefined): React.CSSProperties | undefined {
+  const colors = useValueColor(value);
+  if (!colors) return undefined;
+  return {
+    '--bv-item-background': colors.background,
+    '--bv-item-color': colors.text,
+  } as React.CSSProperties;
+}
@@ -0,0 +1,44 @@
+import * as React from 'react';
+import { createContext, useContext } from 'react';
+
+/**
+ * What the note context menu of a view can change.
+ */
+export interface NoteMenuOptions {
+  /** Id of the property that groups the view, or '' (hides "Set … to") */
+  groupByProperty: string;
+  /** Existing values of the group property, offered by "Set … to" */
+  getGroupValues: () => string[];
+  /** Ids of the start and end date properties (hides "Reschedule" when empty) */
+  dateProperties: string[];
+  /** Custom date formats from plugin settings */
+  dateFormats: string[];
+  /** Frontmatter key and value written by "Mark done" ('' hides it) */
+  doneProperty: string;
+  doneValue: string;
+}
+
+const NoteMenuContext = createContext<NoteMenuOptions | null>(null);
+
+/**
+ * Provider for the context menu options of the enclosing view.
+ * Set up by ReactBasesView from the view config and plugin settings.
+ */
+export const NoteMenuProvider: React.FC<{
+  options: NoteMenuOptions;
+  children?: React.ReactNode;
+}> = ({ options, children }) => {
+  return (
+    <NoteMenuContext.Provider value={options}>
+      {children}
+    </NoteMenuContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the view's context menu options.
+ * Returns null when used outside a provider (only view-independent items are shown).
+ */
+export function useNoteMenuOptions(): NoteMenuOptions | null {
+  return useContext(NoteMenuContext);
+}
@@ -0,0 +1,53 @@
+import * as React from 'react';
+import { createContext, useContext, useMemo, useSyncExternalStore } from 'react';
+import { PendingChanges } from '../utils/pendingChanges';
+import { BasesEntry } from '../types/view-config';
+
+const PendingChangesContext = createContext<PendingChanges | null>(null);
+
+/**
+ * Provider for the optimistic overlay of the enclosing view.
+ * Set up by ReactBasesView so writes show up before the metadata cache catches up.
+ */
+export const PendingChangesProvider: React.FC<{
+  pendingChanges: PendingChanges;
+  children?: React.ReactNode;
+}> = ({ pendingChanges, children }) => {
+  return (
+    <PendingChangesContext.Provider value={pendingChanges}>
+      {children}
+    </PendingChangesContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the view's pending changes.
+ * Returns null when used outside a provider (writes are then not shown optimistically).
+ */
+export function usePendingChanges(): PendingChanges | null {
+  return useContext(PendingChangesContext);
+}
+
+const noSubscription = () => () => {};
+const noVersion = () => 0;
+
+/**
+ * Apply the view's pending writes to adapted entries.
+ * Re-renders whenever a change is added, confirmed by the cache or rolled back.
+ *
+ * @param entries - Entries built from Bases data
+ * @returns Entries as they will look once pending writes land
+ */
+export function useOptimisticEntries(entries: BasesEntry[]): BasesEntry[] {
+  const pendingChanges = usePendingChanges();
+  const version = useSyncExternalStore(
+    pendingChanges?.subscribe ?? noSubscription,
+    pendingChanges?.getVersion ?? noVersion
+  );
+
+  return useMemo(
+    () => (pendingChanges ? pendingChanges.apply(entries) : entries),
+    // version changes whenever the overlay does
+    [pendingChanges, entries, version]
+  );
+}
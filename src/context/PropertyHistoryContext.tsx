@@ -0,0 +1,28 @@
+import * as React from 'react';
+import { createContext, useContext } from 'react';
+import { PropertyHistory } from '../utils/propertyHistory';
+
+const PropertyHistoryContext = createContext<PropertyHistory | null>(null);
+
+/**
+ * Provider for the undo/redo history of the enclosing view.
+ * Set up by ReactBasesView so every property write in the view is recorded.
+ */
+export const PropertyHistoryProvider: React.FC<{
+  history: PropertyHistory;
+  children?: React.ReactNode;
+}> = ({ history, children }) => {
+  return (
+    <PropertyHistoryContext.Provider value={history}>
+      {children}
+    </PropertyHistoryContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the view's property history.
+ * Returns null when used outside a provider (writes are then not recorded).
+ */
+export function usePropertyHistory(): PropertyHistory | null {
+  return useContext(PropertyHistoryContext);
+}
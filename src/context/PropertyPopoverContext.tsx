@@ -0,0 +1,43 @@
+import * as React from 'react';
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { PropertyPopoverState, PropertyPopoverTarget } from '../utils/propertyPopoverState';
+
+const PropertyPopoverContext = createContext<PropertyPopoverState | null>(null);
+
+/**
+ * Provider for the property popover of the enclosing view.
+ * Set up by ReactBasesView, which also renders the popover itself.
+ */
+export const PropertyPopoverProvider: React.FC<{
+  popover: PropertyPopoverState;
+  children?: React.ReactNode;
+}> = ({ popover, children }) => {
+  return (
+    <PropertyPopoverContext.Provider value={popover}>
+      {children}
+    </PropertyPopoverContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the view's property popover.
+ * Returns null when used outside a provider (properties can't be edited in place).
+ */
+export function usePropertyPopover(): PropertyPopoverState | null {
+  return useContext(PropertyPopoverContext);
+}
+
+const noSubscription = () => () => {};
+
+/**
+ * Get the note the popover is open for.
+ *
+ * @returns Current target, or null while the popover is closed
+ */
+export function usePropertyPopoverTarget(): PropertyPopoverTarget | null {
+  const popover = usePropertyPopover();
+  return useSyncExternalStore(
+    popover?.subscribe ?? noSubscription,
+    () => popover?.target ?? null
+  );
+}
@@ -0,0 +1,83 @@
+import * as React from 'react';
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { addDays, startOfDay } from 'date-fns';
+import { useViewState } from './ViewStateContext';
+import { filterEntries, parseQuickFilter, QuickFilterOptions } from '../utils/quickFilter';
+import { BasesEntry } from '../types/view-config';
+
+/**
+ * Query of the filter bar, shared by the bar and the view's data hook.
+ */
+interface QuickFilterState {
+  query: string;
+  setQuery: (query: string) => void;
+  /** Settings used to evaluate `me`, dates and "overdue" */
+  options: Omit<QuickFilterOptions, 'dateProperties'>;
+  /** Start of the current day, for date chips */
+  today: Date;
+}
+
+const QuickFilterContext = createContext<QuickFilterState | null>(null);
+
+/**
+ * Provider for the filter bar of the enclosing view.
+ * Set up by ReactBasesView; the query is saved in the view config.
+ */
+export const QuickFilterProvider: React.FC<{
+  options: Omit<QuickFilterOptions, 'dateProperties'>;
+  children?: React.ReactNode;
+}> = ({ options, children }) => {
+  const [query, setQuery] = useViewState('quickFilter', '');
+  const { dateFormats, me, doneProperty, doneValue } = options;
+
+  // Date chips are relative to today: filter again after midnight
+  const [today, setToday] = useState(() => startOfDay(new Date()));
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setToday(startOfDay(new Date()));
+    }, addDays(today, 1).getTime() - Date.now());
+    return () => window.clearTimeout(timer);
+  }, [today]);
+
+  // The view passes a new object on every render; keep filtered entries memoized
+  const value = useMemo(
+    () => ({ query, setQuery, options: { dateFormats, me, doneProperty, doneValue }, today }),
+    [query, setQuery, dateFormats, me, doneProperty, doneValue, today]
+  );
+
+  return (
+    <QuickFilterContext.Provider value={value}>
+      {children}
+    </QuickFilterContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the view's filter bar query.
+ * Returns null when used outside a provider (nothing is filtered).
+ */
+export function useQuickFilter(): QuickFilterState | null {
+  return useContext(QuickFilterContext);
+}
+
+/**
+ * Keep only the entries matching the view's filter bar.
+ *
+ * @param entries - Entries built from Bases data
+ * @param dateProperties - Ids of the view's start and end date properties, for date chips
+ * @returns Matching entries
+ */
+export function useQuickFilteredEntries(entries: BasesEntry[], dateProperties: string[]): BasesEntry[] {
+  const filter = useQuickFilter();
+  const query = filter?.query ?? '';
+  const options = filter?.options;
+  const today = filter?.today;
+  const terms = useMemo(() => parseQuickFilter(query), [query]);
+  // Compare by content, callers pass a new array on every render
+  const dateKey = dateProperties.join('\n');
+
+  return useMemo(
+    () => (options ? filterEntries(entries, terms, { ...options, dateProperties: dateKey.split('\n') }, today) : entries),
+    [entries, terms, options, dateKey, today]
+  );
+}
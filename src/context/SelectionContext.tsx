@@ -0,0 +1,76 @@
+import * as React from 'react';
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { ItemSelection } from '../utils/itemSelection';
+
+const SelectionContext = createContext<ItemSelection | null>(null);
+
+/**
+ * Provider for the item selection of the enclosing view.
+ * Set up by ReactBasesView, which also handles the click and lasso gestures.
+ */
+export const SelectionProvider: React.FC<{
+  selection: ItemSelection;
+  children?: React.ReactNode;
+}> = ({ selection, children }) => {
+  return (
+    <SelectionContext.Provider value={selection}>
+      {children}
+    </SelectionContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the view's selection.
+ * Returns null when used outside a provider (nothing can be selected).
+ */
+export function useSelection(): ItemSelection | null {
+  return useContext(SelectionContext);
+}
+
+const noSubscription = () => () => {};
+
+/**
+ * Check whether an item is selected.
+ *
+ * @param id - Item id (file path)
+ * @returns True while the item is part of the selection
+ */
+export function useIsSelected(id: string): boolean {
+  const selection = useSelection();
+  // Only items whose state changes re-render
+  return useSyncExternalStore(
+    selection?.subscribe ?? noSubscription,
+    () => selection?.has(id) ?? false
+  );
+}
+
+/**
+ * Count the selected items.
+ *
+ * @returns Number of selected items (0 outside a provider)
+ */
+export function useSelectionCount(): number {
+  const selection = useSelection();
+  return useSyncExternalStore(
+    selection?.subscribe ?? noSubscription,
+    () => selection?.size ?? 0
+  );
+}
+
+/**
+ * Get the items a drag of `item` should move: every selected item when the
+ * dragged one is part of the selection, otherwise just the item itself.
+ *
+ * @param item - Item under the pointer
+ * @param items - All cards, tasks or events of the view
+ * @param selection - Selection of the view, if any
+ * @returns Items to move together
+ */
+export function getDraggedItems<T extends { id: string }>(
+  item: T,
+  items: T[],
+  selection: ItemSelection | null
+): T[] {
+  if (!selection?.has(item.id)) return [item];
+  return [item, ...items.filter((other) => other.id !== item.id && selection.has(other.id))];
+}
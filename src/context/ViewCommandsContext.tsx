@@ -0,0 +1,35 @@
+import * as React from 'react';
+import { createContext, useContext, useEffect } from 'react';
+import { ViewCommandHandlers, ViewCommandRegistry } from '../views/base/viewCommands';
+
+const ViewCommandsContext = createContext<ViewCommandRegistry | null>(null);
+
+/**
+ * Provider for the command registry of the enclosing view.
+ * Set up by ReactBasesView so plugin commands can reach the view's React state.
+ */
+export const ViewCommandsProvider: React.FC<{
+  registry: ViewCommandRegistry;
+  children?: React.ReactNode;
+}> = ({ registry, children }) => {
+  return (
+    <ViewCommandsContext.Provider value={registry}>
+      {children}
+    </ViewCommandsContext.Provider>
+  );
+};
+
+/**
+ * Register the actions a view supports for plugin commands.
+ * Handlers are re-registered on every render, so they always see current state.
+ * No-op when used outside a provider.
+ *
+ * @param handlers - Actions supported by the view
+ */
+export function useViewCommands(handlers: ViewCommandHandlers): void {
+  const registry = useContext(ViewCommandsContext);
+
+  useEffect(() => {
+    return registry?.register(handlers);
+  }, [registry, handlers]);
+}
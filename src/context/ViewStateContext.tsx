@@ -0,0 +1,76 @@
+import * as React from 'react';
+import { createContext, useCallback, useContext, useLayoutEffect, useState } from 'react';
+import { ViewStateKey, ViewStateStore, ViewStateValues } from '../views/base/viewState';
+
+const ViewStateContext = createContext<ViewStateStore | null>(null);
+
+/**
+ * Provider for the UI state store of the enclosing view.
+ * Set up by ReactBasesView so state survives re-renders and tab switches.
+ */
+export const ViewStateProvider: React.FC<{
+  store: ViewStateStore;
+  children?: React.ReactNode;
+}> = ({ store, children }) => {
+  return (
+    <ViewStateContext.Provider value={store}>
+      {children}
+    </ViewStateContext.Provider>
+  );
+};
+
+/**
+ * useState that is persisted in the view's config.
+ * Outside a provider it behaves like plain useState.
+ *
+ * @param key - State key
+ * @param fallback - Initial value when nothing is stored
+ * @returns Current value and a setter that also saves it
+ */
+export function useViewState<K extends ViewStateKey>(
+  key: K,
+  fallback: ViewStateValues[K]
+): [ViewStateValues[K], (value: ViewStateValues[K]) => void] {
+  const store = useContext(ViewStateContext);
+  const [value, setValue] = useState(() => store?.get(key, fallback) ?? fallback);
+
+  const setPersistedValue = useCallback((next: ViewStateValues[K]) => {
+    setValue(next);
+    store?.set(key, next);
+  }, [store, key]);
+
+  return [value, setPersistedValue];
+}
+
+/**
+ * Restore an element's scroll offset when it mounts and save it while scrolling.
+ *
+ * @param ref - Scrolling element
+ * @param key - State key of the offset
+ * @param axis - Horizontal (left) or vertical (top) offset
+ */
+export function usePersistedScroll(
+  ref: React.RefObject<HTMLElement>,
+  key: 'ganttScrollLeft' | 'dayScrollTop',
+  axis: 'left' | 'top'
+): void {
+  const store = useContext(ViewStateContext);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element || !store) return;
+
+    const saved = store.get(key, 0);
+    if (axis === 'left') {
+      element.scrollLeft = saved;
+    } else {
+      element.scrollTop = saved;
+    }
+
+    const handleScroll = () => {
+      store.setDeferred(key, axis === 'left' ? element.scrollLeft : element.scrollTop);
+    };
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    return () => element.removeEventListener('scroll', handleScroll);
+  }, [ref, store, key, axis]);
+}
@@ -0,0 +1,174 @@
+import { useCallback } from 'react';
+import { App, Notice, TFile, TFolder } from 'obsidian';
+import { addDays } from 'date-fns';
+import { usePropertyUpdate } from './usePropertyUpdate';
+import { useSelection } from '../context/SelectionContext';
+import { OptionSuggestModal } from '../components/shared/OptionSuggestModal';
+import { TextInputModal } from '../components/shared/TextInputModal';
+import { ConfirmModal } from '../components/shared/ConfirmModal';
+import { getFrontmatterKey, getPropertyDisplayName, isEditableProperty } from '../utils/propertyId';
+import { parseDate } from '../utils/dateParsing';
+import { reportError } from '../utils/errorReporter';
+import { t, tn } from '../i18n';
+
+/**
+ * Hook for actions on all selected notes of a view.
+ * Property changes are one undo step; moves and deletions go through
+ * Obsidian's file manager, so links are updated and deleted notes go to the trash.
+ *
+ * @param properties - Ids of the properties the view shows (offered by "set property")
+ * @param dateProperties - Ids of the view's date properties (shifted by "shift dates")
+ * @param dateFormats - Custom date formats from plugin settings
+ * @param app - Obsidian app instance
+ * @returns Bulk action handlers
+ */
+export function useBulkActions(
+  properties: string[],
+  dateProperties: string[],
+  dateFormats: string[],
+  app: App
+) {
+  const selection = useSelection();
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
+
+  /**
+   * Resolve the selected paths to files still in the vault
+   */
+  const getSelectedFiles = useCallback((): TFile[] => {
+    return (selection?.getIds() ?? [])
+      .map((path) => app.vault.getFileByPath(path))
+      .filter((file): file is TFile => file !== null);
+  }, [app, selection]);
+
+  /**
+   * Pick a property and write the same value to every selected note
+   */
+  const setProperty = useCallback(() => {
+    const files = getSelectedFiles();
+    if (files.length === 0) return;
+
+    // Properties of the view plus those the selected notes already have
+    const propertyIds = new Set(properties.filter(isEditableProperty));
+    files.forEach((file) => {
+      Object.keys(app.metadataCache.getFileCache(file)?.frontmatter ?? {}).forEach((key) => {
+        propertyIds.add(`note.${key}`);
+      });
+    });
+
+    new OptionSuggestModal(
+      app,
+      Array.from(propertyIds).sort().map((id) => ({ label: getPropertyDisplayName(id), value: id })),
+      (propertyId) => {
+        new TextInputModal(
+          app,
+          t('selection.setPropertyTitle', { name: getPropertyDisplayName(propertyId) }),
+          (value) => {
+            const batch = startBatch(t('history.setProperty', { name: getPropertyDisplayName(propertyId) }));
+            files.forEach((file) => void updateProperty(file, propertyId, value, batch));
+          },
+          '',
+          t('common.value'),
+          t('common.apply')
+        ).open();
+      },
+      t('selection.chooseProperty')
+    ).open();
+  }, [app, properties, getSelectedFiles, updateProperty, startBatch]);
+
+  /**
+   * Move the view's dates of every selected note by a number of days
+   */
+  const shiftDates = useCallback(() => {
+    const files = getSelectedFiles();
+    const propertyIds = dateProperties.filter(Boolean);
+    if (files.length === 0 || propertyIds.length === 0 || !ensureEditable(...propertyIds)) return;
+
+    new TextInputModal(
+      app,
+      t('selection.shiftDatesTitle'),
+      (input) => {
+        const days = Number(input);
+        if (!Number.isInteger(days)) {
+          new Notice(t('selection.invalidDays', { value: input }));
+          return;
+        }
+        if (days === 0) return;
+
+        const batch = startBatch(t('history.shiftDates'));
+        files.forEach((file) => {
+          const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+          propertyIds.forEach((propertyId) => {
+            const date = parseDate(frontmatter?.[getFrontmatterKey(propertyId)!], dateFormats);
+            if (date) {
+              void updateProperty(file, propertyId, addDays(date, days), batch);
+            }
+          });
+        });
+      },
+      t('selection.daysPlaceholder'),
+      t('selection.days'),
+      t('common.apply')
+    ).open();
+  }, [app, dateProperties, dateFormats, getSelectedFiles, updateProperty, ensureEditable, startBatch]);
+
+  /**
+   * Pick a folder and move every selected note into it
+   */
+  const moveToFolder = useCallback(() => {
+    const files = getSelectedFiles();
+    if (files.length === 0) return;
+
+    const folders = app.vault.getAllFolders(true).sort((a, b) => a.path.localeCompare(b.path));
+    new OptionSuggestModal<TFolder>(
+      app,
+      folders.map((folder) => ({ label: folder.isRoot() ? '/' : folder.path, value: folder })),
+      (folder) => {
+        void (async () => {
+          for (const file of files) {
+            if (file.parent === folder) continue;
+            const move = async () => {
+              await app.fileManager.renameFile(file, folder.isRoot() ? file.name : `${folder.path}/${file.name}`);
+            };
+            try {
+              await move();
+            } catch (error) {
+              reportError({ action: t('action.moveNote'), error, file, retry: move });
+            }
+          }
+          selection?.clear();
+        })();
+      },
+      t('selection.chooseFolder')
+    ).open();
+  }, [app, selection, getSelectedFiles]);
+
+  /**
+   * Ask for confirmation, then move every selected note to the trash
+   */
+  const deleteNotes = useCallback(() => {
+    const files = getSelectedFiles();
+    if (files.length === 0) return;
+
+    new ConfirmModal(
+      app,
+      t('selection.deleteTitle'),
+      tn('selection.deleteMessage', files.length),
+      t('selection.delete'),
+      async () => {
+        for (const file of files) {
+          const trash = async () => {
+            await app.fileManager.trashFile(file);
+          };
+          try {
+            await trash();
+          } catch (error) {
+            reportError({ action: t('action.deleteNote'), error, file, retry: trash });
+          }
+        }
+        selection?.clear();
+      }
+    ).open();
+  }, [app, selection, getSelectedFiles]);
+
+  return { setProperty, shiftDates, moveToFolder, deleteNotes };
+}
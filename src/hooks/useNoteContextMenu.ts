@@ -0,0 +1,237 @@
+import { useCallback } from 'react';
+import { App, Menu, Notice, TFile, normalizePath } from 'obsidian';
+import { addDays, addWeeks, differenceInCalendarDays, startOfDay, startOfWeek } from 'date-fns';
+import { usePropertyUpdate } from './usePropertyUpdate';
+import { useNoteMenuOptions } from '../context/NoteMenuContext';
+import { usePropertyPopover } from '../context/PropertyPopoverContext';
+import { OptionSuggestModal } from '../components/shared/OptionSuggestModal';
+import { TextInputModal } from '../components/shared/TextInputModal';
+import { ConfirmModal } from '../components/shared/ConfirmModal';
+import { duplicateFile } from '../utils/noteCreator';
+import { getFrontmatterKey, getPropertyDisplayName, isEditableProperty } from '../utils/propertyId';
+import { getPropertyType } from '../utils/propertyTypes';
+import { getMovedGroupValue } from '../views/board/utils/boardHelpers';
+import { parseDate } from '../utils/dateParsing';
+import { getWeekOptions } from '../utils/dateLocale';
+import { reportError } from '../utils/errorReporter';
+import { t } from '../i18n';
+
+/** Source passed to the workspace 'file-menu' event, so other plugins know where the menu comes from */
+export const NOTE_MENU_SOURCE = 'bases-views';
+
+/**
+ * Hook for the right-click menu of a card, task bar or event.
+ * Offers opening, renaming, duplicating, deleting and linking the note, the
+ * property popover, and the view's property shortcuts (group, done, reschedule).
+ * Other plugins can add items through the workspace 'file-menu' event.
+ *
+ * @param file - Note of the item
+ * @param app - Obsidian app instance
+ * @param group - Group the item is shown in; "Set … to" replaces only this item of a list
+ * @returns contextmenu handler
+ */
+export function useNoteContextMenu(file: TFile, app: App, group = '') {
+  const options = useNoteMenuOptions();
+  const propertyPopover = usePropertyPopover();
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
+
+  /**
+   * Ask for a new name and rename the note (links are updated by Obsidian)
+   */
+  const rename = useCallback(() => {
+    new TextInputModal(
+      app,
+      t('menu.renameTitle'),
+      async (name) => {
+        if (name === file.basename) return;
+        const renameFile = async () => {
+          await app.fileManager.renameFile(file, normalizePath(`${file.parent?.path ?? ''}/${name}.${file.extension}`));
+        };
+        try {
+          await renameFile();
+        } catch (error) {
+          reportError({ action: t('action.renameNote'), error, file, retry: renameFile });
+        }
+      },
+      '',
+      t('common.name'),
+      t('menu.rename')
+    ).setValue(file.basename).open();
+  }, [app, file]);
+
+  /**
+   * Copy the note next to the original
+   */
+  const duplicate = useCallback(async () => {
+    try {
+      const copy = await duplicateFile(app, file);
+      new Notice(t('menu.duplicated', { name: copy.basename }));
+    } catch (error) {
+      reportError({ action: t('action.duplicateNote'), error, file, retry: duplicate });
+    }
+  }, [app, file]);
+
+  /**
+   * Ask for confirmation and move the note to the trash
+   */
+  const trash = useCallback(() => {
+    new ConfirmModal(
+      app,
+      t('menu.deleteTitle'),
+      t('menu.deleteMessage', { name: file.basename }),
+      t('selection.delete'),
+      async () => {
+        const trashFile = async () => {
+          await app.fileManager.trashFile(file);
+        };
+        try {
+          await trashFile();
+        } catch (error) {
+          reportError({ action: t('action.deleteNote'), error, file, retry: trashFile });
+        }
+      }
+    ).open();
+  }, [app, file]);
+
+  /**
+   * Copy a link to the note, in the vault's link format
+   */
+  const copyLink = useCallback(async () => {
+    try {
+      await window.navigator.clipboard.writeText(app.fileManager.generateMarkdownLink(file, ''));
+      new Notice(t('menu.linkCopied'));
+    } catch (error) {
+      reportError({ action: t('action.copyLink'), error, file, retry: copyLink });
+    }
+  }, [app, file]);
+
+  /**
+   * Pick one of the group values (or type a new one) and move the note there.
+   * Lists keep their other items, as when the card is dragged
+   */
+  const setGroup = useCallback(() => {
+    if (!options?.groupByProperty || !ensureEditable(options.groupByProperty)) return;
+    const { groupByProperty } = options;
+    const name = getPropertyDisplayName(groupByProperty);
+
+    const apply = (value: string) => {
+      const key = getFrontmatterKey(groupByProperty);
+      const current = key ? app.metadataCache.getFileCache(file)?.frontmatter?.[key] : undefined;
+      const isList = Array.isArray(current) || (key !== null && getPropertyType(app, key, current) === 'list');
+      const next = getMovedGroupValue(current, group, value, isList);
+      if (next === undefined) return;
+      void updateProperty(file, groupByProperty, next, startBatch(t('history.change', { name })));
+    };
+
+    new OptionSuggestModal<string | null>(
+      app,
+      [
+        ...options.getGroupValues().map((value) => ({ label: value, value })),
+        { label: t('menu.newValue'), value: null },
+      ],
+      (value) => {
+        if (value !== null) {
+          apply(value);
+          return;
+        }
+        new TextInputModal(app, t('menu.setGroupTitle', { name }), apply, '', t('common.value'), t('common.apply')).open();
+      },
+      t('menu.chooseValue', { name })
+    ).open();
+  }, [app, file, group, options, updateProperty, ensureEditable, startBatch]);
+
+  /**
+   * Write the configured done value
+   */
+  const markDone = useCallback(() => {
+    if (!options?.doneProperty) return;
+    void updateProperty(file, `note.${options.doneProperty}`, options.doneValue, startBatch(t('history.markDone')));
+  }, [file, options, updateProperty, startBatch]);
+
+  /**
+   * Move the note's start date to a day, keeping its time and its duration
+   */
+  const reschedule = useCallback((target: Date) => {
+    const [startProperty, endProperty] = options?.dateProperties ?? [];
+    if (!startProperty || !ensureEditable(startProperty, endProperty)) return;
+
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    const readDate = (propertyId: string) => {
+      const key = getFrontmatterKey(propertyId);
+      return key ? parseDate(frontmatter?.[key], options?.dateFormats) : null;
+    };
+
+    const batch = startBatch(t('history.reschedule'));
+    const start = readDate(startProperty);
+    if (!start) {
+      void updateProperty(file, startProperty, target, batch);
+      return;
+    }
+
+    const days = differenceInCalendarDays(target, start);
+    void updateProperty(file, startProperty, addDays(start, days), batch);
+    const end = endProperty ? readDate(endProperty) : null;
+    if (end) {
+      void updateProperty(file, endProperty, addDays(end, days), batch);
+    }
+  }, [app, file, options, updateProperty, ensureEditable, startBatch]);
+
+  return useCallback((event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const itemEl = event.currentTarget as HTMLElement;
+
+    const menu = new Menu();
+
+    menu.addItem((item) => item
+      .setTitle(t('menu.openInNewTab'))
+      .setIcon('file-plus')
+      .onClick(() => void app.workspace.getLeaf('tab').openFile(file)));
+    menu.addItem((item) => item
+      .setTitle(t('menu.openToTheRight'))
+      .setIcon('separator-vertical')
+      .onClick(() => void app.workspace.getLeaf('split').openFile(file)));
+
+    menu.addSeparator();
+    menu.addItem((item) => item.setTitle(t('menu.rename')).setIcon('pencil').onClick(rename));
+    menu.addItem((item) => item.setTitle(t('menu.duplicate')).setIcon('copy').onClick(() => void duplicate()));
+    menu.addItem((item) => item.setTitle(t('menu.copyLink')).setIcon('link').onClick(() => void copyLink()));
+    if (propertyPopover) {
+      menu.addItem((item) => item
+        .setTitle(t('menu.editProperties'))
+        .setIcon('list')
+        .onClick(() => propertyPopover.open(file, itemEl)));
+    }
+
+    if (options) {
+      menu.addSeparator();
+      if (options.groupByProperty && isEditableProperty(options.groupByProperty)) {
+        menu.addItem((item) => item
+          .setTitle(t('menu.setGroup', { name: getPropertyDisplayName(options.groupByProperty) }))
+          .setIcon('columns')
+          .onClick(setGroup));
+      }
+      if (options.doneProperty) {
+        menu.addItem((item) => item.setTitle(t('menu.markDone')).setIcon('check-circle').onClick(markDone));
+      }
+      if (options.dateProperties.length > 0 && isEditableProperty(options.dateProperties[0])) {
+        const today = startOfDay(new Date());
+        const targets: Array<[string, Date]> = [
+          [t('menu.rescheduleToday'), today],
+          [t('menu.rescheduleTomorrow'), addDays(today, 1)],
+          [t('menu.rescheduleNextWeek'), startOfWeek(addWeeks(today, 1), getWeekOptions())],
+        ];
+        targets.forEach(([title, target]) => {
+          menu.addItem((item) => item.setTitle(title).setIcon('calendar').onClick(() => reschedule(target)));
+        });
+      }
+    }
+
+    menu.addSeparator();
+    menu.addItem((item) => item.setTitle(t('menu.delete')).setIcon('trash').setWarning(true).onClick(trash));
+
+    // Let other plugins add their items
+    app.workspace.trigger('file-menu', menu, file, NOTE_MENU_SOURCE);
+    menu.showAtMouseEvent(event.nativeEvent);
+  }, [app, file, options, propertyPopover, rename, duplicate, copyLink, setGroup, markDone, reschedule, trash]);
+}
@@ -1,27 +1,87 @@
 import { useCallback } from 'react';
-import { App, TFile } from 'obsidian';
+import { App, Notice, TFile } from 'obsidian';
 import { updateFileProperty } from '../utils/propertyUpdater';
+import { getFrontmatterKey, parsePropertyId } from '../utils/propertyId';
+import { HistoryBatch } from '../utils/propertyHistory';
+import { usePropertyHistory } from '../context/PropertyHistoryContext';
+import { usePendingChanges } from '../context/PendingChangesContext';
+import { reportError } from '../utils/errorReporter';
+import { t } from '../i18n';
 
 /**
  * React hook for updating file properties.
  * Provides a stable callback for property updates.
+ * Values are shown in the view right away and rolled back if the write fails.
+ * Every successful write is recorded in the view's undo history;
+ * failed writes are reported with a notice that offers a retry.
+ * Properties are addressed by their full id; formula and file properties are read-only.
  *
  * @param app - Obsidian app instance
- * @returns Object with updateProperty function
+ * @returns Object with updateProperty, ensureEditable and startBatch functions
  */
 export function usePropertyUpdate(app: App) {
+  const history = usePropertyHistory();
+  const pendingChanges = usePendingChanges();
+
   const updateProperty = useCallback(
-    async (file: TFile, propertyName: string, value: unknown) => {
+    async (file: TFile, propertyId: string, value: unknown, batch?: HistoryBatch) => {
+      const propertyName = getFrontmatterKey(propertyId);
+      if (propertyName === null) {
+        showReadOnlyNotice(propertyId);
+        return;
+      }
+
+      const write = async () => {
+        const pending = pendingChanges?.add(file, propertyName, value);
+        try {
+          const change = await updateFileProperty(app, file, propertyName, value);
+          if (pending) pendingChanges?.confirm(pending, change.newValue);
+          history?.record(change, batch);
+        } catch (error) {
+          // Roll back the optimistic value
+          if (pending) pendingChanges?.remove(pending);
+          throw error;
+        }
+      };
+
       try {
-        await updateFileProperty(app, file, propertyName, value);
+        await write();
       } catch (error) {
-        console.error('Failed to update property:', error);
-        // TODO: Show user-friendly error notification
-        // For now, just log to console
+        reportError({ action: t('action.updateProperty', { name: propertyName }), error, file, retry: write });
       }
     },
-    [app]
+    [app, history, pendingChanges]
   );
 
-  return { updateProperty };
+  /**
+   * Check that properties can be written before starting a drag or resize.
+   * Shows a notice and returns false if any of them is a formula or file property.
+   */
+  const ensureEditable = useCallback((...propertyIds: string[]): boolean => {
+    const readOnlyId = propertyIds.find((id) => id && getFrontmatterKey(id) === null);
+    if (readOnlyId) {
+      showReadOnlyNotice(readOnlyId);
+      return false;
+    }
+    return true;
+  }, []);
+
+  /**
+   * Start a batch so several writes are undone as one step.
+   * Pass the returned batch to each updateProperty call of the same action.
+   */
+  const startBatch = useCallback(
+    (label: string): HistoryBatch | undefined => history?.startBatch(label),
+    [history]
+  );
+
+  return { updateProperty, ensureEditable, startBatch };
+}
+
+/**
+ * Tell the user a property is computed by Bases and can't be changed from the view.
+ */
+function showReadOnlyNotice(propertyId: string): void {
+  const { source, name } = parsePropertyId(propertyId);
+  new Notice(t('view.readOnly', { name, source: t(`propertySource.${source}`) }));
 }
@@ -0,0 +1,314 @@
+import type { Translations } from './index';
+
+/**
+ * German strings.
+ */
+export const de: Translations = {
+  // Shared
+  'common.cancel': 'Abbrechen',
+  'common.create': 'Erstellen',
+  'common.name': 'Name',
+  'common.retry': 'Wiederholen',
+  'common.untitled': 'Unbenannt',
+  'common.day': 'Tag',
+  'common.week': 'Woche',
+  'common.month': 'Monat',
+  'common.pluginDefault': 'Plugin-Standard',
+  'common.selectProperty': 'Eigenschaft wählen',
+  'common.selectPropertyOptional': 'Eigenschaft wählen (optional)',
+  'common.selectDateProperty': 'Datumseigenschaft wählen',
+  'common.selectDatePropertyOptional': 'Datumseigenschaft wählen (optional)',
+  'common.noEntries': 'Keine Einträge vorhanden',
+  'common.value': 'Wert',
+  'common.apply': 'Anwenden',
+
+  // View names
+  'view.board': 'Board',
+  'view.gantt': 'Gantt',
+  'view.calendar': 'Kalender',
+
+  // View options
+  'options.groupBy': 'Gruppieren nach',
+  'options.dateBuckets': 'Daten nach Zeitraum gruppieren',
+  'options.subGroupBy': 'Untergruppen nach',
+  'options.startDate': 'Startdatum',
+  'options.endDate': 'Enddatum',
+  'options.timelineStep': 'Zeitachsen-Schritt',
+  'options.viewMode': 'Ansicht',
+  'options.newNotes': 'Neue Notizen',
+  'options.folder': 'Ordner',
+  'options.fileName': 'Dateiname',
+  'options.template': 'Vorlage',
+  'options.icsExportPath': 'iCalendar-Exportdatei',
+  'options.cardOrder': 'Kartenreihenfolge',
+  'options.sortCardsBy': 'Karten sortieren nach',
+  'options.manualOrder': 'Manuell (per Ziehen)',
+  'options.sortDirection': 'Richtung',
+  'options.ascending': 'Aufsteigend',
+  'options.descending': 'Absteigend',
+  'options.rankProperty': 'Eigenschaft für manuelle Reihenfolge',
+  'options.strictLimits': 'WIP-Limits durchsetzen',
+  'options.cardLayout': 'Kartenlayout',
+  'options.cardProperties': 'Eigenschaften auf Karten',
+  'options.showPropertyNames': 'Eigenschaftsnamen anzeigen',
+  'options.colors': 'Farben',
+  'options.colorBy': 'Färben nach',
+  'options.colorMappings': 'Farben der Werte',
+
+  // Base view
+  'view.loading': 'Daten aus Bases werden geladen...',
+  'view.undo': 'Rückgängig: {label}',
+  'view.redo': 'Wiederholt: {label}',
+  'view.undoFailed': 'Die letzte Änderung konnte nicht rückgängig gemacht werden',
+  'view.redoFailed': 'Die letzte Änderung konnte nicht wiederholt werden',
+  'view.readOnly': '„{name}“ ist eine {source}-Eigenschaft und schreibgeschützt',
+  'view.exported': 'Daten der Ansicht nach {path} exportiert',
+  'propertySource.note': 'Notiz',
+  'propertySource.formula': 'Formel',
+  'propertySource.file': 'Datei',
+
+  // Undo history labels
+  'history.change': '{name} ändern',
+  'history.moveCard': 'Karte verschieben',
+  'history.moveTask': 'Aufgabe verschieben',
+  'history.resizeTask': 'Aufgabendauer ändern',
+  'history.moveEvent': 'Termin verschieben',
+  'history.resizeEvent': 'Termindauer ändern',
+  'history.renameGroup': 'Gruppe „{name}“ umbenennen',
+  'history.importKanban': 'Kanban-Board importieren',
+  'history.setProperty': '{name} setzen',
+  'history.shiftDates': 'Daten verschieben',
+  'history.markDone': 'Als erledigt markieren',
+  'history.reschedule': 'Verschieben',
+
+  // Errors
+  'error.title': 'Etwas ist schiefgelaufen',
+  'error.unknown': 'Unbekannter Fehler',
+  'error.reloadView': 'Ansicht neu laden',
+  'error.checkConsole': 'Details stehen in der Konsole',
+  'error.failed': 'Fehler beim {action}',
+  'error.notice': 'Fehler beim {action}: {message}',
+  'error.noticeInFile': 'Fehler beim {action} in „{file}“: {message}',
+  'errorLog.title': 'Fehlerprotokoll',
+  'errorLog.empty': 'Bisher keine Fehler.',
+  'errorLog.clear': 'Protokoll leeren',
+  'action.updateProperty': 'Ändern von „{name}“',
+  'action.createPage': 'Erstellen der Notiz',
+  'action.createGroup': 'Erstellen der Gruppe',
+  'action.createSubGroup': 'Erstellen der Untergruppe',
+  'action.createTask': 'Erstellen der Aufgabe',
+  'action.createEvent': 'Erstellen des Termins',
+  'action.renameTask': 'Umbenennen der Aufgabe',
+  'action.exportCalendar': 'Exportieren des Kalenders',
+  'action.importCalendar': 'Importieren des Kalenders',
+  'action.exportGantt': 'Exportieren des Gantt-Diagramms',
+  'action.importKanban': 'Importieren des Kanban-Boards',
+  'action.exportKanban': 'Exportieren des Kanban-Boards',
+  'action.exportViewData': 'Exportieren der Ansichtsdaten',
+  'action.moveNote': 'Verschieben der Notiz',
+  'action.deleteNote': 'Löschen der Notiz',
+  'action.renameNote': 'Notiz umbenennen',
+  'action.duplicateNote': 'Notiz duplizieren',
+  'action.copyLink': 'Link kopieren',
+
+  // Dates that couldn't be read
+  'skipped.summary.one': '{count} Notiz übersprungen: Datum nicht lesbar',
+  'skipped.summary.other': '{count} Notizen übersprungen: Datum nicht lesbar',
+  'date.empty': 'Kein Datum',
+  'date.invalid': 'Ungültiges Datum',
+  'date.invalidTimestamp': 'Ungültiger Zeitstempel {value}',
+  'date.unreadable': '„{value}“ ist kein lesbares Datum',
+  'date.list': 'Ein Datum erwartet, aber eine Liste mit {count} erhalten',
+  'date.unsupported': 'Nicht unterstützter Datumswert ({type})',
+
+  // Selection
+  'selection.count.one': '{count} ausgewählt',
+  'selection.count.other': '{count} ausgewählt',
+  'selection.setProperty': 'Eigenschaft setzen',
+  'selection.shiftDates': 'Daten verschieben',
+  'selection.moveToFolder': 'In Ordner verschieben',
+  'selection.delete': 'Löschen',
+  'selection.clear': 'Auswahl aufheben',
+  'selection.chooseProperty': 'Eigenschaft auswählen',
+  'selection.setPropertyTitle': '„{name}“ setzen',
+  'selection.shiftDatesTitle': 'Daten verschieben',
+  'selection.days': 'Tage',
+  'selection.daysPlaceholder': 'Zum Beispiel 7 oder -3',
+  'selection.invalidDays': '„{value}“ ist keine ganze Zahl von Tagen',
+  'selection.chooseFolder': 'Ordner auswählen',
+  'selection.deleteTitle': 'Notizen löschen',
+  'selection.deleteMessage.one': '{count} Notiz in den Papierkorb verschieben?',
+  'selection.deleteMessage.other': '{count} Notizen in den Papierkorb verschieben?',
+
+  // Context menu
+  'menu.openInNewTab': 'In neuem Tab öffnen',
+  'menu.openToTheRight': 'Rechts öffnen',
+  'menu.rename': 'Umbenennen',
+  'menu.renameTitle': 'Notiz umbenennen',
+  'menu.duplicate': 'Duplizieren',
+  'menu.duplicated': '„{name}“ erstellt',
+  'menu.copyLink': 'Link kopieren',
+  'menu.editProperties': 'Eigenschaften bearbeiten',
+  'menu.linkCopied': 'Link in die Zwischenablage kopiert',
+  'menu.setGroup': '{name} setzen auf…',
+  'menu.setGroupTitle': '{name} setzen',
+  'menu.chooseValue': 'Wert für {name} auswählen',
+  'menu.newValue': 'Neuer Wert…',
+  'menu.markDone': 'Als erledigt markieren',
+  'menu.rescheduleToday': 'Auf heute verschieben',
+  'menu.rescheduleTomorrow': 'Auf morgen verschieben',
+  'menu.rescheduleNextWeek': 'Auf nächste Woche verschieben',
+  'menu.delete': 'Löschen',
+  'menu.deleteTitle': 'Notiz löschen',
+  'menu.deleteMessage': '„{name}“ in den Papierkorb verschieben?',
+  'menu.renameGroup': 'Gruppe umbenennen',
+  'menu.collapseGroup': 'Gruppe einklappen',
+  'menu.expandGroup': 'Gruppe ausklappen',
+  'menu.selectGroup': 'Ganze Gruppe auswählen',
+  'menu.newPage': 'Neue Seite',
+  'menu.setLimit': 'WIP-Limit festlegen…',
+  'menu.removeLimit': 'WIP-Limit entfernen',
+
+  // Property popover
+  'properties.empty': 'Keine Eigenschaften',
+  'properties.addItem': 'Element hinzufügen',
+  'properties.removeItem': '„{item}“ entfernen',
+  'properties.openLink': 'Verknüpfte Notiz öffnen',
+
+  // Filter bar
+  'filter.label': 'Notizen filtern',
+  'filter.placeholder': 'Filter: Text, Schlüssel:Wert, this week, overdue…',
+  'filter.clear': 'Filter zurücksetzen',
+  'filter.removeChip': '„{chip}“ entfernen',
+
+  // Board
+  'board.newPage': '+ Neue Notiz',
+  'board.newGroup': '+ Neue Gruppe',
+  'board.newSubGroup': '+ Neue Untergruppe',
+  'board.newGroupTitle': 'Neue Gruppe',
+  'board.newSubGroupTitle': 'Neue Untergruppe',
+  'board.groupNamePlaceholder': 'Gruppenname eingeben',
+  'board.subGroupNamePlaceholder': 'Name der Untergruppe eingeben',
+  'board.renameGroupTitle': 'Gruppe umbenennen',
+  'board.limitTitle': 'WIP-Limit von „{column}“',
+  'board.limitLabel': 'Höchstzahl an Karten in der Spalte',
+  'board.limitPerRowLabel': 'Höchstzahl an Karten pro Zeile in der Spalte',
+  'board.limitPerRow': '≤ {limit} pro Zeile',
+  'board.invalidLimit': 'Das Limit muss eine ganze Zahl größer als 0 sein',
+  'board.limitReached': 'Spalte „{column}“ hat ihr WIP-Limit ({limit}) erreicht',
+  'board.bucket.overdue': 'Überfällig',
+  'board.bucket.today': 'Heute',
+  'board.bucket.tomorrow': 'Morgen',
+  'board.bucket.thisWeek': 'Diese Woche',
+  'board.bucket.later': 'Später',
+  'board.bucket.noDate': 'Kein Datum',
+  'board.kanbanImported': 'Verschobene Notizen: {moved}. Erstellte Notizen: {created}.',
+  'board.kanbanExported': '{count} Spalten exportiert',
+  'board.kanbanExportTitle': 'Board {date}',
+  'board.kanbanNewNote': 'Neue Notiz',
+  'board.noKanbanFiles': 'Keine Kanban-Boards im Vault',
+  'board.chooseKanbanFile': 'Kanban-Board zum Importieren wählen',
+  'board.chooseKanbanTarget': 'In neue Notiz exportieren oder Kanban-Board überschreiben',
+
+  // Card properties
+  'card.today': 'Heute',
+  'card.tomorrow': 'Morgen',
+  'card.yesterday': 'Gestern',
+  'card.inDays.one': 'In {count} Tag',
+  'card.inDays.other': 'In {count} Tagen',
+  'card.daysAgo.one': 'Vor {count} Tag',
+  'card.daysAgo.other': 'Vor {count} Tagen',
+  'card.checked': 'Abgehakt',
+  'card.unchecked': 'Nicht abgehakt',
+
+  // Gantt
+  'gantt.taskColumn': 'Aufgabe',
+  'gantt.noTasks': 'Keine Aufgaben',
+  'gantt.emptyTitle': 'Keine Aufgaben mit gültigen Daten gefunden',
+  'gantt.emptyHint': 'Klicke in das Diagramm, um die erste Aufgabe zu erstellen, oder füge bestehenden Notizen die Eigenschaften {start} und {end} hinzu.',
+  'gantt.newTask': 'Neue Aufgabe',
+  'gantt.taskName': 'Aufgabenname',
+  'gantt.taskNamePlaceholder': 'Aufgabenname eingeben',
+  'gantt.startDate': 'Startdatum',
+  'gantt.endDate': 'Enddatum',
+  'gantt.todayOutside': 'Heute liegt außerhalb der Zeitachse',
+  'gantt.exportTitle': 'Gantt-Diagramm {date}',
+  'gantt.exportCopied': 'Gantt-Diagramm in die Zwischenablage kopiert',
+  'gantt.exportMermaidClipboard': 'Mermaid: in die Zwischenablage kopieren',
+  'gantt.exportMermaidNote': 'Mermaid: neue Notiz',
+  'gantt.exportSvgClipboard': 'SVG: in die Zwischenablage kopieren',
+  'gantt.exportSvgFile': 'SVG: neue Datei',
+
+  // Calendar
+  'calendar.previous': 'Zurück',
+  'calendar.next': 'Weiter',
+  'calendar.today': 'Heute',
+  'calendar.newEvent': 'Neuer Termin',
+  'calendar.eventName': 'Terminname',
+  'calendar.eventNamePlaceholder': 'Terminname eingeben',
+  'calendar.startTime': 'Beginn',
+  'calendar.endTime': 'Ende',
+  'calendar.allDay': 'Ganztägig',
+  'calendar.start': 'Beginn',
+  'calendar.end': 'Ende',
+  'calendar.dropHere': 'Hier ablegen',
+  'calendar.exported.one': '{count} Termin nach {path} exportiert',
+  'calendar.exported.other': '{count} Termine nach {path} exportiert',
+  'calendar.imported': 'Importiert: {imported}. Bereits im Vault: {skipped}.',
+  'calendar.noIcsFiles': 'Keine .ics-Dateien im Vault',
+  'calendar.chooseIcsFile': '.ics-Datei zum Importieren wählen',
+
+  // Commands
+  'command.undo': 'Letzte Änderung in der Ansicht rückgängig machen',
+  'command.redo': 'Letzte Änderung in der Ansicht wiederholen',
+  'command.goToToday': 'Zu heute springen',
+  'command.nextPeriod': 'Zum nächsten Zeitraum',
+  'command.previousPeriod': 'Zum vorherigen Zeitraum',
+  'command.calendarMonth': 'Kalender auf Monat umschalten',
+  'command.calendarWeek': 'Kalender auf Woche umschalten',
+  'command.calendarDay': 'Kalender auf Tag umschalten',
+  'command.timelineStep': 'Zeitachsen-Schritt im Gantt ändern',
+  'command.timelineStepPlaceholder': 'Zeitachsen-Schritt',
+  'command.createItem': 'Neues Element in dieser Ansicht erstellen',
+  'command.collapseAll': 'Alle Gruppen einklappen',
+  'command.expandAll': 'Alle Gruppen ausklappen',
+  'command.scrollToToday': 'Gantt zu heute scrollen',
+  'command.exportIcs': 'Kalender als .ics-Datei exportieren',
+  'command.importIcs': 'Termine aus .ics-Datei importieren',
+  'command.exportGantt': 'Gantt-Diagramm exportieren',
+  'command.exportGanttPlaceholder': 'Exportformat',
+  'command.importKanban': 'Kanban-Board in dieses Board importieren',
+  'command.exportKanban': 'Board als Kanban-Markdown exportieren',
+  'command.showErrorLog': 'Fehlerprotokoll anzeigen',
+  'command.editProperties': 'Eigenschaften des Elements unter dem Mauszeiger oder des ausgewählten Elements bearbeiten',
+  'command.exportViewData': 'Daten der Ansicht exportieren',
+  'command.exportViewDataPlaceholder': 'Dateiformat',
+
+  // Settings
+  'settings.newNotes': 'Neue Notizen',
+  'settings.folder': 'Ordner',
+  'settings.folderDesc': 'Ordner für Notizen, die in einer Ansicht erstellt werden. Leer lassen für das Stammverzeichnis des Vaults.',
+  'settings.folderPlaceholder': 'Beispiel: projects/tasks',
+  'settings.fileName': 'Dateiname',
+  'settings.fileNameDesc': 'Muster für die Namen neuer Notizen. Verfügbare Variablen: {{title}}, {{date}}, {{group}}.',
+  'settings.template': 'Vorlage',
+  'settings.templateDesc': 'Notiz, deren Inhalt und Eigenschaften in neue Notizen kopiert werden. Von der Ansicht gesetzte Eigenschaften haben Vorrang.',
+  'settings.templatePlaceholder': 'Beispiel: templates/task.md',
+  'settings.dates': 'Datumsangaben',
+  'settings.dateFormats': 'Datumsformate',
+  'settings.dateFormatsDesc': 'Zusätzliche Formate zum Lesen von Datumseigenschaften, eines pro Zeile, in moment-Syntax. Beispiel: DD.MM.YYYY oder MM/DD/YYYY.',
+  'settings.weekStart': 'Erster Tag der Woche',
+  'settings.weekStartDesc': 'Gilt für Kalenderraster und Zeitachsen. Monats- und Tagesnamen folgen der App-Sprache.',
+  'settings.weekStartLocale': 'Wie App-Sprache',
+  'settings.monday': 'Montag',
+  'settings.sunday': 'Sonntag',
+  'settings.saturday': 'Samstag',
+  'settings.markDone': 'Als erledigt markieren',
+  'settings.doneProperty': 'Eigenschaft',
+  'settings.donePropertyDesc': 'Eigenschaft, die „Als erledigt markieren“ im Kontextmenü setzt. Leer lassen, um den Eintrag auszublenden.',
+  'settings.doneValue': 'Wert',
+  'settings.doneValueDesc': 'Wert, der in die Eigenschaft geschrieben wird, zum Beispiel done oder true.',
+  'settings.filterBar': 'Filterleiste',
+  'settings.filterMe': 'Ich',
+  'settings.filterMeDesc': 'Wert, für den „me“ in Filtern wie assignee:me steht, zum Beispiel ein Name oder [[Link]].',
+};
@@ -0,0 +1,316 @@
+/**
+ * English strings. This catalogue defines every key;
+ * other languages may leave keys out and fall back to these.
+ *
+ * Placeholders in braces ({name}) are filled in by t().
+ * Keys ending in .one/.few/.many/.other are plural forms, picked by tn().
+ */
+export const en = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.create': 'Create',
+  'common.name': 'Name',
+  'common.retry': 'Retry',
+  'common.untitled': 'Untitled',
+  'common.day': 'Day',
+  'common.week': 'Week',
+  'common.month': 'Month',
+  'common.pluginDefault': 'Plugin default',
+  'common.selectProperty': 'Select property',
+  'common.selectPropertyOptional': 'Select property (optional)',
+  'common.selectDateProperty': 'Select date property',
+  'common.selectDatePropertyOptional': 'Select date property (optional)',
+  'common.noEntries': 'No entries to display',
+  'common.value': 'Value',
+  'common.apply': 'Apply',
+
+  // View names
+  'view.board': 'Board',
+  'view.gantt': 'Gantt',
+  'view.calendar': 'Calendar',
+
+  // View options
+  'options.groupBy': 'Group By',
+  'options.dateBuckets': 'Group dates by period',
+  'options.subGroupBy': 'Sub-Group By',
+  'options.startDate': 'Start Date',
+  'options.endDate': 'End Date',
+  'options.timelineStep': 'Timeline Step',
+  'options.viewMode': 'View Mode',
+  'options.newNotes': 'New notes',
+  'options.folder': 'Folder',
+  'options.fileName': 'File name',
+  'options.template': 'Template',
+  'options.icsExportPath': 'iCalendar export file',
+  'options.cardOrder': 'Card order',
+  'options.sortCardsBy': 'Sort cards by',
+  'options.manualOrder': 'Manual (drag to reorder)',
+  'options.sortDirection': 'Direction',
+  'options.ascending': 'Ascending',
+  'options.descending': 'Descending',
+  'options.rankProperty': 'Manual order property',
+  'options.strictLimits': 'Enforce WIP limits',
+  'options.cardLayout': 'Card layout',
+  'options.cardProperties': 'Properties on cards',
+  'options.showPropertyNames': 'Show property names',
+  'options.colors': 'Colors',
+  'options.colorBy': 'Color by',
+  'options.colorMappings': 'Value colors',
+
+  // Base view
+  'view.loading': 'Loading data from bases...',
+  'view.undo': 'Undo: {label}',
+  'view.redo': 'Redo: {label}',
+  'view.undoFailed': 'Could not undo the last change',
+  'view.redoFailed': 'Could not redo the last change',
+  'view.readOnly': '"{name}" is a {source} property and is read-only',
+  'view.exported': 'Exported view data to {path}',
+  'propertySource.note': 'note',
+  'propertySource.formula': 'formula',
+  'propertySource.file': 'file',
+
+  // Undo history labels
+  'history.change': 'Change {name}',
+  'history.moveCard': 'Move card',
+  'history.moveTask': 'Move task',
+  'history.resizeTask': 'Resize task',
+  'history.moveEvent': 'Move event',
+  'history.resizeEvent': 'Resize event',
+  'history.renameGroup': 'Rename group "{name}"',
+  'history.importKanban': 'Import Kanban board',
+  'history.setProperty': 'Set {name}',
+  'history.shiftDates': 'Shift dates',
+  'history.markDone': 'Mark done',
+  'history.reschedule': 'Reschedule',
+
+  // Errors
+  'error.title': 'Something went wrong',
+  'error.unknown': 'Unknown error',
+  'error.reloadView': 'Reload view',
+  'error.checkConsole': 'Check the console for more details',
+  'error.failed': 'Failed to {action}',
+  'error.notice': 'Failed to {action}: {message}',
+  'error.noticeInFile': 'Failed to {action} in "{file}": {message}',
+  'errorLog.title': 'Error log',
+  'errorLog.empty': 'No errors so far.',
+  'errorLog.clear': 'Clear log',
+  'action.updateProperty': 'update "{name}"',
+  'action.createPage': 'create new page',
+  'action.createGroup': 'create new group',
+  'action.createSubGroup': 'create new sub-group',
+  'action.createTask': 'create task',
+  'action.createEvent': 'create event',
+  'action.renameTask': 'rename task',
+  'action.exportCalendar': 'export calendar',
+  'action.importCalendar': 'import calendar',
+  'action.exportGantt': 'export Gantt chart',
+  'action.importKanban': 'import Kanban board',
+  'action.exportKanban': 'export Kanban board',
+  'action.exportViewData': 'export view data',
+  'action.moveNote': 'move note',
+  'action.deleteNote': 'delete note',
+  'action.renameNote': 'rename note',
+  'action.duplicateNote': 'duplicate note',
+  'action.copyLink': 'copy link',
+
+  // Dates that couldn't be read
+  'skipped.summary.one': '{count} note skipped: dates couldn\'t be read',
+  'skipped.summary.other': '{count} notes skipped: dates couldn\'t be read',
+  'date.empty': 'No date',
+  'date.invalid': 'Invalid date',
+  'date.invalidTimestamp': 'Invalid timestamp {value}',
+  'date.unreadable': 'Can\'t read "{value}" as a date',
+  'date.list': 'Expected one date, got a list of {count}',
+  'date.unsupported': 'Unsupported date value ({type})',
+
+  // Selection
+  'selection.count.one': '{count} selected',
+  'selection.count.other': '{count} selected',
+  'selection.setProperty': 'Set property',
+  'selection.shiftDates': 'Shift dates',
+  'selection.moveToFolder': 'Move to folder',
+  'selection.delete': 'Delete',
+  'selection.clear': 'Clear selection',
+  'selection.chooseProperty': 'Choose a property to set',
+  'selection.setPropertyTitle': 'Set "{name}"',
+  'selection.shiftDatesTitle': 'Shift dates',
+  'selection.days': 'Days',
+  'selection.daysPlaceholder': 'For example 7 or -3',
+  'selection.invalidDays': '"{value}" is not a whole number of days',
+  'selection.chooseFolder': 'Choose a folder',
+  'selection.deleteTitle': 'Delete notes',
+  'selection.deleteMessage.one': 'Move {count} note to the trash?',
+  'selection.deleteMessage.other': 'Move {count} notes to the trash?',
+
+  // Context menu
+  'menu.openInNewTab': 'Open in new tab',
+  'menu.openToTheRight': 'Open to the right',
+  'menu.rename': 'Rename',
+  'menu.renameTitle': 'Rename note',
+  'menu.duplicate': 'Duplicate',
+  'menu.duplicated': 'Created "{name}"',
+  'menu.copyLink': 'Copy link',
+  'menu.editProperties': 'Edit properties',
+  'menu.linkCopied': 'Link copied to clipboard',
+  'menu.setGroup': 'Set {name} to…',
+  'menu.setGroupTitle': 'Set {name}',
+  'menu.chooseValue': 'Choose a value for {name}',
+  'menu.newValue': 'New value…',
+  'menu.markDone': 'Mark done',
+  'menu.rescheduleToday': 'Reschedule to today',
+  'menu.rescheduleTomorrow': 'Reschedule to tomorrow',
+  'menu.rescheduleNextWeek': 'Reschedule to next week',
+  'menu.delete': 'Delete',
+  'menu.deleteTitle': 'Delete note',
+  'menu.deleteMessage': 'Move "{name}" to the trash?',
+  'menu.renameGroup': 'Rename group',
+  'menu.collapseGroup': 'Collapse group',
+  'menu.expandGroup': 'Expand group',
+  'menu.selectGroup': 'Select all in group',
+  'menu.newPage': 'New page',
+  'menu.setLimit': 'Set WIP limit…',
+  'menu.removeLimit': 'Remove WIP limit',
+
+  // Property popover
+  'properties.empty': 'No properties',
+  'properties.addItem': 'Add item',
+  'properties.removeItem': 'Remove "{item}"',
+  'properties.openLink': 'Open linked note',
+
+  // Filter bar
+  'filter.label': 'Filter notes',
+  'filter.placeholder': 'Filter: text, key:value, this week, overdue…',
+  'filter.clear': 'Clear filter',
+  'filter.removeChip': 'Remove "{chip}"',
+
+  // Board
+  'board.newPage': '+ New page',
+  'board.newGroup': '+ New group',
+  'board.newSubGroup': '+ New sub-group',
+  'board.newGroupTitle': 'New group',
+  'board.newSubGroupTitle': 'New sub-group',
+  'board.groupNamePlaceholder': 'Enter group name',
+  'board.subGroupNamePlaceholder': 'Enter sub-group name',
+  'board.renameGroupTitle': 'Rename group',
+  'board.limitTitle': 'WIP limit of "{column}"',
+  'board.limitLabel': 'Maximum cards in the column',
+  'board.limitPerRowLabel': 'Maximum cards per row in the column',
+  'board.limitPerRow': '≤ {limit} per row',
+  'board.invalidLimit': 'The limit must be a whole number greater than 0',
+  'board.limitReached': 'Column "{column}" is at its WIP limit ({limit})',
+  'board.bucket.overdue': 'Overdue',
+  'board.bucket.today': 'Today',
+  'board.bucket.tomorrow': 'Tomorrow',
+  'board.bucket.thisWeek': 'This week',
+  'board.bucket.later': 'Later',
+  'board.bucket.noDate': 'No date',
+  'board.kanbanImported': 'Moved notes: {moved}. Created notes: {created}.',
+  'board.kanbanExported': 'Exported {count} columns',
+  'board.kanbanExportTitle': 'Board {date}',
+  'board.kanbanNewNote': 'New note',
+  'board.noKanbanFiles': 'No Kanban boards in the vault',
+  'board.chooseKanbanFile': 'Choose a Kanban board to import',
+  'board.chooseKanbanTarget': 'Export to a new note or overwrite a Kanban board',
+
+  // Card properties
+  'card.today': 'Today',
+  'card.tomorrow': 'Tomorrow',
+  'card.yesterday': 'Yesterday',
+  'card.inDays.one': 'In {count} day',
+  'card.inDays.other': 'In {count} days',
+  'card.daysAgo.one': '{count} day ago',
+  'card.daysAgo.other': '{count} days ago',
+  'card.checked': 'Checked',
+  'card.unchecked': 'Unchecked',
+
+  // Gantt
+  'gantt.taskColumn': 'Task',
+  'gantt.noTasks': 'No tasks',
+  'gantt.emptyTitle': 'No tasks with valid dates found',
+  'gantt.emptyHint': 'Click on the chart to create your first task, or add {start} and {end} properties to existing notes.',
+  'gantt.newTask': 'New task',
+  'gantt.taskName': 'Task name',
+  'gantt.taskNamePlaceholder': 'Enter task name',
+  'gantt.startDate': 'Start date',
+  'gantt.endDate': 'End date',
+  'gantt.todayOutside': 'Today is outside the timeline',
+  'gantt.exportTitle': 'Gantt chart {date}',
+  'gantt.exportCopied': 'Gantt chart copied to clipboard',
+  'gantt.exportMermaidClipboard': 'Mermaid: copy to clipboard',
+  'gantt.exportMermaidNote': 'Mermaid: new note',
+  'gantt.exportSvgClipboard': 'SVG: copy to clipboard',
+  'gantt.exportSvgFile': 'SVG: new file',
+
+  // Calendar
+  'calendar.previous': 'Previous',
+  'calendar.next': 'Next',
+  'calendar.today': 'Today',
+  'calendar.newEvent': 'New event',
+  'calendar.eventName': 'Event name',
+  'calendar.eventNamePlaceholder': 'Enter event name',
+  'calendar.startTime': 'Start time',
+  'calendar.endTime': 'End time',
+  'calendar.allDay': 'All day',
+  'calendar.start': 'Start',
+  'calendar.end': 'End',
+  'calendar.dropHere': 'Drop here',
+  'calendar.exported.one': 'Exported {count} event to {path}',
+  'calendar.exported.other': 'Exported {count} events to {path}',
+  'calendar.imported': 'Imported: {imported}. Already in the vault: {skipped}.',
+  'calendar.noIcsFiles': 'No .ics files in the vault',
+  'calendar.chooseIcsFile': 'Choose an .ics file to import',
+
+  // Commands
+  'command.undo': 'Undo last change in view',
+  'command.redo': 'Redo last change in view',
+  'command.goToToday': 'Go to today',
+  'command.nextPeriod': 'Go to next period',
+  'command.previousPeriod': 'Go to previous period',
+  'command.calendarMonth': 'Switch calendar to month',
+  'command.calendarWeek': 'Switch calendar to week',
+  'command.calendarDay': 'Switch calendar to day',
+  'command.timelineStep': 'Change Gantt timeline step',
+  'command.timelineStepPlaceholder': 'Timeline step',
+  'command.createItem': 'Create new item in this view',
+  'command.collapseAll': 'Collapse all groups',
+  'command.expandAll': 'Expand all groups',
+  'command.scrollToToday': 'Scroll Gantt to today',
+  'command.exportIcs': 'Export calendar to .ics file',
+  'command.importIcs': 'Import events from .ics file',
+  'command.exportGantt': 'Export Gantt chart',
+  'command.exportGanttPlaceholder': 'Export format',
+  'command.importKanban': 'Import Kanban board into this board',
+  'command.exportKanban': 'Export board as Kanban markdown',
+  'command.showErrorLog': 'Show error log',
+  'command.editProperties': 'Edit properties of the item under the mouse or the selected item',
+  'command.exportViewData': 'Export view data',
+  'command.exportViewDataPlaceholder': 'File format',
+
+  // Settings
+  'settings.newNotes': 'New notes',
+  'settings.folder': 'Folder',
+  'settings.folderDesc': 'Folder where notes created from a view are saved. Leave empty to use the vault root.',
+  'settings.folderPlaceholder': 'Example: projects/tasks',
+  'settings.fileName': 'File name',
+  'settings.fileNameDesc': 'Pattern for new note names. Available variables: {{title}}, {{date}}, {{group}}.',
+  'settings.template': 'Template',
+  'settings.templateDesc': 'Note whose content and properties are copied into new notes. Properties set by the view take precedence.',
+  'settings.templatePlaceholder': 'Example: templates/task.md',
+  'settings.dates': 'Dates',
+  'settings.dateFormats': 'Date formats',
+  'settings.dateFormatsDesc': 'Extra formats for reading date properties, one per line, in moment syntax. Example: DD.MM.YYYY or MM/DD/YYYY.',
+  'settings.weekStart': 'First day of the week',
+  'settings.weekStartDesc': 'Used by calendar grids and timelines. Month and day names follow the app language.',
+  'settings.weekStartLocale': 'Language default',
+  'settings.monday': 'Monday',
+  'settings.sunday': 'Sunday',
+  'settings.saturday': 'Saturday',
+  'settings.markDone': 'Mark done',
+  'settings.doneProperty': 'Property',
+  'settings.donePropertyDesc': 'Property that "Mark done" in the context menu sets. Leave empty to hide the item.',
+  'settings.doneValue': 'Value',
+  'settings.doneValueDesc': 'Value written to the property, for example done or true.',
+  'settings.filterBar': 'Filter bar',
+  'settings.filterMe': 'Me',
+  'settings.filterMeDesc': 'Value that "me" stands for in filters such as assignee:me, for example your name or [[link]].',
+};
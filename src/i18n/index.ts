@@ -0,0 +1,76 @@
+import { getLanguage } from 'obsidian';
+import { en } from './en';
+import { ru } from './ru';
+import { de } from './de';
+
+/**
+ * Key of a UI string, as defined by the English catalogue.
+ */
+export type TranslationKey = keyof typeof en;
+
+/** Keys that have plural forms ("skipped.summary" for "skipped.summary.one", ...) */
+type PluralKey = TranslationKey extends infer K
+  ? K extends `${infer Base}.other` ? Base : never
+  : never;
+
+/** A plural form of a key, including forms English doesn't need ("few", "many") */
+type PluralFormKey = `${PluralKey}.${Intl.LDMLPluralRule}`;
+
+/**
+ * A catalogue for one language. Missing keys fall back to English.
+ */
+export type Translations = Partial<Record<TranslationKey | PluralFormKey, string>>;
+
+/** Catalogues keyed by Obsidian language code */
+const CATALOGUES: Record<string, Translations> = { en, ru, de };
+
+/**
+ * Look up a UI string in the app language, falling back to English.
+ * Placeholders like {name} are replaced with the given values;
+ * unknown placeholders are left as they are.
+ *
+ * @param key - String key
+ * @param vars - Values for placeholders
+ * @returns Translated string
+ */
+export function t(key: TranslationKey, vars?: Record<string, string | number>): string {
+  return interpolate(lookup(key) ?? en[key], vars);
+}
+
+/**
+ * Look up a string with plural forms, chosen by the language's plural rules.
+ * The count is available as the {count} placeholder.
+ *
+ * @param key - Key without the plural suffix (e.g. "skipped.summary")
+ * @param count - Number that decides the form
+ * @param vars - Values for other placeholders
+ * @returns Translated string
+ */
+export function tn(key: PluralKey, count: number, vars?: Record<string, string | number>): string {
+  const language = getLanguage();
+  const form = new Intl.PluralRules(language).select(count);
+  const template = lookup(`${key}.${form}`)
+    ?? lookup(`${key}.other`)
+    ?? (en as Translations)[`${key}.${form}`]
+    ?? en[`${key}.other`];
+  return interpolate(template, { count, ...vars });
+}
+
+/**
+ * Find a key in the catalogue of the app language (exact code, then base language).
+ */
+function lookup(key: TranslationKey | PluralFormKey): string | undefined {
+  const language = getLanguage();
+  const catalogue = CATALOGUES[language] ?? CATALOGUES[language.split('-')[0]];
+  return catalogue?.[key];
+}
+
+/**
+ * Replace {name} placeholders with values.
+ */
+function interpolate(template: string, vars?: Record<string, string | number>): string {
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
@@ -0,0 +1,326 @@
+import type { Translations } from './index';
+
+/**
+ * Russian strings.
+ */
+export const ru: Translations = {
+  // Shared
+  'common.cancel': 'Отмена',
+  'common.create': 'Создать',
+  'common.name': 'Название',
+  'common.retry': 'Повторить',
+  'common.untitled': 'Без названия',
+  'common.day': 'День',
+  'common.week': 'Неделя',
+  'common.month': 'Месяц',
+  'common.pluginDefault': 'Как в настройках плагина',
+  'common.selectProperty': 'Выберите свойство',
+  'common.selectPropertyOptional': 'Выберите свойство (необязательно)',
+  'common.selectDateProperty': 'Выберите свойство с датой',
+  'common.selectDatePropertyOptional': 'Выберите свойство с датой (необязательно)',
+  'common.noEntries': 'Нет записей для отображения',
+  'common.value': 'Значение',
+  'common.apply': 'Применить',
+
+  // View names
+  'view.board': 'Доска',
+  'view.gantt': 'Гант',
+  'view.calendar': 'Календарь',
+
+  // View options
+  'options.groupBy': 'Группировать по',
+  'options.dateBuckets': 'Группировать даты по периодам',
+  'options.subGroupBy': 'Подгруппы по',
+  'options.startDate': 'Дата начала',
+  'options.endDate': 'Дата окончания',
+  'options.timelineStep': 'Шаг шкалы',
+  'options.viewMode': 'Режим',
+  'options.newNotes': 'Новые заметки',
+  'options.folder': 'Папка',
+  'options.fileName': 'Имя файла',
+  'options.template': 'Шаблон',
+  'options.icsExportPath': 'Файл экспорта iCalendar',
+  'options.cardOrder': 'Порядок карточек',
+  'options.sortCardsBy': 'Сортировать по',
+  'options.manualOrder': 'Вручную (перетаскиванием)',
+  'options.sortDirection': 'Направление',
+  'options.ascending': 'По возрастанию',
+  'options.descending': 'По убыванию',
+  'options.rankProperty': 'Свойство ручного порядка',
+  'options.strictLimits': 'Соблюдать WIP-лимиты',
+  'options.cardLayout': 'Вид карточек',
+  'options.cardProperties': 'Свойства на карточках',
+  'options.showPropertyNames': 'Показывать названия свойств',
+  'options.colors': 'Цвета',
+  'options.colorBy': 'Цвет по',
+  'options.colorMappings': 'Цвета значений',
+
+  // Base view
+  'view.loading': 'Загрузка данных из баз...',
+  'view.undo': 'Отменено: {label}',
+  'view.redo': 'Повторено: {label}',
+  'view.undoFailed': 'Не удалось отменить последнее изменение',
+  'view.redoFailed': 'Не удалось повторить последнее изменение',
+  'view.readOnly': '«{name}» — свойство типа {source}, его нельзя изменить',
+  'view.exported': 'Данные вида экспортированы в {path}',
+  'propertySource.note': 'заметка',
+  'propertySource.formula': 'формула',
+  'propertySource.file': 'файл',
+
+  // Undo history labels
+  'history.change': 'Изменение {name}',
+  'history.moveCard': 'Перемещение карточки',
+  'history.moveTask': 'Перемещение задачи',
+  'history.resizeTask': 'Изменение длительности задачи',
+  'history.moveEvent': 'Перемещение события',
+  'history.resizeEvent': 'Изменение длительности события',
+  'history.renameGroup': 'Переименование группы «{name}»',
+  'history.importKanban': 'Импорт доски Kanban',
+  'history.setProperty': 'Изменение {name}',
+  'history.shiftDates': 'Сдвиг дат',
+  'history.markDone': 'Отметка о выполнении',
+  'history.reschedule': 'Перенос даты',
+
+  // Errors
+  'error.title': 'Что-то пошло не так',
+  'error.unknown': 'Неизвестная ошибка',
+  'error.reloadView': 'Перезагрузить вид',
+  'error.checkConsole': 'Подробности в консоли разработчика',
+  'error.failed': 'Не удалось {action}',
+  'error.notice': 'Не удалось {action}: {message}',
+  'error.noticeInFile': 'Не удалось {action} в «{file}»: {message}',
+  'errorLog.title': 'Журнал ошибок',
+  'errorLog.empty': 'Ошибок пока нет.',
+  'errorLog.clear': 'Очистить журнал',
+  'action.updateProperty': 'изменить «{name}»',
+  'action.createPage': 'создать заметку',
+  'action.createGroup': 'создать группу',
+  'action.createSubGroup': 'создать подгруппу',
+  'action.createTask': 'создать задачу',
+  'action.createEvent': 'создать событие',
+  'action.renameTask': 'переименовать задачу',
+  'action.exportCalendar': 'экспортировать календарь',
+  'action.importCalendar': 'импортировать календарь',
+  'action.exportGantt': 'экспортировать диаграмму Ганта',
+  'action.importKanban': 'импортировать доску Kanban',
+  'action.exportKanban': 'экспортировать доску Kanban',
+  'action.exportViewData': 'экспортировать данные вида',
+  'action.moveNote': 'переместить заметку',
+  'action.deleteNote': 'удалить заметку',
+  'action.renameNote': 'переименовать заметку',
+  'action.duplicateNote': 'создать копию заметки',
+  'action.copyLink': 'скопировать ссылку',
+
+  // Dates that couldn't be read
+  'skipped.summary.one': 'Пропущена {count} заметка: не удалось прочитать даты',
+  'skipped.summary.few': 'Пропущено {count} заметки: не удалось прочитать даты',
+  'skipped.summary.many': 'Пропущено {count} заметок: не удалось прочитать даты',
+  'skipped.summary.other': 'Пропущено заметок: {count}. Не удалось прочитать даты',
+  'date.empty': 'Нет даты',
+  'date.invalid': 'Некорректная дата',
+  'date.invalidTimestamp': 'Некорректная метка времени {value}',
+  'date.unreadable': 'Не удалось прочитать «{value}» как дату',
+  'date.list': 'Ожидалась одна дата, а получен список из {count}',
+  'date.unsupported': 'Неподдерживаемое значение даты ({type})',
+
+  // Selection
+  'selection.count.one': 'Выбрана {count}',
+  'selection.count.few': 'Выбрано {count}',
+  'selection.count.many': 'Выбрано {count}',
+  'selection.count.other': 'Выбрано: {count}',
+  'selection.setProperty': 'Задать свойство',
+  'selection.shiftDates': 'Сдвинуть даты',
+  'selection.moveToFolder': 'Переместить в папку',
+  'selection.delete': 'Удалить',
+  'selection.clear': 'Снять выделение',
+  'selection.chooseProperty': 'Выберите свойство',
+  'selection.setPropertyTitle': 'Задать «{name}»',
+  'selection.shiftDatesTitle': 'Сдвинуть даты',
+  'selection.days': 'Дней',
+  'selection.daysPlaceholder': 'Например, 7 или -3',
+  'selection.invalidDays': '«{value}» — не целое число дней',
+  'selection.chooseFolder': 'Выберите папку',
+  'selection.deleteTitle': 'Удаление заметок',
+  'selection.deleteMessage.one': 'Переместить {count} заметку в корзину?',
+  'selection.deleteMessage.few': 'Переместить {count} заметки в корзину?',
+  'selection.deleteMessage.many': 'Переместить {count} заметок в корзину?',
+  'selection.deleteMessage.other': 'Переместить заметки в корзину ({count})?',
+
+  // Context menu
+  'menu.openInNewTab': 'Открыть в новой вкладке',
+  'menu.openToTheRight': 'Открыть справа',
+  'menu.rename': 'Переименовать',
+  'menu.renameTitle': 'Переименовать заметку',
+  'menu.duplicate': 'Создать копию',
+  'menu.duplicated': 'Создана заметка «{name}»',
+  'menu.copyLink': 'Копировать ссылку',
+  'menu.editProperties': 'Изменить свойства',
+  'menu.linkCopied': 'Ссылка скопирована в буфер обмена',
+  'menu.setGroup': 'Задать {name}…',
+  'menu.setGroupTitle': 'Задать {name}',
+  'menu.chooseValue': 'Выберите значение {name}',
+  'menu.newValue': 'Новое значение…',
+  'menu.markDone': 'Отметить выполненным',
+  'menu.rescheduleToday': 'Перенести на сегодня',
+  'menu.rescheduleTomorrow': 'Перенести на завтра',
+  'menu.rescheduleNextWeek': 'Перенести на следующую неделю',
+  'menu.delete': 'Удалить',
+  'menu.deleteTitle': 'Удалить заметку',
+  'menu.deleteMessage': 'Переместить «{name}» в корзину?',
+  'menu.renameGroup': 'Переименовать группу',
+  'menu.collapseGroup': 'Свернуть группу',
+  'menu.expandGroup': 'Развернуть группу',
+  'menu.selectGroup': 'Выделить всю группу',
+  'menu.newPage': 'Новая страница',
+  'menu.setLimit': 'Задать WIP-лимит…',
+  'menu.removeLimit': 'Убрать WIP-лимит',
+
+  // Property popover
+  'properties.empty': 'Нет свойств',
+  'properties.addItem': 'Добавить элемент',
+  'properties.removeItem': 'Удалить «{item}»',
+  'properties.openLink': 'Открыть связанную заметку',
+
+  // Filter bar
+  'filter.label': 'Фильтр заметок',
+  'filter.placeholder': 'Фильтр: текст, ключ:значение, this week, overdue…',
+  'filter.clear': 'Сбросить фильтр',
+  'filter.removeChip': 'Убрать «{chip}»',
+
+  // Board
+  'board.newPage': '+ Новая заметка',
+  'board.newGroup': '+ Новая группа',
+  'board.newSubGroup': '+ Новая подгруппа',
+  'board.newGroupTitle': 'Новая группа',
+  'board.newSubGroupTitle': 'Новая подгруппа',
+  'board.groupNamePlaceholder': 'Введите название группы',
+  'board.subGroupNamePlaceholder': 'Введите название подгруппы',
+  'board.renameGroupTitle': 'Переименовать группу',
+  'board.limitTitle': 'WIP-лимит «{column}»',
+  'board.limitLabel': 'Максимум карточек в колонке',
+  'board.limitPerRowLabel': 'Максимум карточек в колонке на строку',
+  'board.limitPerRow': '≤ {limit} на строку',
+  'board.invalidLimit': 'Лимит должен быть целым числом больше 0',
+  'board.limitReached': 'Колонка «{column}» достигла WIP-лимита ({limit})',
+  'board.bucket.overdue': 'Просрочено',
+  'board.bucket.today': 'Сегодня',
+  'board.bucket.tomorrow': 'Завтра',
+  'board.bucket.thisWeek': 'На этой неделе',
+  'board.bucket.later': 'Позже',
+  'board.bucket.noDate': 'Без даты',
+  'board.kanbanImported': 'Перемещено заметок: {moved}. Создано заметок: {created}.',
+  'board.kanbanExported': 'Экспортировано колонок: {count}',
+  'board.kanbanExportTitle': 'Доска {date}',
+  'board.kanbanNewNote': 'Новая заметка',
+  'board.noKanbanFiles': 'В хранилище нет досок Kanban',
+  'board.chooseKanbanFile': 'Выберите доску Kanban для импорта',
+  'board.chooseKanbanTarget': 'Экспорт в новую заметку или поверх доски Kanban',
+
+  // Card properties
+  'card.today': 'Сегодня',
+  'card.tomorrow': 'Завтра',
+  'card.yesterday': 'Вчера',
+  'card.inDays.one': 'Через {count} день',
+  'card.inDays.few': 'Через {count} дня',
+  'card.inDays.many': 'Через {count} дней',
+  'card.inDays.other': 'Через {count} дня',
+  'card.daysAgo.one': '{count} день назад',
+  'card.daysAgo.few': '{count} дня назад',
+  'card.daysAgo.many': '{count} дней назад',
+  'card.daysAgo.other': '{count} дня назад',
+  'card.checked': 'Отмечено',
+  'card.unchecked': 'Не отмечено',
+
+  // Gantt
+  'gantt.taskColumn': 'Задача',
+  'gantt.noTasks': 'Нет задач',
+  'gantt.emptyTitle': 'Не найдено задач с корректными датами',
+  'gantt.emptyHint': 'Нажмите на диаграмму, чтобы создать первую задачу, или добавьте свойства {start} и {end} существующим заметкам.',
+  'gantt.newTask': 'Новая задача',
+  'gantt.taskName': 'Название задачи',
+  'gantt.taskNamePlaceholder': 'Введите название задачи',
+  'gantt.startDate': 'Дата начала',
+  'gantt.endDate': 'Дата окончания',
+  'gantt.todayOutside': 'Сегодняшняя дата вне шкалы времени',
+  'gantt.exportTitle': 'Диаграмма Ганта {date}',
+  'gantt.exportCopied': 'Диаграмма Ганта скопирована в буфер обмена',
+  'gantt.exportMermaidClipboard': 'Mermaid: скопировать в буфер обмена',
+  'gantt.exportMermaidNote': 'Mermaid: новая заметка',
+  'gantt.exportSvgClipboard': 'SVG: скопировать в буфер обмена',
+  'gantt.exportSvgFile': 'SVG: новый файл',
+
+  // Calendar
+  'calendar.previous': 'Назад',
+  'calendar.next': 'Вперёд',
+  'calendar.today': 'Сегодня',
+  'calendar.newEvent': 'Новое событие',
+  'calendar.eventName': 'Название события',
+  'calendar.eventNamePlaceholder': 'Введите название события',
+  'calendar.startTime': 'Время начала',
+  'calendar.endTime': 'Время окончания',
+  'calendar.allDay': 'Весь день',
+  'calendar.start': 'Начало',
+  'calendar.end': 'Конец',
+  'calendar.dropHere': 'Перетащите сюда',
+  'calendar.exported.one': 'Экспортировано {count} событие в {path}',
+  'calendar.exported.few': 'Экспортировано {count} события в {path}',
+  'calendar.exported.many': 'Экспортировано {count} событий в {path}',
+  'calendar.exported.other': 'Экспортировано событий: {count}. Файл: {path}',
+  'calendar.imported': 'Импортировано: {imported}. Уже есть в хранилище: {skipped}.',
+  'calendar.noIcsFiles': 'В хранилище нет файлов .ics',
+  'calendar.chooseIcsFile': 'Выберите файл .ics для импорта',
+
+  // Commands
+  'command.undo': 'Отменить последнее изменение в виде',
+  'command.redo': 'Повторить последнее изменение в виде',
+  'command.goToToday': 'Перейти к сегодняшнему дню',
+  'command.nextPeriod': 'Следующий период',
+  'command.previousPeriod': 'Предыдущий период',
+  'command.calendarMonth': 'Календарь: месяц',
+  'command.calendarWeek': 'Календарь: неделя',
+  'command.calendarDay': 'Календарь: день',
+  'command.timelineStep': 'Изменить шаг шкалы диаграммы Ганта',
+  'command.timelineStepPlaceholder': 'Шаг шкалы',
+  'command.createItem': 'Создать элемент в этом виде',
+  'command.collapseAll': 'Свернуть все группы',
+  'command.expandAll': 'Развернуть все группы',
+  'command.scrollToToday': 'Прокрутить диаграмму Ганта к сегодняшнему дню',
+  'command.exportIcs': 'Экспортировать календарь в файл .ics',
+  'command.importIcs': 'Импортировать события из файла .ics',
+  'command.exportGantt': 'Экспортировать диаграмму Ганта',
+  'command.exportGanttPlaceholder': 'Формат экспорта',
+  'command.importKanban': 'Импортировать доску Kanban в эту доску',
+  'command.exportKanban': 'Экспортировать доску в формате Kanban',
+  'command.showErrorLog': 'Показать журнал ошибок',
+  'command.editProperties': 'Изменить свойства элемента под указателем или выделенного элемента',
+  'command.exportViewData': 'Экспортировать данные вида',
+  'command.exportViewDataPlaceholder': 'Формат файла',
+
+  // Settings
+  'settings.newNotes': 'Новые заметки',
+  'settings.folder': 'Папка',
+  'settings.folderDesc': 'Папка для заметок, созданных из вида. Оставьте пустой, чтобы использовать корень хранилища.',
+  'settings.folderPlaceholder': 'Например: projects/tasks',
+  'settings.fileName': 'Имя файла',
+  'settings.fileNameDesc': 'Шаблон имени новых заметок. Доступные переменные: {{title}}, {{date}}, {{group}}.',
+  'settings.template': 'Шаблон',
+  'settings.templateDesc': 'Заметка, содержимое и свойства которой копируются в новые заметки. Свойства, заданные видом, имеют приоритет.',
+  'settings.templatePlaceholder': 'Например: templates/task.md',
+  'settings.dates': 'Даты',
+  'settings.dateFormats': 'Форматы дат',
+  'settings.dateFormatsDesc': 'Дополнительные форматы для чтения дат, по одному на строку, в синтаксисе moment. Например: DD.MM.YYYY или MM/DD/YYYY.',
+  'settings.weekStart': 'Первый день недели',
+  'settings.weekStartDesc': 'Используется в сетках календаря и на шкалах времени. Названия месяцев и дней следуют языку приложения.',
+  'settings.weekStartLocale': 'Как в языке приложения',
+  'settings.monday': 'Понедельник',
+  'settings.sunday': 'Воскресенье',
+  'settings.saturday': 'Суббота',
+  'settings.markDone': 'Отметка о выполнении',
+  'settings.doneProperty': 'Свойство',
+  'settings.donePropertyDesc': 'Свойство, которое задаёт пункт «Отметить выполненным» контекстного меню. Оставьте пустым, чтобы скрыть пункт.',
+  'settings.doneValue': 'Значение',
+  'settings.doneValueDesc': 'Значение, записываемое в свойство, например done или true.',
+  'settings.filterBar': 'Панель фильтра',
+  'settings.filterMe': 'Я',
+  'settings.filterMeDesc': 'Значение, которое подставляется вместо «me» в фильтрах вида assignee:me, например имя или [[ссылка]].',
+};
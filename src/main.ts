@@ -1,11 +1,22 @@
 import { Plugin } from "obsidian";
 import "./styles/main.css";
+import { BasesViewsSettings, BasesViewsSettingTab, DEFAULT_SETTINGS } from "./settings";
 import { BoardBasesView, BoardViewType } from "./views/board/BoardBasesView";
 import { GanttBasesView, GanttViewType } from "./views/gantt/GanttBasesView";
 import {
   CalendarBasesView,
   CalendarViewType,
 } from "./views/calendar/CalendarBasesView";
+import { getActiveView, clearViews, refreshViews } from "./views/base/viewRegistry";
+import { ErrorLogModal } from "./components/shared/ErrorLogModal";
+import { OptionSuggestModal } from "./components/shared/OptionSuggestModal";
+import { ViewCommandHandlers } from "./views/base/viewCommands";
+import { GanttTimelineStep } from "./types/view-config";
+import { GanttExportFormat } from "./views/gantt/utils/ganttExport";
+import { GanttExportTarget } from "./views/gantt/hooks/useGanttExport";
+import { configureDateLocale } from "./utils/dateLocale";
+import { ViewDataFormat } from "./utils/viewDataExport";
+import { t } from "./i18n";
 
 /**
  * Bases Views Plugin
@@ -16,7 +27,12 @@ import {
  * - Calendar (Month/week calendar view)
  */
 export default class BasesCustomViewsPlugin extends Plugin {
-  onload(): void {
+  settings: BasesViewsSettings = DEFAULT_SETTINGS;
+
+  async onload(): Promise<void> {
+    await this.loadSettings();
+    this.addSettingTab(new BasesViewsSettingTab(this.app, this));
+
     // Check if registerBasesView is available (requires Obsidian 1.10.0+)
     if (typeof (this as unknown as { registerBasesView?: unknown }).registerBasesView !== "function") {
       console.error(
@@ -37,10 +53,10 @@ export default class BasesCustomViewsPlugin extends Plugin {
     // Register Board view
     try {
       plugin.registerBasesView(BoardViewType, {
-        name: "Board",
+        name: t("view.board"),
         icon: "lucide-layout-dashboard",
         factory: (controller: unknown, containerEl: HTMLElement) => {
-          return new BoardBasesView(controller, containerEl);
+          return new BoardBasesView(controller, containerEl, this);
         },
         options: BoardBasesView.getViewOptions,
       });
@@ -51,10 +67,10 @@ export default class BasesCustomViewsPlugin extends Plugin {
     // Register Gantt view
     try {
       plugin.registerBasesView(GanttViewType, {
-        name: "Gantt",
+        name: t("view.gantt"),
         icon: "lucide-gantt-chart",
         factory: (controller: unknown, containerEl: HTMLElement) => {
-          return new GanttBasesView(controller, containerEl);
+          return new GanttBasesView(controller, containerEl, this);
         },
         options: GanttBasesView.getViewOptions,
       });
@@ -65,19 +81,178 @@ export default class BasesCustomViewsPlugin extends Plugin {
     // Register Calendar view
     try {
       plugin.registerBasesView(CalendarViewType, {
-        name: "Calendar",
+        name: t("view.calendar"),
         icon: "lucide-calendar",
         factory: (controller: unknown, containerEl: HTMLElement) => {
-          return new CalendarBasesView(controller, containerEl);
+          return new CalendarBasesView(controller, containerEl, this);
         },
         options: CalendarBasesView.getViewOptions,
       });
     } catch (e) {
       console.error("Failed to register Calendar view:", e);
     }
+
+    this.registerCommands();
+  }
+
+  /**
+   * Load settings from data.json, filling in defaults
+   */
+  async loadSettings(): Promise<void> {
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<BasesViewsSettings>);
+    configureDateLocale(this.settings.weekStart);
+  }
+
+  /**
+   * Persist settings to data.json and re-render open views
+   */
+  async saveSettings(): Promise<void> {
+    await this.saveData(this.settings);
+    configureDateLocale(this.settings.weekStart);
+    refreshViews();
+  }
+
+  /**
+   * Register commands that act on the active Board/Gantt/Calendar view
+   * and the shared error log
+   */
+  private registerCommands(): void {
+    this.addCommand({
+      id: "undo-view-change",
+      name: t("command.undo"),
+      checkCallback: (checking: boolean) => {
+        const view = getActiveView();
+        if (!view || !view.canUndo()) return false;
+        if (!checking) {
+          void view.undo();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "redo-view-change",
+      name: t("command.redo"),
+      checkCallback: (checking: boolean) => {
+        const view = getActiveView();
+        if (!view || !view.canRedo()) return false;
+        if (!checking) {
+          void view.redo();
+        }
+        return true;
+      },
+    });
+
+    this.addViewCommand("go-to-today", t("command.goToToday"), "goToToday", (goToToday) => goToToday());
+    this.addViewCommand("next-period", t("command.nextPeriod"), "nextPeriod", (nextPeriod) => nextPeriod());
+    this.addViewCommand("previous-period", t("command.previousPeriod"), "previousPeriod", (previousPeriod) => previousPeriod());
+    this.addViewCommand("calendar-month-view", t("command.calendarMonth"), "setCalendarMode", (setMode) => setMode("month"));
+    this.addViewCommand("calendar-week-view", t("command.calendarWeek"), "setCalendarMode", (setMode) => setMode("week"));
+    this.addViewCommand("calendar-day-view", t("command.calendarDay"), "setCalendarMode", (setMode) => setMode("day"));
+    this.addViewCommand("change-timeline-step", t("command.timelineStep"), "setTimelineStep", (setStep) => {
+      new OptionSuggestModal<GanttTimelineStep>(
+        this.app,
+        [
+          { label: t("common.day"), value: "day" },
+          { label: t("common.week"), value: "week" },
+          { label: t("common.month"), value: "month" },
+        ],
+        setStep,
+        t("command.timelineStepPlaceholder")
+      ).open();
+    });
+    this.addViewCommand("create-item", t("command.createItem"), "createItem", (createItem) => createItem());
+    this.addViewCommand("collapse-all-groups", t("command.collapseAll"), "collapseAllGroups", (collapse) => collapse());
+    this.addViewCommand("expand-all-groups", t("command.expandAll"), "expandAllGroups", (expand) => expand());
+    this.addViewCommand("scroll-to-today", t("command.scrollToToday"), "scrollToToday", (scroll) => scroll());
+    this.addViewCommand("export-ics", t("command.exportIcs"), "exportICalendar", (exportCalendar) => exportCalendar());
+    this.addViewCommand("import-ics", t("command.importIcs"), "importICalendar", (importCalendar) => importCalendar());
+    this.addViewCommand("import-kanban", t("command.importKanban"), "importKanban", (importKanban) => importKanban());
+    this.addViewCommand("export-kanban", t("command.exportKanban"), "exportKanban", (exportKanban) => exportKanban());
+    this.addViewCommand("export-gantt", t("command.exportGantt"), "exportGantt", (exportGantt) => {
+      new OptionSuggestModal<[GanttExportFormat, GanttExportTarget]>(
+        this.app,
+        [
+          { label: t("gantt.exportMermaidClipboard"), value: ["mermaid", "clipboard"] },
+          { label: t("gantt.exportMermaidNote"), value: ["mermaid", "file"] },
+          { label: t("gantt.exportSvgClipboard"), value: ["svg", "clipboard"] },
+          { label: t("gantt.exportSvgFile"), value: ["svg", "file"] },
+        ],
+        ([exportFormat, target]) => exportGantt(exportFormat, target),
+        t("command.exportGanttPlaceholder")
+      ).open();
+    });
+
+    this.addCommand({
+      id: "export-view-data",
+      name: t("command.exportViewData"),
+      checkCallback: (checking: boolean) => {
+        const view = getActiveView();
+        if (!view?.canExportData()) return false;
+        if (!checking) {
+          new OptionSuggestModal<ViewDataFormat>(
+            this.app,
+            [
+              { label: "CSV", value: "csv" },
+              { label: "JSON", value: "json" },
+            ],
+            (dataFormat) => void view.exportData(dataFormat),
+            t("command.exportViewDataPlaceholder")
+          ).open();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "edit-properties",
+      name: t("command.editProperties"),
+      checkCallback: (checking: boolean) => {
+        const view = getActiveView();
+        if (!view?.canEditProperties()) return false;
+        if (!checking) {
+          view.editProperties();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "show-error-log",
+      name: t("command.showErrorLog"),
+      callback: () => {
+        new ErrorLogModal(this.app).open();
+      },
+    });
+  }
+
+  /**
+   * Register a command that runs an action of the active view.
+   * The command is only available when the active view supports the action.
+   */
+  private addViewCommand<K extends keyof ViewCommandHandlers>(
+    id: string,
+    name: string,
+    handlerName: K,
+    run: (handler: NonNullable<ViewCommandHandlers[K]>) => void
+  ): void {
+    this.addCommand({
+      id,
+      name,
+      checkCallback: (checking: boolean) => {
+        const handler = getActiveView()?.commands.get(handlerName);
+        if (!handler) return false;
+        if (!checking) {
+          run(handler);
+        }
+        return true;
+      },
+    });
   }
 
   onunload(): void {
+    clearViews();
+
     // Remove injected styles
     const styleEl = document.getElementById("bases-views-styles");
     if (styleEl) {
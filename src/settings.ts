@@ -0,0 +1,174 @@
+import { App, PluginSettingTab, Setting, normalizePath } from 'obsidian';
+import type BasesCustomViewsPlugin from './main';
+import { FolderSuggest, MarkdownFileSuggest } from './components/shared/PathSuggest';
+import { WeekStart } from './utils/dateLocale';
+import { t } from './i18n';
+
+/**
+ * Plugin-wide settings, stored in the plugin's data.json.
+ * Views can override the note-creation defaults in their own options.
+ */
+export interface BasesViewsSettings {
+  /** Folder for notes created from a view (empty = vault root) */
+  newNoteFolder: string;
+  /** File name pattern, supports {{title}}, {{date}} and {{group}} */
+  newNoteNameTemplate: string;
+  /** Path of a note whose content and frontmatter seed new notes */
+  newNoteTemplatePath: string;
+  /** Extra formats for reading date properties, in moment syntax (e.g. DD.MM.YYYY) */
+  dateFormats: string[];
+  /** First day of the week in calendar grids and the Gantt timeline */
+  weekStart: WeekStart;
+  /** Frontmatter key written by "Mark done" in the context menu */
+  doneProperty: string;
+  /** Value "Mark done" writes to doneProperty */
+  doneValue: string;
+  /** Value `me` stands for in filter bar chips such as `assignee:me` */
+  filterMe: string;
+}
+
+export const DEFAULT_SETTINGS: BasesViewsSettings = {
+  newNoteFolder: '',
+  newNoteNameTemplate: '{{title}}',
+  newNoteTemplatePath: '',
+  dateFormats: [],
+  weekStart: 'monday',
+  doneProperty: 'status',
+  doneValue: 'done',
+  filterMe: '',
+};
+
+/**
+ * Settings tab for the plugin.
+ */
+export class BasesViewsSettingTab extends PluginSettingTab {
+  private plugin: BasesCustomViewsPlugin;
+
+  constructor(app: App, plugin: BasesCustomViewsPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl).setName(t('settings.newNotes')).setHeading();
+
+    new Setting(containerEl)
+      .setName(t('settings.folder'))
+      .setDesc(t('settings.folderDesc'))
+      .addText((text) => {
+        new FolderSuggest(this.app, text.inputEl);
+        text
+          .setPlaceholder(t('settings.folderPlaceholder'))
+          .setValue(this.plugin.settings.newNoteFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.newNoteFolder = value.trim() ? normalizePath(value.trim()) : '';
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('settings.fileName'))
+      .setDesc(t('settings.fileNameDesc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.newNoteNameTemplate)
+          .setValue(this.plugin.settings.newNoteNameTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.newNoteNameTemplate = value.trim() || DEFAULT_SETTINGS.newNoteNameTemplate;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.template'))
+      .setDesc(t('settings.templateDesc'))
+      .addText((text) => {
+        new MarkdownFileSuggest(this.app, text.inputEl);
+        text
+          .setPlaceholder(t('settings.templatePlaceholder'))
+          .setValue(this.plugin.settings.newNoteTemplatePath)
+          .onChange(async (value) => {
+            this.plugin.settings.newNoteTemplatePath = value.trim() ? normalizePath(value.trim()) : '';
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl).setName(t('settings.dates')).setHeading();
+
+    new Setting(containerEl)
+      .setName(t('settings.dateFormats'))
+      .setDesc(t('settings.dateFormatsDesc'))
+      .addTextArea((text) =>
+        text
+          .setValue(this.plugin.settings.dateFormats.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.dateFormats = value
+              .split('\n')
+              .map((line) => line.trim())
+              .filter(Boolean);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.weekStart'))
+      .setDesc(t('settings.weekStartDesc'))
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('locale', t('settings.weekStartLocale'))
+          .addOption('monday', t('settings.monday'))
+          .addOption('sunday', t('settings.sunday'))
+          .addOption('saturday', t('settings.saturday'))
+          .setValue(this.plugin.settings.weekStart)
+          .onChange(async (value) => {
+            this.plugin.settings.weekStart = value as WeekStart;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName(t('settings.markDone')).setHeading();
+
+    new Setting(containerEl)
+      .setName(t('settings.doneProperty'))
+      .setDesc(t('settings.donePropertyDesc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.doneProperty)
+          .setValue(this.plugin.settings.doneProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.doneProperty = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.doneValue'))
+      .setDesc(t('settings.doneValueDesc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.doneValue)
+          .setValue(this.plugin.settings.doneValue)
+          .onChange(async (value) => {
+            this.plugin.settings.doneValue = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName(t('settings.filterBar')).setHeading();
+
+    new Setting(containerEl)
+      .setName(t('settings.filterMe'))
+      .setDesc(t('settings.filterMeDesc'))
+      .addText((text) =>
+        text
+          .setValue(this.plugin.settings.filterMe)
+          .onChange(async (value) => {
+            this.plugin.settings.filterMe = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+}
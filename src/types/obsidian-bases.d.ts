@@ -1,4 +1,4 @@
-import { TFile, Component, App } from 'obsidian';
+import { TFile, Component, App, Menu, TAbstractFile, WorkspaceLeaf } from 'obsidian';
 
 declare module 'obsidian' {
   interface Plugin {
@@ -83,6 +83,7 @@ declare module 'obsidian' {
 
   interface Workspace {
     trigger(name: 'hover-link', data: HoverLinkEvent): void;
+    trigger(name: 'file-menu', menu: Menu, file: TAbstractFile, source: string, leaf?: WorkspaceLeaf): void;
   }
 
   interface HoverLinkEvent {
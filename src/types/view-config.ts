@@ -6,9 +6,17 @@ import { TFile } from 'obsidian';
 export interface BasesEntry {
   id: string;
   file: TFile;
+  /** Frontmatter properties keyed by name */
   properties: Record<string, unknown>;
+  /** Formula and file property values keyed by property id (e.g. "formula.due") */
+  values: Record<string, unknown>;
 }
 
+/**
+ * Sort direction of Board cards sorted by a property
+ */
+export type CardSortDirection = 'asc' | 'desc';
+
 /**
  * Configuration options for Board view
  */
@@ -18,6 +26,23 @@ export interface BoardViewOptions {
   collapsedRows?: string[]; // Rows that should be collapsed by default
   showNewPageButtons?: boolean; // Show/hide "+ New page" buttons
   columnOrder?: string[]; // Persisted column order for drag-and-drop reordering
+  cardSortProperty?: string; // Property id cards are sorted by ('' = manual order)
+  cardSortDirection?: CardSortDirection; // Direction of cardSortProperty (default: 'asc')
+  rankProperty?: string; // Frontmatter key storing the manual card order (default: 'rank')
+  columnLimits?: Record<string, number>; // Work-in-progress limits by column (per cell when sub-grouped)
+  strictLimits?: boolean; // Refuse drops that would exceed a limit
+  cardProperties?: string[]; // Property ids shown on cards, in order (empty = tag-like values)
+  showPropertyNames?: boolean; // Label each property shown on cards
+  dateBuckets?: boolean; // Columns are relative date periods of groupByProperty (Overdue, Today, ...)
+  dateFormats?: string[]; // Extra date formats from plugin settings (moment syntax)
+}
+
+/**
+ * Properties a Board card displays and how
+ */
+export interface CardLayout {
+  properties: string[]; // Property ids in display order
+  showNames: boolean; // Prefix each value with its property name
 }
 
 /**
@@ -34,6 +59,7 @@ export interface GanttViewOptions {
   groupByProperty?: string;
   collapsedGroups?: string[]; // Persisted collapsed group names
   timelineStep?: GanttTimelineStep; // Timeline granularity (default: 'day')
+  dateFormats?: string[]; // Extra date formats from plugin settings (moment syntax)
 }
 
 /**
@@ -43,6 +69,8 @@ export interface CalendarViewOptions {
   dateProperty: string;
   endDateProperty?: string; // Optional end date for multi-day events
   viewMode: 'month' | 'week' | 'day';
+  dateFormats?: string[]; // Extra date formats from plugin settings (moment syntax)
+  icsExportPath?: string; // Vault path of the exported .ics file
 }
 
 /**
@@ -58,6 +86,15 @@ export interface Task {
   endDateProperty: string;
   row: number;
   group?: string;
+  colorValue?: string; // Value of the view's color property
+}
+
+/**
+ * Note left out of a view because its dates couldn't be parsed
+ */
+export interface SkippedEntry {
+  file: TFile;
+  reason: string;
 }
 
 /**
@@ -80,4 +117,5 @@ export interface CalendarEvent {
   title: string;
   date: Date;
   endDate?: Date; // Optional end date for multi-day events
+  colorValue?: string; // Value of the view's color property
 }
@@ -1,15 +1,32 @@
-import { BasesQueryResult, BasesEntry as ObsidianBasesEntry, App } from 'obsidian';
+import {
+  BasesQueryResult,
+  BasesEntry as ObsidianBasesEntry,
+  App,
+  Value,
+  NullValue,
+  ListValue,
+  DateValue,
+  NumberValue,
+  BooleanValue,
+} from 'obsidian';
 import { BasesEntry } from '../types/view-config';
+import { parsePropertyId } from './propertyId';
 
 /**
  * Transform BasesQueryResult from Obsidian API to our internal format.
- * Extracts all properties from YAML frontmatter.
+ * Extracts all properties from YAML frontmatter and evaluates the
+ * requested formula/file properties through Bases.
  *
  * @param result - Data from Bases API
  * @param app - Obsidian app instance
+ * @param propertyIds - Property ids the view reads (e.g. "formula.due", "file.ctime")
  * @returns Array of transformed entries
  */
-export function adaptBasesData(result: BasesQueryResult | null | undefined, app: App): BasesEntry[] {
+export function adaptBasesData(
+  result: BasesQueryResult | null | undefined,
+  app: App,
+  propertyIds: string[] = []
+): BasesEntry[] {
   const entries: BasesEntry[] = [];
 
   // Check if result exists and has data
@@ -17,14 +34,23 @@ export function adaptBasesData(result: BasesQueryResult | null | undefined, app:
     return entries;
   }
 
+  // Note properties are read from frontmatter, everything else is evaluated by Bases
+  const evaluatedIds = propertyIds.filter((id) => id && parsePropertyId(id).source !== 'note');
+
   // Iterate through all entries in the result
   result.data.forEach((obsidianEntry: ObsidianBasesEntry) => {
     const properties = extractAllProperties(obsidianEntry, app);
 
+    const values: Record<string, unknown> = {};
+    evaluatedIds.forEach((id) => {
+      values[id] = getPropertyValue(obsidianEntry, id);
+    });
+
     entries.push({
       id: obsidianEntry.file.path,
       file: obsidianEntry.file,
       properties,
+      values,
     });
   });
 
@@ -67,9 +93,51 @@ function extractAllProperties(entry: ObsidianBasesEntry, app: App): Record<strin
  * Uses entry.getValue() method for evaluated results.
  *
  * @param entry - Obsidian Bases entry
- * @param propertyName - Name of the property
- * @returns Property value (can be any type)
+ * @param propertyId - Full property id (e.g. "formula.due")
+ * @returns Property value converted to a plain JS value
  */
-export function getPropertyValue(entry: ObsidianBasesEntry, propertyName: string): unknown {
-  return entry.getValue(propertyName);
+export function getPropertyValue(entry: ObsidianBasesEntry, propertyId: string): unknown {
+  return valueToPlain(entry.getValue(propertyId) as Value | null);
+}
+
+/**
+ * Read a property of an adapted entry by its full id.
+ * Note properties come from frontmatter, formula/file properties from Bases.
+ *
+ * @param entry - Adapted entry
+ * @param propertyId - Full property id (e.g. "note.status", "file.mtime")
+ * @returns Property value or undefined
+ */
+export function getEntryValue(entry: BasesEntry, propertyId: string): unknown {
+  const { source, name } = parsePropertyId(propertyId);
+  return source === 'note' ? entry.properties[name] : entry.values[propertyId];
+}
+
+/**
+ * Convert a Bases Value to a plain JS value so helpers can treat it like frontmatter.
+ * Dates become Date objects, lists become arrays, everything else a string/number/boolean.
+ */
+function valueToPlain(value: Value | null): unknown {
+  if (!value || value instanceof NullValue) {
+    return null;
+  }
+  if (value instanceof ListValue) {
+    const items: unknown[] = [];
+    for (let i = 0; i < value.length(); i++) {
+      items.push(valueToPlain(value.get(i)));
+    }
+    return items;
+  }
+  if (value instanceof DateValue) {
+    // DateValue keeps the wrapped Date internally; fall back to its string form
+    const date = (value as unknown as { date?: unknown }).date;
+    return date instanceof Date ? date : value.toString();
+  }
+  if (value instanceof NumberValue) {
+    return Number(value.toString());
+  }
+  if (value instanceof BooleanValue) {
+    return value.isTruthy();
+  }
+  return value.toString();
 }
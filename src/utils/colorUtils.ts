@@ -0,0 +1,200 @@
+import { BasesEntry } from '../types/view-config';
+import { getEntryValue } from './basesDataAdapter';
+
+/**
+ * Color utilities shared by all views - Notion-style.
+ * Values get the color mapped to them in the view options, or a consistent
+ * color based on their hash. Optimized for dark theme with vibrant, saturated colors.
+ */
+
+export interface BadgeColors {
+  background: string;
+  text: string;
+  border: string;
+}
+
+/**
+ * "Color by" settings of a view.
+ */
+export interface ColorRules {
+  /** Id of the property whose value colors task bars and events ('' = accent color) */
+  property: string;
+  /** Explicit colors keyed by lowercase value (color names or #hex) */
+  mappings: Record<string, string>;
+}
+
+/**
+ * Simple string hash function (djb2 algorithm).
+ */
+function hashString(str: string): number {
+  let hash = 5381;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) + hash) ^ str.charCodeAt(i);
+  }
+  return hash >>> 0; // Convert to unsigned 32-bit integer
+}
+
+/**
+ * Notion-style color palette for badges.
+ * These are the primary Notion colors, optimized for dark theme.
+ */
+const NOTION_COLORS: BadgeColors[] = [
+  // Red/Pink
+  { background: 'rgba(255, 115, 105, 0.5)', text: '#ff7369', border: 'rgba(255, 115, 105, 0.3)' },
+  // Orange
+  { background: 'rgba(255, 163, 68, 0.5)', text: '#ffa344', border: 'rgba(255, 163, 68, 0.3)' },
+  // Yellow
+  { background: 'rgba(255, 220, 73, 0.5)', text: '#ffdc49', border: 'rgba(255, 220, 73, 0.3)' },
+  // Green
+  { background: 'rgba(77, 171, 154, 0.5)', text: '#4dab9a', border: 'rgba(77, 171, 154, 0.3)' },
+  // Blue
+  { background: 'rgba(82, 156, 202, 0.5)', text: '#529cca', border: 'rgba(82, 156, 202, 0.3)' },
+  // Purple
+  { background: 'rgba(154, 109, 215, 0.5)', text: '#9a6dd7', border: 'rgba(154, 109, 215, 0.3)' },
+  // Pink
+  { background: 'rgba(226, 85, 161, 0.5)', text: '#e255a1', border: 'rgba(226, 85, 161, 0.3)' },
+  // Brown
+  { background: 'rgba(147, 114, 100, 0.5)', text: '#937264', border: 'rgba(147, 114, 100, 0.3)' },
+  // Teal
+  { background: 'rgba(68, 131, 170, 0.5)', text: '#4483aa', border: 'rgba(68, 131, 170, 0.3)' },
+  // Coral
+  { background: 'rgba(255, 134, 111, 0.5)', text: '#ff866f', border: 'rgba(255, 134, 111, 0.3)' },
+  // Lime
+  { background: 'rgba(133, 211, 108, 0.5)', text: '#85d36c', border: 'rgba(133, 211, 108, 0.3)' },
+  // Violet
+  { background: 'rgba(130, 80, 223, 0.5)', text: '#8250df', border: 'rgba(130, 80, 223, 0.3)' },
+];
+
+/**
+ * Generate consistent colors from a string value using Notion palette.
+ * Same value always produces same color.
+ */
+export function generateColorFromValue(value: string): BadgeColors {
+  const hash = hashString(value);
+  const colorIndex = hash % NOTION_COLORS.length;
+  return NOTION_COLORS[colorIndex];
+}
+
+/**
+ * Predefined colors for common status values.
+ * These match typical Notion-style colors.
+ */
+const PREDEFINED_COLORS: Record<string, BadgeColors> = {
+  'No Status': {
+    background: 'rgba(128, 128, 128, 0.3)',
+    text: 'var(--text-muted)',
+    border: 'rgba(128, 128, 128, 0.2)',
+  },
+  'Uncategorized': {
+    background: 'rgba(128, 128, 128, 0.3)',
+    text: 'var(--text-muted)',
+    border: 'rgba(128, 128, 128, 0.2)',
+  },
+  'No Category': {
+    background: 'rgba(128, 128, 128, 0.3)',
+    text: 'var(--text-muted)',
+    border: 'rgba(128, 128, 128, 0.2)',
+  },
+};
+
+/**
+ * Names accepted in color mappings, matching the palette above.
+ */
+const NAMED_COLORS: Record<string, string> = {
+  red: '#ff7369',
+  orange: '#ffa344',
+  yellow: '#ffdc49',
+  green: '#4dab9a',
+  blue: '#529cca',
+  purple: '#9a6dd7',
+  pink: '#e255a1',
+  brown: '#937264',
+  teal: '#4483aa',
+  gray: '#9b9a97',
+  grey: '#9b9a97',
+};
+
+/**
+ * Build badge colors from a color name or #rgb/#rrggbb value.
+ * Returns null for anything else.
+ */
+function parseColor(color: string): BadgeColors | null {
+  const hex = NAMED_COLORS[color.toLowerCase()] ?? color;
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex);
+  if (!match) return null;
+
+  const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  const [r, g, b] = [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16));
+  return {
+    background: `rgba(${r}, ${g}, ${b}, 0.5)`,
+    text: hex,
+    border: `rgba(${r}, ${g}, ${b}, 0.3)`,
+  };
+}
+
+/**
+ * Parse the "Color mappings" view option.
+ * Entries are separated by commas or new lines: `High: red, Low: #4dab9a`.
+ * Entries without a known color are ignored.
+ *
+ * @param text - Option value
+ * @returns Colors keyed by lowercase value
+ */
+export function parseColorMappings(text: string): Record<string, string> {
+  const mappings: Record<string, string> = {};
+  text.split(/[,\n]/).forEach((part) => {
+    const separator = part.lastIndexOf(':');
+    if (separator <= 0) return;
+    const value = part.slice(0, separator).trim().toLowerCase();
+    const color = part.slice(separator + 1).trim();
+    if (value && parseColor(color)) {
+      mappings[value] = color;
+    }
+  });
+  return mappings;
+}
+
+/**
+ * Get color for a value: explicit mapping first, then predefined colors, then the hash.
+ *
+ * @param value - Property or group value
+ * @param rules - Color rules of the view (optional)
+ */
+export function getColorForValue(value: string, rules?: ColorRules | null): BadgeColors {
+  // Check for colors mapped in the view options
+  const mapped = rules?.mappings[value.toLowerCase()];
+  if (mapped) {
+    return parseColor(mapped) ?? generateColorFromValue(value);
+  }
+
+  // Check for predefined colors
+  if (PREDEFINED_COLORS[value]) {
+    return PREDEFINED_COLORS[value];
+  }
+
+  // Generate color from value hash
+  return generateColorFromValue(value);
+}
+
+/**
+ * Read the value an entry is colored by (first item of a list).
+ *
+ * @param entry - Adapted entry
+ * @param propertyId - Color property id, '' when coloring is off
+ * @returns Value as text, or undefined when the entry has none
+ */
+export function getColorValue(entry: BasesEntry, propertyId: string): string | undefined {
+  if (!propertyId) return undefined;
+  const raw = getEntryValue(entry, propertyId);
+  const value: unknown = Array.isArray(raw) ? raw[0] : raw;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+/**
+ * Get contrasting text color based on background lightness.
+ */
+export function getContrastingTextColor(bgLightness: number): string {
+  return bgLightness > 60 ? 'hsl(0, 0%, 20%)' : 'hsl(0, 0%, 95%)';
+}
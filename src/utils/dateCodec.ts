@@ -0,0 +1,154 @@
+import { App } from 'obsidian';
+import { format, parse, isValid } from 'date-fns';
+
+/**
+ * Obsidian property types relevant for date serialization.
+ */
+export type DatePropertyType = 'date' | 'datetime';
+
+/** Format Obsidian uses for "date" properties */
+export const DATE_FORMAT = 'yyyy-MM-dd';
+
+/** Format Obsidian uses for "date & time" properties */
+export const DATETIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+/** ISO-like date or datetime, optionally with seconds, milliseconds and offset */
+const ISO_DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}(?:([T ])\d{2}:\d{2}(:\d{2}(\.\d{3})?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Non-ISO patterns recognized in existing values.
+ * Order matters for ambiguous values (e.g. 01/02/2024): the first match wins.
+ */
+export const CUSTOM_DATE_PATTERNS = [
+  'dd.MM.yyyy',
+  'dd.MM.yyyy HH:mm',
+  'MM/dd/yyyy',
+  'MM/dd/yyyy HH:mm',
+  'dd/MM/yyyy',
+  'dd/MM/yyyy HH:mm',
+  'yyyy/MM/dd',
+  'yyyy/MM/dd HH:mm',
+  'd MMMM yyyy',
+  'MMMM d, yyyy',
+];
+
+/**
+ * Options for encoding a date into a frontmatter value.
+ */
+export interface DateEncodeOptions {
+  /** Value the property held before the write; its shape is preserved */
+  previousValue?: unknown;
+  /** Obsidian property type, used when there's no previous value to copy */
+  propertyType?: DatePropertyType | null;
+}
+
+/**
+ * Detect the date-fns pattern of an existing date string.
+ * Recognizes dates, datetimes (with 'T' or space, optional seconds,
+ * milliseconds and UTC offset) and the custom patterns above.
+ *
+ * @param value - Existing property value
+ * @returns date-fns pattern, or null if the value isn't a recognizable date
+ */
+export function detectDateFormat(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+
+  const match = ISO_DATETIME_REGEX.exec(trimmed);
+  if (match) {
+    const [, separator, seconds, milliseconds, offset] = match;
+    if (!separator) return DATE_FORMAT;
+
+    let pattern = separator === 'T' ? "yyyy-MM-dd'T'HH:mm" : 'yyyy-MM-dd HH:mm';
+    if (seconds) pattern += ':ss';
+    if (milliseconds) pattern += '.SSS';
+    if (offset) pattern += offset === 'Z' || offset.includes(':') ? 'XXX' : 'xx';
+    return pattern;
+  }
+
+  const referenceDate = new Date();
+  for (const pattern of CUSTOM_DATE_PATTERNS) {
+    const parsed = parse(trimmed, pattern, referenceDate);
+    if (isValid(parsed) && format(parsed, pattern) === trimmed) {
+      return pattern;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Serialize a date for frontmatter in local time.
+ * Keeps the shape of the previous value (date, datetime, datetime with offset,
+ * custom pattern or timestamp) as long as it agrees with the Obsidian property type.
+ * Otherwise follows the property type, and finally falls back to a date,
+ * or a datetime if the time isn't midnight.
+ *
+ * @param date - Date to write
+ * @param options - Previous value and property type
+ * @returns Value to store in frontmatter
+ */
+export function encodeDate(date: Date, options: DateEncodeOptions = {}): string | number {
+  const { previousValue, propertyType } = options;
+
+  // Numeric timestamps stay numeric
+  if (typeof previousValue === 'number') {
+    return date.getTime();
+  }
+
+  // Reuse the previous shape unless it contradicts the property type
+  const previousFormat = detectDateFormat(previousValue);
+  if (previousFormat && (!propertyType || getFormatType(previousFormat) === propertyType)) {
+    return format(date, previousFormat);
+  }
+
+  if (propertyType === 'date') {
+    return format(date, DATE_FORMAT);
+  }
+  if (propertyType === 'datetime') {
+    return format(date, DATETIME_FORMAT);
+  }
+
+  const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+  return format(date, hasTime ? DATETIME_FORMAT : DATE_FORMAT);
+}
+
+/**
+ * Whether a date-fns pattern describes a date or a datetime.
+ */
+function getFormatType(pattern: string): DatePropertyType {
+  return pattern.includes('HH') ? 'datetime' : 'date';
+}
+
+/**
+ * Get the type Obsidian assigned to a property in the vault ("text", "date", "multitext", ...).
+ * Uses the internal metadataTypeManager, which isn't part of the public API.
+ *
+ * @param app - Obsidian app instance
+ * @param propertyName - Frontmatter key
+ * @returns Type name, or null if the property has no known type
+ */
+export function getAssignedPropertyType(app: App, propertyName: string): string | null {
+  const typeManager = (app as unknown as {
+    metadataTypeManager?: {
+      getAssignedType?: (name: string) => string | null | undefined;
+      properties?: Record<string, { type?: string } | undefined>;
+    };
+  }).metadataTypeManager;
+
+  return typeManager?.getAssignedType?.(propertyName)
+    ?? typeManager?.properties?.[propertyName.toLowerCase()]?.type
+    ?? null;
+}
+
+/**
+ * Get the date type Obsidian assigned to a property in the vault.
+ *
+ * @param app - Obsidian app instance
+ * @param propertyName - Frontmatter key
+ * @returns 'date', 'datetime', or null for other or unknown types
+ */
+export function getDatePropertyType(app: App, propertyName: string): DatePropertyType | null {
+  const type = getAssignedPropertyType(app, propertyName);
+  return type === 'date' || type === 'datetime' ? type : null;
+}
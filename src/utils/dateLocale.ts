@@ -0,0 +1,62 @@
+import { getLanguage } from 'obsidian';
+import { format, Day, Locale } from 'date-fns';
+import {
+  ar, be, ca, cs, da, de, el, enUS, es, faIR, fi, fr, he, hu, id, it, ja, ko,
+  nb, nl, pl, pt, ptBR, ro, ru, sk, sv, th, tr, uk, vi, zhCN, zhTW,
+} from 'date-fns/locale';
+
+/**
+ * First day of the week: follow the app language, or a fixed weekday.
+ */
+export type WeekStart = 'locale' | 'monday' | 'sunday' | 'saturday';
+
+/** date-fns locales keyed by Obsidian language code */
+const LOCALES: Record<string, Locale> = {
+  ar, be, ca, cs, da, de, el, en: enUS, es, fa: faIR, fi, fr, he, hu, id, it, ja, ko,
+  no: nb, nl, pl, pt, 'pt-BR': ptBR, ro, ru, sk, sv, th, tr, uk, vi, zh: zhCN, 'zh-TW': zhTW,
+};
+
+const WEEK_START_DAYS: Record<Exclude<WeekStart, 'locale'>, Day> = {
+  monday: 1,
+  sunday: 0,
+  saturday: 6,
+};
+
+/**
+ * Locale and week start shared by all views.
+ * Set from the app language and plugin settings by configureDateLocale().
+ */
+let currentLocale: Locale = enUS;
+let currentWeekStartsOn: Day = 1;
+
+/**
+ * Pick the date-fns locale for Obsidian's language and apply the week-start setting.
+ * Called on load and whenever settings are saved; open views re-render afterwards.
+ *
+ * @param weekStart - Week start from plugin settings
+ */
+export function configureDateLocale(weekStart: WeekStart): void {
+  const language = getLanguage();
+  currentLocale = LOCALES[language] ?? LOCALES[language.split('-')[0]] ?? enUS;
+  currentWeekStartsOn = weekStart === 'locale'
+    ? currentLocale.options?.weekStartsOn ?? 1
+    : WEEK_START_DAYS[weekStart];
+}
+
+/**
+ * Options for date-fns week functions (startOfWeek, eachWeekOfInterval, ...).
+ */
+export function getWeekOptions(): { locale: Locale; weekStartsOn: Day } {
+  return { locale: currentLocale, weekStartsOn: currentWeekStartsOn };
+}
+
+/**
+ * Format a date for display in the app language.
+ *
+ * @param date - Date to format
+ * @param pattern - date-fns pattern (e.g. 'MMM d')
+ * @returns Localized string
+ */
+export function formatLocalized(date: Date, pattern: string): string {
+  return format(date, pattern, { locale: currentLocale });
+}
@@ -0,0 +1,183 @@
+import { moment } from 'obsidian';
+import {
+  parseISO,
+  parse,
+  isValid,
+  startOfDay,
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  nextDay,
+  Day,
+} from 'date-fns';
+import { CUSTOM_DATE_PATTERNS } from './dateCodec';
+import { t } from '../i18n';
+
+/**
+ * Result of parsing a property value as a date.
+ * Failures carry a reason that can be shown to the user;
+ * `empty` marks values that simply aren't set.
+ */
+export type DateParseResult =
+  | { ok: true; date: Date }
+  | { ok: false; reason: string; empty?: boolean };
+
+/** Weekday names for natural language dates ("monday", "next friday") */
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** Relative dates like "in 3 days" or "2 weeks ago" */
+const RELATIVE_DATE_REGEX = /^(?:in\s+(\d+)\s+(day|week|month|year)s?|(\d+)\s+(day|week|month|year)s?\s+ago)$/;
+
+/**
+ * Parse a property value into a Date.
+ * Accepts every shape Bases and frontmatter produce:
+ * - Date objects and numeric timestamps
+ * - Luxon DateTime (ts / toJSDate), moment (toDate) and other objects with toISOString
+ * - ISO strings, the user's configured formats (moment syntax, e.g. DD.MM.YYYY),
+ *   common custom formats and natural language ("today", "next friday", "in 3 days")
+ * - Single-item lists (how Obsidian stores some list-typed properties)
+ *
+ * @param value - Property value
+ * @param customFormats - User-configured formats in moment syntax, tried before the built-in ones
+ * @returns The parsed date, or the reason it couldn't be parsed
+ */
+export function parseDateValue(value: unknown, customFormats: string[] = []): DateParseResult {
+  if (value === null || value === undefined || value === '') {
+    return { ok: false, reason: t('date.empty'), empty: true };
+  }
+
+  if (value instanceof Date) {
+    return isValid(value) ? { ok: true, date: value } : { ok: false, reason: t('date.invalid') };
+  }
+
+  if (typeof value === 'number') {
+    const parsed = new Date(value);
+    return isValid(parsed) ? { ok: true, date: parsed } : { ok: false, reason: t('date.invalidTimestamp', { value }) };
+  }
+
+  if (typeof value === 'string') {
+    const parsed = parseDateString(value.trim(), customFormats);
+    return parsed
+      ? { ok: true, date: parsed }
+      : { ok: false, reason: t('date.unreadable', { value }) };
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 1) {
+      return parseDateValue(value[0], customFormats);
+    }
+    return { ok: false, reason: t('date.list', { count: value.length }) };
+  }
+
+  if (typeof value === 'object') {
+    const parsed = parseDateObject(value);
+    if (parsed) return { ok: true, date: parsed };
+  }
+
+  return { ok: false, reason: t('date.unsupported', { type: typeof value }) };
+}
+
+/**
+ * Parse a property value into a Date, or null if it can't be parsed.
+ *
+ * @param value - Property value
+ * @param customFormats - User-configured formats in moment syntax
+ * @returns Date object or null
+ */
+export function parseDate(value: unknown, customFormats: string[] = []): Date | null {
+  const result = parseDateValue(value, customFormats);
+  return result.ok ? result.date : null;
+}
+
+/**
+ * Parse a date string: ISO first, then custom formats, then natural language.
+ */
+function parseDateString(value: string, customFormats: string[]): Date | null {
+  if (!value) return null;
+
+  const iso = parseISO(value);
+  if (isValid(iso)) return iso;
+
+  // User formats use moment syntax, as elsewhere in Obsidian
+  if (customFormats.length > 0) {
+    const parsed = moment(value, customFormats, true);
+    if (parsed.isValid()) return parsed.toDate();
+  }
+
+  const referenceDate = startOfDay(new Date());
+  for (const pattern of CUSTOM_DATE_PATTERNS) {
+    const parsed = parse(value, pattern, referenceDate);
+    if (isValid(parsed)) return parsed;
+  }
+
+  return parseNaturalDate(value.toLowerCase(), referenceDate);
+}
+
+/**
+ * Parse a few common natural language dates relative to today.
+ */
+function parseNaturalDate(value: string, today: Date): Date | null {
+  if (value === 'today') return today;
+  if (value === 'tomorrow') return addDays(today, 1);
+  if (value === 'yesterday') return addDays(today, -1);
+
+  // "friday" / "next friday": the next occurrence after today
+  const weekday = WEEKDAYS.indexOf(value.replace(/^next\s+/, ''));
+  if (weekday !== -1) {
+    return nextDay(today, weekday as Day);
+  }
+
+  const match = RELATIVE_DATE_REGEX.exec(value);
+  if (match) {
+    const amount = match[1] ? Number(match[1]) : -Number(match[3]);
+    const unit = match[2] || match[4];
+    switch (unit) {
+      case 'day': return addDays(today, amount);
+      case 'week': return addWeeks(today, amount);
+      case 'month': return addMonths(today, amount);
+      case 'year': return addYears(today, amount);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse date-like objects from other libraries.
+ */
+function parseDateObject(value: object): Date | null {
+  const candidate = value as {
+    ts?: unknown;
+    toJSDate?: unknown;
+    toDate?: unknown;
+    toISOString?: unknown;
+  };
+
+  // Luxon DateTime
+  if (typeof candidate.ts === 'number') {
+    return new Date(candidate.ts);
+  }
+  if (typeof candidate.toJSDate === 'function') {
+    return toValidDate((candidate.toJSDate as () => unknown).call(value));
+  }
+
+  // moment
+  if (typeof candidate.toDate === 'function') {
+    return toValidDate((candidate.toDate as () => unknown).call(value));
+  }
+
+  if (typeof candidate.toISOString === 'function') {
+    const iso = (candidate.toISOString as () => unknown).call(value);
+    return typeof iso === 'string' ? toValidDate(parseISO(iso)) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Return the value if it is a valid Date, null otherwise.
+ */
+function toValidDate(value: unknown): Date | null {
+  return value instanceof Date && isValid(value) ? value : null;
+}
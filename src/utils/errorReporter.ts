@@ -0,0 +1,132 @@
+import { Notice, TFile } from 'obsidian';
+import { t } from '../i18n';
+
+/**
+ * A failed operation kept in the error log.
+ */
+export interface ErrorLogEntry {
+  timestamp: Date;
+  /** What was being done, e.g. 'update "status"' or 'create note' */
+  action: string;
+  /** Affected file, if any */
+  file?: TFile;
+  /** Error message shown to the user */
+  message: string;
+  /** Repeats the failed operation, if it can be retried */
+  retry?: () => Promise<void>;
+}
+
+/**
+ * Details of a failure passed to reportError.
+ */
+export interface ErrorReport {
+  action: string;
+  error: unknown;
+  file?: TFile;
+  retry?: () => Promise<void>;
+}
+
+/** Maximum number of entries kept in the error log */
+const ERROR_LOG_LIMIT = 50;
+
+/** How long the error notice stays visible (ms) */
+const NOTICE_DURATION = 8000;
+
+/**
+ * Failed operations across all views, newest first.
+ * Shown by the "Show error log" command.
+ */
+const errorLog: ErrorLogEntry[] = [];
+
+/**
+ * Report a failed operation to the user.
+ * Logs to the console, adds an entry to the error log and shows a notice
+ * with the file name, the reason and an optional "Retry" button.
+ *
+ * @param report - Action, error, affected file and retry callback
+ */
+export function reportError({ action, error, file, retry }: ErrorReport): void {
+  console.error(`Failed to ${action}:`, error);
+
+  const entry: ErrorLogEntry = {
+    timestamp: new Date(),
+    action,
+    file,
+    message: getErrorMessage(error),
+    retry,
+  };
+
+  errorLog.unshift(entry);
+  if (errorLog.length > ERROR_LOG_LIMIT) {
+    errorLog.length = ERROR_LOG_LIMIT;
+  }
+
+  showErrorNotice(entry);
+}
+
+/**
+ * Get the logged errors, newest first.
+ */
+export function getErrorLog(): readonly ErrorLogEntry[] {
+  return errorLog;
+}
+
+/**
+ * Remove all entries from the error log.
+ */
+export function clearErrorLog(): void {
+  errorLog.length = 0;
+}
+
+/**
+ * Run the retry callback of a logged error.
+ * A failed retry is reported again as a new entry.
+ *
+ * @param entry - Logged error with a retry callback
+ */
+export async function retryError(entry: ErrorLogEntry): Promise<void> {
+  if (!entry.retry) return;
+
+  const index = errorLog.indexOf(entry);
+  if (index !== -1) {
+    errorLog.splice(index, 1);
+  }
+
+  try {
+    await entry.retry();
+  } catch (error) {
+    reportError({ action: entry.action, error, file: entry.file, retry: entry.retry });
+  }
+}
+
+/**
+ * Show a notice for a failed operation, with a "Retry" button if possible.
+ */
+function showErrorNotice(entry: ErrorLogEntry): void {
+  const fragment = document.createDocumentFragment();
+  fragment.createDiv({
+    text: entry.file
+      ? t('error.noticeInFile', { action: entry.action, file: entry.file.basename, message: entry.message })
+      : t('error.notice', { action: entry.action, message: entry.message }),
+  });
+
+  const notice = new Notice(fragment, NOTICE_DURATION);
+
+  if (entry.retry) {
+    const button = notice.messageEl.createEl('button', { text: t('common.retry'), cls: 'bv-notice-retry' });
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      notice.hide();
+      void retryError(entry);
+    });
+  }
+}
+
+/**
+ * Extract a readable message from an unknown error value.
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  return t('error.unknown');
+}
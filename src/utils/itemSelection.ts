@@ -0,0 +1,85 @@
+/**
+ * Items selected in a view, by id (the note's file path).
+ *
+ * Filled by Ctrl/Cmd-click, Shift-click and lasso selection, and read by
+ * drags (which move every selected item) and the bulk action bar.
+ *
+ * Subscribable for React's useSyncExternalStore.
+ */
+export class ItemSelection {
+  private ids = new Set<string>();
+  private listeners = new Set<() => void>();
+
+  /** Last item toggled by a click; start of the next Shift-click range */
+  anchor: string | null = null;
+
+  /**
+   * Subscribe to changes of the selection.
+   *
+   * @param listener - Called whenever items are selected or deselected
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  /**
+   * Selected ids in the order they were selected.
+   */
+  getIds(): string[] {
+    return Array.from(this.ids);
+  }
+
+  /**
+   * Select an item, or deselect it if it's already selected.
+   */
+  toggle(id: string): void {
+    if (!this.ids.delete(id)) {
+      this.ids.add(id);
+    }
+    this.anchor = id;
+    this.emit();
+  }
+
+  /**
+   * Replace the selection.
+   */
+  set(ids: Iterable<string>): void {
+    this.ids = new Set(ids);
+    this.emit();
+  }
+
+  /**
+   * Keep only the given ids, e.g. after notes left the view or were renamed.
+   *
+   * @param ids - Ids of the items the view still shows
+   */
+  retain(ids: Set<string>): void {
+    const kept = Array.from(this.ids).filter((id) => ids.has(id));
+    if (kept.length === this.ids.size) return;
+    this.ids = new Set(kept);
+    this.emit();
+  }
+
+  clear(): void {
+    if (this.ids.size === 0) return;
+    this.ids.clear();
+    this.anchor = null;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,200 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { format } from 'date-fns';
+import { getFrontmatterKey } from './propertyId';
+import { encodeDate, getDatePropertyType } from './dateCodec';
+import { t } from '../i18n';
+
+/**
+ * Resolved note-creation defaults for a view
+ * (view options falling back to plugin settings).
+ */
+export interface NoteCreationOptions {
+  /** Target folder (empty = vault root) */
+  folder: string;
+  /** File name pattern with {{title}}, {{date}} and {{group}} variables */
+  nameTemplate: string;
+  /** Path of the template note (empty = no template) */
+  templatePath: string;
+}
+
+/**
+ * A note to create from a view.
+ */
+export interface NewNoteRequest {
+  /** Title used for the {{title}} variable */
+  title: string;
+  /** Group/column value used for the {{group}} variable */
+  group?: string;
+  /**
+   * Properties pre-filled by the view, keyed by property id (formula/file ids are skipped).
+   * Dates are serialized according to the property's type.
+   */
+  properties: Record<string, unknown>;
+  /** Body used when no template note is configured */
+  body?: string;
+}
+
+/** Characters that are not allowed in file names */
+const ILLEGAL_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Create a new note for a view.
+ * Applies the folder, file name pattern and template note from the options,
+ * then merges the view's properties into the frontmatter.
+ *
+ * @param app - Obsidian app instance
+ * @param options - Note-creation defaults for the view
+ * @param request - Title, group and properties of the new note
+ * @returns The created file
+ */
+export async function createNote(
+  app: App,
+  options: NoteCreationOptions,
+  request: NewNoteRequest
+): Promise<TFile> {
+  const variables = getNoteVariables(request);
+
+  const folder = options.folder ? normalizePath(options.folder) : '';
+  await ensureFolder(app, folder);
+
+  const path = getAvailablePath(app, folder, getNoteBaseName(options, variables), 'md');
+
+  // Seed content from the template note, falling back to the provided body
+  let content = request.body ?? '';
+  const template = options.templatePath ? app.vault.getFileByPath(normalizePath(options.templatePath)) : null;
+  if (template) {
+    content = renderTemplate(await app.vault.read(template), variables);
+  } else if (options.templatePath) {
+    console.warn(`Template note not found: ${options.templatePath}`);
+  }
+
+  const file = await app.vault.create(path, content);
+
+  // Merge view properties over the template's frontmatter
+  const frontmatterEntries = Object.entries(request.properties)
+    .map(([propertyId, value]) => [getFrontmatterKey(propertyId), value] as const)
+    .filter((entry): entry is readonly [string, unknown] => entry[0] !== null)
+    .map(([key, value]) => [
+      key,
+      value instanceof Date ? encodeDate(value, { propertyType: getDatePropertyType(app, key) }) : value,
+    ] as const);
+
+  if (frontmatterEntries.length > 0) {
+    await app.fileManager.processFrontMatter(file, (frontmatter) => {
+      frontmatterEntries.forEach(([key, value]) => {
+        frontmatter[key] = value;
+      });
+    });
+  }
+
+  return file;
+}
+
+/**
+ * Find the note createNote would write for a request, if it already exists
+ * (e.g. one created by an earlier import).
+ *
+ * @param app - Obsidian app instance
+ * @param options - Note-creation defaults for the view
+ * @param request - Title and group of the note
+ * @returns The note at the resolved path (without a counter), or null
+ */
+export function findNote(app: App, options: NoteCreationOptions, request: NewNoteRequest): TFile | null {
+  const folder = options.folder ? normalizePath(options.folder) : '';
+  const prefix = folder ? `${folder}/` : '';
+  return app.vault.getFileByPath(`${prefix}${getNoteBaseName(options, getNoteVariables(request))}.md`);
+}
+
+/**
+ * Create a non-note file (e.g. an exported image) in the new-notes folder.
+ * The name is sanitized and gets a counter if the path is taken.
+ *
+ * @param app - Obsidian app instance
+ * @param options - Note-creation defaults for the view (only the folder is used)
+ * @param name - File name without extension
+ * @param extension - File extension without the dot
+ * @param content - File content
+ * @returns The created file
+ */
+export async function createFile(
+  app: App,
+  options: NoteCreationOptions,
+  name: string,
+  extension: string,
+  content: string
+): Promise<TFile> {
+  const folder = options.folder ? normalizePath(options.folder) : '';
+  await ensureFolder(app, folder);
+
+  const baseName = sanitizeFileName(name) || t('common.untitled');
+  return app.vault.create(getAvailablePath(app, folder, baseName, extension), content);
+}
+
+/**
+ * Copy a note next to the original, as "<name> 1", "<name> 2", ...
+ *
+ * @param app - Obsidian app instance
+ * @param file - Note to copy
+ * @returns The copy
+ */
+export async function duplicateFile(app: App, file: TFile): Promise<TFile> {
+  const folder = file.parent && !file.parent.isRoot() ? file.parent.path : '';
+  return app.vault.copy(file, getAvailablePath(app, folder, file.basename, file.extension));
+}
+
+/**
+ * Values of the {{title}}, {{date}} and {{group}} variables for a new note.
+ */
+function getNoteVariables(request: NewNoteRequest): Record<string, string> {
+  return {
+    title: request.title || t('common.untitled'),
+    date: format(new Date(), 'yyyy-MM-dd'),
+    group: request.group || '',
+  };
+}
+
+/**
+ * File name of a new note from the name pattern, before a counter is appended.
+ */
+function getNoteBaseName(options: NoteCreationOptions, variables: Record<string, string>): string {
+  return sanitizeFileName(renderTemplate(options.nameTemplate || '{{title}}', variables)) || t('common.untitled');
+}
+
+/**
+ * Replace {{variable}} placeholders in a template string.
+ * Unknown variables are left untouched.
+ */
+function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/{{\s*(\w+)\s*}}/g, (match, name: string) => {
+    return name in variables ? variables[name] : match;
+  });
+}
+
+/**
+ * Remove characters that can't be used in file names.
+ */
+function sanitizeFileName(name: string): string {
+  return name.replace(ILLEGAL_FILENAME_CHARS, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Create the target folder (and parents) if it doesn't exist yet.
+ */
+async function ensureFolder(app: App, folder: string): Promise<void> {
+  if (!folder || app.vault.getFolderByPath(folder)) return;
+  await app.vault.createFolder(folder);
+}
+
+/**
+ * Find a free path for a new file, appending a counter on collision.
+ */
+function getAvailablePath(app: App, folder: string, baseName: string, extension: string): string {
+  const prefix = folder ? `${folder}/` : '';
+  let path = `${prefix}${baseName}.${extension}`;
+  let counter = 1;
+  while (app.vault.getAbstractFileByPath(path)) {
+    path = `${prefix}${baseName} ${counter}.${extension}`;
+    counter++;
+  }
+  return path;
+}
@@ -4,8 +4,9 @@ import { App, TFile } from 'obsidian';
  * Create a function to open a note in Obsidian.
  * Respects modifier keys for different open behaviors:
  * - Normal click: Open in current pane
- * - Ctrl/Cmd + click: Open in new split pane
- * - Shift + click: Open in new tab
+ * - Alt + click: Open in new tab
+ * - Ctrl/Cmd + Alt + click: Open in new split pane
+ * Ctrl/Cmd + click and Shift + click without Alt select items instead.
  *
  * @param app - Obsidian app instance
  * @param file - File to open
@@ -17,8 +18,8 @@ export function createNoteOpener(app: App, file: TFile) {
     event.stopPropagation();
 
     // Determine where to open based on modifier keys
-    const newLeaf = event.ctrlKey || event.metaKey;
-    const newTab = event.shiftKey;
+    const newLeaf = event.altKey && (event.ctrlKey || event.metaKey);
+    const newTab = event.altKey;
 
     const openFile = async () => {
       try {
@@ -0,0 +1,186 @@
+import { App, TFile } from 'obsidian';
+import { BasesEntry } from '../types/view-config';
+import { isSameValue } from './propertyHistory';
+
+/**
+ * A frontmatter write shown in the view before the metadata cache reflects it.
+ */
+export interface PendingChange {
+  file: TFile;
+  propertyName: string;
+  /** Value to display until the cache catches up */
+  value: unknown;
+  /** Whether processFrontMatter has finished */
+  confirmed: boolean;
+  /** Value actually stored in frontmatter, known once confirmed */
+  writtenValue?: unknown;
+  /** Drops the change if the cache never reports the written value */
+  expiryTimer?: number;
+}
+
+/** How long a confirmed change is kept while waiting for the metadata cache (ms) */
+const CONFIRMED_CHANGE_TIMEOUT = 3000;
+
+/**
+ * Optimistic overlay of property writes made by a view.
+ *
+ * A change is added right before its write, so cards and bars move as soon as
+ * they're dropped. Once the write succeeds the change is confirmed, and it is
+ * dropped when the metadata cache holds the written value (or after a timeout).
+ * A failed write removes the change, which rolls the item back.
+ *
+ * Subscribable for React's useSyncExternalStore.
+ */
+export class PendingChanges {
+  private changes = new Map<string, PendingChange>();
+  private listeners = new Set<() => void>();
+  private version = 0;
+
+  constructor(private app: App) {}
+
+  /**
+   * Subscribe to changes of the overlay.
+   *
+   * @param listener - Called whenever a change is added or removed
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Snapshot for useSyncExternalStore; increases on every update.
+   */
+  getVersion = (): number => this.version;
+
+  /**
+   * Show a value before it's written.
+   * Replaces any pending change of the same property.
+   *
+   * @param file - File being written
+   * @param propertyName - Frontmatter key
+   * @param value - Value passed to the write
+   * @returns The pending change, to confirm or remove after the write
+   */
+  add(file: TFile, propertyName: string, value: unknown): PendingChange {
+    const key = getChangeKey(file, propertyName);
+    const existing = this.changes.get(key);
+    if (existing) {
+      window.clearTimeout(existing.expiryTimer);
+    }
+
+    const change: PendingChange = { file, propertyName, value, confirmed: false };
+    this.changes.set(key, change);
+    this.emit();
+    return change;
+  }
+
+  /**
+   * Mark a change as written. It stays visible until the cache catches up.
+   *
+   * @param change - Change returned by add()
+   * @param writtenValue - Value stored in frontmatter
+   */
+  confirm(change: PendingChange, writtenValue: unknown): void {
+    if (!this.isCurrent(change)) return;
+
+    change.confirmed = true;
+    change.writtenValue = writtenValue;
+    change.expiryTimer = window.setTimeout(() => this.remove(change), CONFIRMED_CHANGE_TIMEOUT);
+
+    // The value may already be cached, e.g. when nothing changed
+    this.reconcile();
+  }
+
+  /**
+   * Remove a change, showing the cached value again (rollback after a failed write).
+   *
+   * @param change - Change returned by add()
+   */
+  remove(change: PendingChange): void {
+    if (!this.isCurrent(change)) return;
+
+    window.clearTimeout(change.expiryTimer);
+    this.changes.delete(getChangeKey(change.file, change.propertyName));
+    this.emit();
+  }
+
+  /**
+   * Drop confirmed changes whose written value is now in the metadata cache.
+   * Called when Bases delivers new data.
+   */
+  reconcile(): void {
+    let removed = false;
+
+    this.changes.forEach((change, key) => {
+      if (!change.confirmed) return;
+
+      const frontmatter = this.app.metadataCache.getFileCache(change.file)?.frontmatter;
+      if (isSameValue(frontmatter?.[change.propertyName], change.writtenValue)) {
+        window.clearTimeout(change.expiryTimer);
+        this.changes.delete(key);
+        removed = true;
+      }
+    });
+
+    if (removed) {
+      this.emit();
+    }
+  }
+
+  /**
+   * Apply pending values to adapted entries.
+   *
+   * @param entries - Entries built from Bases data
+   * @returns Entries with pending values; unchanged entries are returned as is
+   */
+  apply(entries: BasesEntry[]): BasesEntry[] {
+    if (this.changes.size === 0) return entries;
+
+    const byPath = new Map<string, PendingChange[]>();
+    this.changes.forEach((change) => {
+      const list = byPath.get(change.file.path) ?? [];
+      list.push(change);
+      byPath.set(change.file.path, list);
+    });
+
+    return entries.map((entry) => {
+      const changes = byPath.get(entry.file.path);
+      if (!changes) return entry;
+
+      const properties = { ...entry.properties };
+      changes.forEach((change) => {
+        properties[change.propertyName] = change.value;
+      });
+      return { ...entry, properties };
+    });
+  }
+
+  /**
+   * Drop all changes and timers (view closed).
+   */
+  clear(): void {
+    this.changes.forEach((change) => window.clearTimeout(change.expiryTimer));
+    this.changes.clear();
+    this.emit();
+  }
+
+  private isCurrent(change: PendingChange): boolean {
+    return this.changes.get(getChangeKey(change.file, change.propertyName)) === change;
+  }
+
+  private emit(): void {
+    this.version++;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Key of a pending change: one per file and property.
+ */
+function getChangeKey(file: TFile, propertyName: string): string {
+  return `${file.path}\n${propertyName}`;
+}
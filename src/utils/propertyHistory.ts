@@ -0,0 +1,163 @@
+import { App } from 'obsidian';
+import { PropertyChange, restoreFileProperty } from './propertyUpdater';
+import { t } from '../i18n';
+
+/**
+ * One undoable step: all property writes made by a single user action.
+ */
+export interface HistoryEntry {
+  label: string;
+  changes: PropertyChange[];
+}
+
+/**
+ * Handle that groups several writes into one undo step.
+ * Obtained from PropertyHistory.startBatch() and passed along with each write.
+ */
+export interface HistoryBatch {
+  readonly label: string;
+}
+
+/** Maximum number of undo steps kept per view */
+const HISTORY_LIMIT = 100;
+
+/**
+ * Undo/redo history of frontmatter changes made by a view.
+ *
+ * Every write records the previous value of the property. Writes that share
+ * a batch (a drag that moves start and end dates, a group rename touching
+ * many files) are undone and redone together. Repeated writes to the same
+ * property within a batch keep the value from before the first write.
+ */
+export class PropertyHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private batchEntries = new WeakMap<HistoryBatch, HistoryEntry>();
+  private busy = false;
+
+  constructor(private app: App) {}
+
+  /**
+   * Start a batch of writes that will be undone as a single step.
+   *
+   * @param label - Human-readable description of the action (e.g. "Move task")
+   */
+  startBatch(label: string): HistoryBatch {
+    return { label };
+  }
+
+  /**
+   * Record an applied change.
+   *
+   * @param change - Change returned by updateFileProperty
+   * @param batch - Optional batch the change belongs to
+   */
+  record(change: PropertyChange, batch?: HistoryBatch): void {
+    let entry = batch ? this.batchEntries.get(batch) : undefined;
+
+    // A batch whose entry was already undone starts a fresh step
+    if (!entry || !this.undoStack.includes(entry)) {
+      // Writes that didn't change anything are not worth an undo step
+      if (isSameValue(change.previousValue, change.newValue)) return;
+
+      entry = {
+        label: batch?.label ?? t('history.change', { name: change.propertyName }),
+        changes: [],
+      };
+      if (batch) {
+        this.batchEntries.set(batch, entry);
+      }
+      this.push(entry);
+    }
+
+    const existing = entry.changes.find(
+      (c) => c.file === change.file && c.propertyName === change.propertyName
+    );
+    if (existing) {
+      existing.newValue = change.newValue;
+    } else {
+      entry.changes.push(change);
+    }
+  }
+
+  canUndo(): boolean {
+    return !this.busy && this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return !this.busy && this.redoStack.length > 0;
+  }
+
+  /**
+   * Restore the previous values of the most recent step.
+   *
+   * @returns The undone entry, or null if there was nothing to undo
+   */
+  async undo(): Promise<HistoryEntry | null> {
+    if (!this.canUndo()) return null;
+
+    const entry = this.undoStack.pop()!;
+    this.busy = true;
+    try {
+      // Restore in reverse order so repeated writes unwind correctly
+      for (const change of [...entry.changes].reverse()) {
+        await restoreFileProperty(this.app, change.file, change.propertyName, change.previousValue);
+      }
+    } catch (error) {
+      this.undoStack.push(entry);
+      throw error;
+    } finally {
+      this.busy = false;
+    }
+
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  /**
+   * Re-apply the most recently undone step.
+   *
+   * @returns The redone entry, or null if there was nothing to redo
+   */
+  async redo(): Promise<HistoryEntry | null> {
+    if (!this.canRedo()) return null;
+
+    const entry = this.redoStack.pop()!;
+    this.busy = true;
+    try {
+      for (const change of entry.changes) {
+        await restoreFileProperty(this.app, change.file, change.propertyName, change.newValue);
+      }
+    } catch (error) {
+      this.redoStack.push(entry);
+      throw error;
+    } finally {
+      this.busy = false;
+    }
+
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  /**
+   * Add a new step, dropping the redo stack and the oldest steps past the limit.
+   */
+  private push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    this.redoStack = [];
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.shift();
+    }
+  }
+}
+
+/**
+ * Compare two frontmatter values structurally.
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
@@ -0,0 +1,75 @@
+/**
+ * Source of a Bases property:
+ * - note: frontmatter property (editable)
+ * - formula: formula defined in the base (read-only)
+ * - file: built-in file property such as file.mtime (read-only)
+ */
+export type PropertySource = 'note' | 'formula' | 'file';
+
+/**
+ * A BasesPropertyId split into its source and name.
+ */
+export interface ParsedPropertyId {
+  source: PropertySource;
+  name: string;
+}
+
+const PROPERTY_SOURCES: PropertySource[] = ['note', 'formula', 'file'];
+
+/**
+ * Split a BasesPropertyId ("note.status", "formula.due", "file.ctime")
+ * into its source and name. Ids without a known prefix are treated as
+ * note properties, so plain frontmatter keys keep working.
+ *
+ * @param propertyId - Property id from the view config
+ * @returns Source and name of the property
+ */
+export function parsePropertyId(propertyId: string): ParsedPropertyId {
+  const dotIndex = propertyId.indexOf('.');
+  if (dotIndex > 0) {
+    const prefix = propertyId.slice(0, dotIndex) as PropertySource;
+    if (PROPERTY_SOURCES.includes(prefix)) {
+      return { source: prefix, name: propertyId.slice(dotIndex + 1) };
+    }
+  }
+  return { source: 'note', name: propertyId };
+}
+
+/**
+ * Normalize a property option value to a full BasesPropertyId.
+ * Plain names (from older configs or defaults) become note properties.
+ *
+ * @param value - Raw value from the view config
+ * @returns Property id like "note.status", or '' if not set
+ */
+export function toPropertyId(value: unknown): string {
+  if (!value || typeof value !== 'string') return '';
+  const { source, name } = parsePropertyId(value);
+  return `${source}.${name}`;
+}
+
+/**
+ * Get the frontmatter key for a property id.
+ * Returns null for formula and file properties, which can't be written.
+ *
+ * @param propertyId - Property id
+ * @returns Frontmatter key or null
+ */
+export function getFrontmatterKey(propertyId: string): string | null {
+  const { source, name } = parsePropertyId(propertyId);
+  return source === 'note' ? name : null;
+}
+
+/**
+ * Check whether a property can be edited from a view (drag, resize, rename).
+ */
+export function isEditableProperty(propertyId: string): boolean {
+  return getFrontmatterKey(propertyId) !== null;
+}
+
+/**
+ * Get a display name for a property id ("formula.due" → "due").
+ */
+export function getPropertyDisplayName(propertyId: string): string {
+  return parsePropertyId(propertyId).name;
+}
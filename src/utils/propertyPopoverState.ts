@@ -0,0 +1,58 @@
+import { TFile } from 'obsidian';
+
+/**
+ * Note whose properties the popover edits, and the item it is shown next to.
+ */
+export interface PropertyPopoverTarget {
+  file: TFile;
+  anchorEl: HTMLElement;
+}
+
+/**
+ * Which note the property popover of a view is open for, if any.
+ *
+ * Opened from the context menu of a card, bar or event and from the
+ * "edit properties" command; one popover is open per view at a time.
+ *
+ * Subscribable for React's useSyncExternalStore.
+ */
+export class PropertyPopoverState {
+  private listeners = new Set<() => void>();
+
+  /** Note being edited, or null while the popover is closed */
+  target: PropertyPopoverTarget | null = null;
+
+  /**
+   * Subscribe to the popover opening, closing or switching notes.
+   *
+   * @param listener - Called whenever the target changes
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Show the popover for a note, replacing the one currently open.
+   *
+   * @param file - Note to edit
+   * @param anchorEl - Item the popover is placed next to
+   */
+  open(file: TFile, anchorEl: HTMLElement): void {
+    this.target = { file, anchorEl };
+    this.emit();
+  }
+
+  close(): void {
+    if (!this.target) return;
+    this.target = null;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,64 @@
+import { App } from 'obsidian';
+import { detectDateFormat, getAssignedPropertyType } from './dateCodec';
+
+/**
+ * Kinds of frontmatter values the property editor has a widget for.
+ * Mirrors Obsidian's property types; lists cover multitext, tags and aliases,
+ * and links are text properties holding a single [[wikilink]].
+ */
+export type PropertyType = 'text' | 'number' | 'checkbox' | 'date' | 'datetime' | 'list' | 'link';
+
+/** A single wikilink, optionally with an alias: [[Note]] or [[Note|Alias]] */
+const WIKILINK_REGEX = /^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/;
+
+/**
+ * Get the editing type of a frontmatter property.
+ * Uses the type assigned in the vault; properties without one are
+ * inferred from their current value.
+ *
+ * @param app - Obsidian app instance
+ * @param propertyName - Frontmatter key
+ * @param value - Current value of the property
+ * @returns Widget type for the property
+ */
+export function getPropertyType(app: App, propertyName: string, value: unknown): PropertyType {
+  switch (getAssignedPropertyType(app, propertyName)) {
+    case 'number':
+      return 'number';
+    case 'checkbox':
+      return 'checkbox';
+    case 'date':
+      return 'date';
+    case 'datetime':
+      return 'datetime';
+    case 'multitext':
+    case 'tags':
+    case 'aliases':
+      return 'list';
+    case 'text':
+      return getLinkTarget(value) !== null ? 'link' : 'text';
+  }
+
+  if (typeof value === 'boolean') return 'checkbox';
+  if (typeof value === 'number') return 'number';
+  if (Array.isArray(value)) return 'list';
+  if (getLinkTarget(value) !== null) return 'link';
+
+  const dateFormat = detectDateFormat(value);
+  if (dateFormat) {
+    return dateFormat.includes('HH') ? 'datetime' : 'date';
+  }
+  return 'text';
+}
+
+/**
+ * Get the note a [[wikilink]] value points to.
+ *
+ * @param value - Property value
+ * @returns Link target without brackets and alias, or null if the value isn't a single wikilink
+ */
+export function getLinkTarget(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = WIKILINK_REGEX.exec(value.trim());
+  return match ? match[1] : null;
+}
@@ -1,4 +1,17 @@
 import { App, TFile } from 'obsidian';
+import { DatePropertyType, encodeDate, getDatePropertyType } from './dateCodec';
+
+/**
+ * A single frontmatter write, with enough information to reverse it.
+ */
+export interface PropertyChange {
+  file: TFile;
+  propertyName: string;
+  /** Value before the write (undefined if the property did not exist) */
+  previousValue: unknown;
+  /** Value that was written (undefined if the property was removed) */
+  newValue: unknown;
+}
 
 /**
  * Update a property in a file's YAML frontmatter.
@@ -8,23 +21,57 @@ import { App, TFile } from 'obsidian';
  * @param file - File to update
  * @param propertyName - Name of the property to update
  * @param value - New value for the property
+ * @returns The applied change, including the previous value
  */
 export async function updateFileProperty(
   app: App,
   file: TFile,
   propertyName: string,
   value: unknown
-): Promise<void> {
+): Promise<PropertyChange> {
+  const propertyType = value instanceof Date ? getDatePropertyType(app, propertyName) : null;
+  let previousValue: unknown;
+  let newValue: unknown;
+
   try {
     // Use Obsidian's official API to update frontmatter
     await app.fileManager.processFrontMatter(file, (frontmatter) => {
-      // Format the value appropriately
-      frontmatter[propertyName] = formatValue(value);
+      previousValue = cloneValue(frontmatter[propertyName]);
+      // Format the value appropriately (dates keep the shape of the previous value)
+      newValue = formatValue(value, previousValue, propertyType);
+      frontmatter[propertyName] = newValue;
     });
   } catch (error) {
     console.error('Failed to update property:', error);
     throw error;
   }
+
+  return { file, propertyName, previousValue, newValue };
+}
+
+/**
+ * Write a raw value back into a file's frontmatter.
+ * Unlike updateFileProperty, the value is stored exactly as given,
+ * and undefined removes the property. Used to undo/redo changes.
+ *
+ * @param app - Obsidian app instance
+ * @param file - File to update
+ * @param propertyName - Name of the property to restore
+ * @param value - Raw value to store, or undefined to remove the property
+ */
+export async function restoreFileProperty(
+  app: App,
+  file: TFile,
+  propertyName: string,
+  value: unknown
+): Promise<void> {
+  await app.fileManager.processFrontMatter(file, (frontmatter) => {
+    if (value === undefined) {
+      delete frontmatter[propertyName];
+    } else {
+      frontmatter[propertyName] = cloneValue(value);
+    }
+  });
 }
 
 /**
@@ -32,18 +79,35 @@ export async function updateFileProperty(
  * Handles different value types appropriately.
  *
  * @param value - Value to format
+ * @param previousValue - Current value of the property, used to keep date shapes
+ * @param propertyType - Obsidian type of the property (date or datetime)
  * @returns Formatted value for YAML
  */
-function formatValue(value: unknown): unknown {
+function formatValue(
+  value: unknown,
+  previousValue: unknown,
+  propertyType: DatePropertyType | null
+): unknown {
   if (value === null || value === undefined) {
     return null;
   }
 
   if (value instanceof Date) {
-    // Format date as YYYY-MM-DD
-    return value.toISOString().split('T')[0];
+    // Serialize in local time, in the same shape as the existing value
+    return encodeDate(value, { previousValue, propertyType });
   }
 
   // For other types, return as-is - Obsidian's YAML serializer handles them
   return value;
 }
+
+/**
+ * Copy a frontmatter value so later edits to the file don't mutate it.
+ * Frontmatter only holds YAML-compatible data, so a JSON round-trip is enough.
+ */
+function cloneValue(value: unknown): unknown {
+  if (typeof value === 'object' && value !== null) {
+    return JSON.parse(JSON.stringify(value));
+  }
+  return value;
+}
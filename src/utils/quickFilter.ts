@@ -0,0 +1,235 @@
+import {
+  addDays,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { BasesEntry } from '../types/view-config';
+import { getEntryValue } from './basesDataAdapter';
+import { detectDateFormat } from './dateCodec';
+import { parseDate } from './dateParsing';
+import { getWeekOptions } from './dateLocale';
+
+/**
+ * Relative date ranges understood by the filter bar.
+ */
+export type DateChip = 'today' | 'tomorrow' | 'this week' | 'next week' | 'this month' | 'overdue';
+
+/**
+ * One part of a quick filter query. All terms must match for a note to be shown.
+ * - text: word or "quoted phrase" found in the title or any property value
+ * - property: `key:value`, the property contains the value (`key:` = has any value)
+ * - date: relative date chip, tested against the view's date properties
+ */
+export type QuickFilterTerm =
+  | { kind: 'text'; raw: string; text: string }
+  | { kind: 'property'; raw: string; key: string; value: string }
+  | { kind: 'date'; raw: string; chip: DateChip };
+
+/**
+ * Settings and view options the filter needs to evaluate terms.
+ */
+export interface QuickFilterOptions {
+  /** Ids of the view's start and end date properties; empty to test every date-valued property */
+  dateProperties: string[];
+  /** Custom date formats from plugin settings */
+  dateFormats: string[];
+  /** Value `me` stands for in property chips ('' keeps it literal) */
+  me: string;
+  /** Frontmatter key and value that mark a note as done (done notes are never overdue) */
+  doneProperty: string;
+  doneValue: string;
+}
+
+const DATE_CHIPS: DateChip[] = ['today', 'tomorrow', 'this week', 'next week', 'this month', 'overdue'];
+
+/**
+ * Date chips (whole words only), `key:value` / `key:"quoted value"`, "quoted phrases" and plain words.
+ */
+const TOKEN_REGEX = new RegExp(
+  `(${DATE_CHIPS.map((chip) => chip.replace(' ', '\\s+')).join('|')})(?=\\s|$)` +
+  '|([^\\s:"]+):(?:"([^"]*)"?|(\\S*))' +
+  '|"([^"]*)"?' +
+  '|(\\S+)',
+  'gi'
+);
+
+/**
+ * Split a filter bar query into terms.
+ *
+ * @param query - Text typed into the filter bar
+ * @returns Terms in the order they were typed
+ */
+export function parseQuickFilter(query: string): QuickFilterTerm[] {
+  const terms: QuickFilterTerm[] = [];
+
+  for (const match of query.matchAll(TOKEN_REGEX)) {
+    const [raw, dateChip, key, quotedValue, value, phrase, word] = match;
+    if (dateChip) {
+      terms.push({ kind: 'date', raw, chip: dateChip.toLowerCase().replace(/\s+/, ' ') as DateChip });
+    } else if (key) {
+      terms.push({ kind: 'property', raw, key, value: quotedValue ?? value ?? '' });
+    } else if (phrase?.trim() || word) {
+      terms.push({ kind: 'text', raw, text: (phrase ?? word).trim() });
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Remove one term from a query, keeping the others as they were typed.
+ *
+ * @param terms - Parsed terms of the query
+ * @param term - Term to remove
+ * @returns New query text
+ */
+export function removeQuickFilterTerm(terms: QuickFilterTerm[], term: QuickFilterTerm): string {
+  return terms.filter((other) => other !== term).map((other) => other.raw).join(' ');
+}
+
+/**
+ * Keep the entries matching every term of a query.
+ *
+ * @param entries - Adapted entries of the view
+ * @param terms - Parsed query
+ * @param options - Date properties and settings
+ * @param today - Start of the current day
+ * @returns Matching entries (the same array when the query is empty)
+ */
+export function filterEntries(
+  entries: BasesEntry[],
+  terms: QuickFilterTerm[],
+  options: QuickFilterOptions,
+  today = startOfDay(new Date())
+): BasesEntry[] {
+  if (terms.length === 0) return entries;
+  return entries.filter((entry) => terms.every((term) => matchesTerm(entry, term, options, today)));
+}
+
+/**
+ * Check a single term against an entry.
+ */
+function matchesTerm(entry: BasesEntry, term: QuickFilterTerm, options: QuickFilterOptions, today: Date): boolean {
+  switch (term.kind) {
+    case 'text': {
+      const text = term.text.toLowerCase();
+      return entry.file.basename.toLowerCase().includes(text)
+        || Object.values(entry.properties).some((value) => valueIncludes(value, text));
+    }
+
+    case 'property': {
+      const value = getPropertyByKey(entry, term.key);
+      if (term.value === '') {
+        return hasValue(value);
+      }
+      const wanted = term.value.toLowerCase() === 'me' && options.me ? options.me : term.value;
+      return valueIncludes(value, wanted.toLowerCase());
+    }
+
+    case 'date':
+      return matchesDateChip(entry, term.chip, options, today);
+  }
+}
+
+/**
+ * Read a frontmatter property by name, ignoring case.
+ */
+function getPropertyByKey(entry: BasesEntry, key: string): unknown {
+  if (key in entry.properties) return entry.properties[key];
+  const lowerKey = key.toLowerCase();
+  const match = Object.keys(entry.properties).find((name) => name.toLowerCase() === lowerKey);
+  return match === undefined ? undefined : entry.properties[match];
+}
+
+/**
+ * Check whether a value (or any item of a list) contains lowercase text.
+ */
+function valueIncludes(value: unknown, text: string): boolean {
+  if (Array.isArray(value)) {
+    return value.some((item) => valueIncludes(item, text));
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value).toLowerCase().includes(text);
+  }
+  return false;
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== undefined && value !== '';
+}
+
+/**
+ * Check an entry's dates against a relative date chip.
+ * With date properties, the note spans from its start to its end date;
+ * otherwise each date-valued property counts as a single day.
+ */
+function matchesDateChip(entry: BasesEntry, chip: DateChip, options: QuickFilterOptions, today: Date): boolean {
+  const spans = getDateSpans(entry, options);
+
+  if (chip === 'overdue') {
+    return !isDone(entry, options) && spans.length > 0 && spans.every(([, end]) => end < today);
+  }
+
+  const [rangeStart, rangeEnd] = getChipRange(chip, today);
+  return spans.some(([start, end]) => start <= rangeEnd && end >= rangeStart);
+}
+
+/**
+ * Get the [start, end] day spans of an entry.
+ */
+function getDateSpans(entry: BasesEntry, options: QuickFilterOptions): Array<[Date, Date]> {
+  const { dateProperties, dateFormats } = options;
+
+  if (dateProperties.some(Boolean)) {
+    const [start, end] = dateProperties.map((id) => (id ? parseDate(getEntryValue(entry, id), dateFormats) : null));
+    const first = start ?? end;
+    if (!first) return [];
+    const last = end && start && end > start ? end : first;
+    return [[startOfDay(first), endOfDay(last)]];
+  }
+
+  return Object.values(entry.properties)
+    .filter((value) => value instanceof Date || detectDateFormat(value) !== null)
+    .map((value) => parseDate(value, dateFormats))
+    .filter((date): date is Date => date !== null)
+    .map((date) => [startOfDay(date), endOfDay(date)]);
+}
+
+/**
+ * Get the first and last moment of a chip's range.
+ */
+function getChipRange(chip: Exclude<DateChip, 'overdue'>, today: Date): [Date, Date] {
+  const weekOptions = getWeekOptions();
+  switch (chip) {
+    case 'today':
+      return [today, endOfDay(today)];
+    case 'tomorrow':
+      return [addDays(today, 1), endOfDay(addDays(today, 1))];
+    case 'this week':
+      return [startOfWeek(today, weekOptions), endOfWeek(today, weekOptions)];
+    case 'next week': {
+      const nextWeek = addWeeks(today, 1);
+      return [startOfWeek(nextWeek, weekOptions), endOfWeek(nextWeek, weekOptions)];
+    }
+    case 'this month':
+      return [startOfMonth(today), endOfMonth(today)];
+  }
+}
+
+/**
+ * Check whether a note has the "done" value configured for "Mark done".
+ */
+export function isDone(entry: BasesEntry, options: Pick<QuickFilterOptions, 'doneProperty' | 'doneValue'>): boolean {
+  if (!options.doneProperty) return false;
+  const value = getPropertyByKey(entry, options.doneProperty);
+  const doneValue = options.doneValue.toLowerCase();
+  return Array.isArray(value)
+    ? value.some((item) => String(item).toLowerCase() === doneValue)
+    : String(value).toLowerCase() === doneValue;
+}
@@ -0,0 +1,151 @@
+import { App, BasesPropertyId, BasesQueryResult, TFile } from 'obsidian';
+import { format } from 'date-fns';
+import { createFile, NoteCreationOptions } from './noteCreator';
+import { getPropertyValue } from './basesDataAdapter';
+
+/**
+ * File format of exported view data.
+ */
+export type ViewDataFormat = 'csv' | 'json';
+
+/**
+ * A column of exported data.
+ */
+export interface ViewDataColumn {
+  /** Key of the value in each row */
+  key: string;
+  /** Header in CSV, key in JSON */
+  label: string;
+}
+
+/**
+ * Rows a view currently shows, with the columns to write.
+ * Built by each view from its own data (board cards, Gantt tasks, calendar events).
+ */
+export interface ViewData {
+  /** Base name for the export file */
+  name: string;
+  columns: ViewDataColumn[];
+  rows: Array<Record<string, unknown>>;
+}
+
+/**
+ * Serialize view data as CSV (RFC 4180, with header row) or as a JSON array of objects.
+ * Dates become yyyy-MM-dd (or yyyy-MM-ddTHH:mm when they have a time),
+ * lists are joined with "; " in CSV and kept as arrays in JSON.
+ *
+ * @param data - Columns and rows from the view
+ * @param dataFormat - Output format
+ * @returns File content
+ */
+export function serializeViewData(data: ViewData, dataFormat: ViewDataFormat): string {
+  if (dataFormat === 'json') {
+    const rows = data.rows.map((row) => Object.fromEntries(
+      data.columns.map((column) => [column.label, toJsonValue(row[column.key])])
+    ));
+    return JSON.stringify(rows, null, 2) + '\n';
+  }
+
+  const lines = [
+    data.columns.map((column) => escapeCsv(column.label)),
+    ...data.rows.map((row) => data.columns.map((column) => escapeCsv(toCsvValue(row[column.key])))),
+  ];
+  return lines.map((cells) => cells.join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Add the properties the view shows (its ordered columns in Bases) to the rows.
+ * Rows are matched to Bases entries by their file; properties whose label the
+ * view's own columns already use (e.g. its date properties) are left out.
+ *
+ * @param data - Columns and rows from the view
+ * @param result - Query result of the view
+ * @param getLabel - Display name of a property in the view
+ * @returns Data with a column per shown property
+ */
+export function withViewProperties(
+  data: ViewData,
+  result: BasesQueryResult,
+  getLabel: (propertyId: BasesPropertyId) => string
+): ViewData {
+  const labels = new Set(data.columns.map((column) => column.label));
+  const propertyColumns = result.properties
+    .map((propertyId) => ({ key: `property:${propertyId}`, propertyId, label: getLabel(propertyId) }))
+    .filter((column) => {
+      if (labels.has(column.label)) return false;
+      labels.add(column.label);
+      return true;
+    });
+
+  const entries = new Map(result.data.map((entry) => [entry.file.path, entry]));
+  const rows = data.rows.map((row) => {
+    const entry = row.file instanceof TFile ? entries.get(row.file.path) : undefined;
+    if (!entry) return row;
+    return {
+      ...row,
+      ...Object.fromEntries(propertyColumns.map((column) => [column.key, getPropertyValue(entry, column.propertyId)])),
+    };
+  });
+
+  return {
+    ...data,
+    columns: [...data.columns, ...propertyColumns.map(({ key, label }) => ({ key, label }))],
+    rows,
+  };
+}
+
+/**
+ * Write view data to a new file in the new-notes folder.
+ *
+ * @param app - Obsidian app instance
+ * @param options - Note-creation defaults of the view (for the folder)
+ * @param data - Columns and rows from the view
+ * @param dataFormat - Output format
+ * @returns The created file
+ */
+export async function exportViewData(
+  app: App,
+  options: NoteCreationOptions,
+  data: ViewData,
+  dataFormat: ViewDataFormat
+): Promise<TFile> {
+  const name = `${data.name} ${format(new Date(), 'yyyy-MM-dd')}`;
+  return createFile(app, options, name, dataFormat, serializeViewData(data, dataFormat));
+}
+
+/**
+ * Convert a value to its JSON form (dates as strings, files as paths).
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Date) return formatDateValue(value);
+  if (value instanceof TFile) return value.path;
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  return value ?? null;
+}
+
+/**
+ * Convert a value to the text of a CSV cell.
+ */
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDateValue(value);
+  if (value instanceof TFile) return value.path;
+  if (Array.isArray(value)) return value.map(toCsvValue).join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+/**
+ * Format a date without time when it falls on midnight.
+ */
+function formatDateValue(date: Date): string {
+  const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+  return format(date, hasTime ? "yyyy-MM-dd'T'HH:mm" : 'yyyy-MM-dd');
+}
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or line break.
+ */
+function escapeCsv(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,6 +1,34 @@
-import { BasesView, BasesQueryResult, QueryController, HoverParent, HoverPopover } from 'obsidian';
+import { BasesView, BasesQueryResult, QueryController, HoverParent, HoverPopover, Keymap, Notice } from 'obsidian';
 import { Root, createRoot } from 'react-dom/client';
 import React from 'react';
+import { PropertyHistory } from '../../utils/propertyHistory';
+import { PropertyHistoryProvider } from '../../context/PropertyHistoryContext';
+import { PendingChanges } from '../../utils/pendingChanges';
+import { PendingChangesProvider } from '../../context/PendingChangesContext';
+import { ViewCommandsProvider } from '../../context/ViewCommandsContext';
+import { ViewCommandRegistry } from './viewCommands';
+import { ViewStateStore } from './viewState';
+import { ViewStateProvider } from '../../context/ViewStateContext';
+import { ItemSelection } from '../../utils/itemSelection';
+import { SelectionProvider } from '../../context/SelectionContext';
+import { SelectionBar } from '../../components/shared/SelectionBar';
+import { QuickFilterProvider } from '../../context/QuickFilterContext';
+import { QuickFilterOptions } from '../../utils/quickFilter';
+import { ColorRulesProvider } from '../../context/ColorRulesContext';
+import { ColorRules, parseColorMappings } from '../../utils/colorUtils';
+import { NoteMenuOptions, NoteMenuProvider } from '../../context/NoteMenuContext';
+import { PropertyPopoverState, PropertyPopoverTarget } from '../../utils/propertyPopoverState';
+import { PropertyPopoverProvider } from '../../context/PropertyPopoverContext';
+import { PropertyPopoverHost } from '../../components/shared/PropertyPopover';
+import { SELECTION_ID_ATTRIBUTE, handleSelectionClick, handleSelectionPointerDown } from './selectionGestures';
+import { registerView, unregisterView, setActiveView } from './viewRegistry';
+import { NoteCreationOptions } from '../../utils/noteCreator';
+import { toPropertyId } from '../../utils/propertyId';
+import { getPropertyValue } from '../../utils/basesDataAdapter';
+import { exportViewData, ViewDataFormat, withViewProperties } from '../../utils/viewDataExport';
+import { reportError } from '../../utils/errorReporter';
+import type BasesCustomViewsPlugin from '../../main';
+import { t } from '../../i18n';
 
 /**
  * Abstract base class that bridges Obsidian's BasesView with React components.
@@ -10,6 +38,16 @@ import React from 'react';
  * - Data updates from Obsidian Bases API
  * - Cleanup on view close
  * - Hover preview support
+ * - Undo/redo history of property changes (Ctrl+Z / Ctrl+Shift+Z)
+ * - Optimistic display of property writes until the metadata cache catches up
+ * - Command handlers registered by the React component
+ * - CSV/JSON export of the rows the view shows
+ * - UI state (collapsed rows, calendar date, scroll offsets) kept in the view config
+ * - Multi-select (Ctrl/Cmd-click, Shift-click, Shift-drag lasso) and the bulk action bar
+ * - Options of the note context menu (group property, dates, "mark done")
+ * - The property popover, opened from the context menu or the "edit properties" command
+ * - The filter bar query, kept in the view config
+ * - Color rules ("color by" property and value colors) from the view options
  *
  * Subclasses must implement:
  * - type property (view type ID)
@@ -20,17 +58,41 @@ export abstract class ReactBasesView extends BasesView implements HoverParent {
   abstract type: string;
 
   protected containerEl: HTMLElement;
+  protected plugin: BasesCustomViewsPlugin;
   private root: Root | null = null;
 
   // Implement HoverParent interface
   hoverPopover: HoverPopover | null = null;
 
-  constructor(controller: QueryController, containerEl: HTMLElement) {
+  // Undo/redo history scoped to this view
+  protected history: PropertyHistory;
+
+  // Writes shown before Bases reports them
+  protected pendingChanges: PendingChanges;
+
+  // Actions the React component exposes to plugin commands
+  readonly commands = new ViewCommandRegistry();
+
+  // UI state remembered in the view config
+  protected viewState = new ViewStateStore(() => this.config);
+
+  // Cards, bars or events selected for group drags and bulk actions
+  protected selection = new ItemSelection();
+
+  // Note whose properties are edited in place
+  protected propertyPopover = new PropertyPopoverState();
+
+  constructor(controller: QueryController, containerEl: HTMLElement, plugin: BasesCustomViewsPlugin) {
     super(controller);
     this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.history = new PropertyHistory(this.app);
+    this.pendingChanges = new PendingChanges(this.app);
 
     // Style container
     this.containerEl.addClass('bases-view-container');
+    // Make container focusable so it receives keyboard shortcuts
+    this.containerEl.tabIndex = -1;
   }
 
   /**
@@ -39,6 +101,19 @@ export abstract class ReactBasesView extends BasesView implements HoverParent {
   override onload(): void {
     super.onload();
 
+    // Track this view so commands can target it
+    registerView(this);
+    this.registerDomEvent(this.containerEl, 'focusin', () => setActiveView(this));
+    this.registerDomEvent(this.containerEl, 'pointerdown', () => setActiveView(this));
+    this.registerDomEvent(this.containerEl, 'keydown', (event) => this.handleKeyDown(event));
+    // Capture phase, so selection clicks don't reach the items' open/drag handlers
+    this.registerDomEvent(this.containerEl, 'pointerdown', (event) => {
+      handleSelectionPointerDown(event, this.containerEl, this.selection);
+    }, { capture: true });
+    this.registerDomEvent(this.containerEl, 'click', (event) => {
+      handleSelectionClick(event, this.containerEl, this.selection);
+    }, { capture: true });
+
     // Render if data object exists (even if empty - show empty view)
     if (this.data) {
       this.render();
@@ -54,7 +129,7 @@ export abstract class ReactBasesView extends BasesView implements HoverParent {
   private showLoadingMessage(): void {
     this.containerEl.empty();
     const loadingDiv = this.containerEl.createDiv({ cls: 'bv-loading' });
-    loadingDiv.createEl('div', { text: 'Loading data from bases...' });
+    loadingDiv.createEl('div', { text: t('view.loading') });
   }
 
   /**
@@ -66,6 +141,112 @@ export abstract class ReactBasesView extends BasesView implements HoverParent {
    */
   protected abstract getReactComponent(data: BasesQueryResult): React.ReactElement;
 
+  /**
+   * Resolve note-creation defaults: view options override plugin settings
+   */
+  protected getNoteCreationOptions(): NoteCreationOptions {
+    const settings = this.plugin.settings;
+    return {
+      folder: this.getStringOption('newNoteFolder') || settings.newNoteFolder,
+      nameTemplate: this.getStringOption('newNoteNameTemplate') || settings.newNoteNameTemplate,
+      templatePath: this.getStringOption('newNoteTemplate') || settings.newNoteTemplatePath,
+    };
+  }
+
+  /**
+   * Ids of the start and end date properties moved by "shift dates" and "reschedule"; none by default
+   */
+  protected getDateProperties(): string[] {
+    return [];
+  }
+
+  /**
+   * Id of the property the view groups by, for "Set … to" in the context menu; none by default
+   */
+  protected getGroupByProperty(): string {
+    return '';
+  }
+
+  /**
+   * Context menu options from the view config and plugin settings
+   */
+  private getNoteMenuOptions(): NoteMenuOptions {
+    const groupByProperty = this.getGroupByProperty();
+    const settings = this.plugin.settings;
+    return {
+      groupByProperty,
+      getGroupValues: () => this.getGroupValues(groupByProperty),
+      dateProperties: this.getDateProperties(),
+      dateFormats: settings.dateFormats,
+      doneProperty: settings.doneProperty,
+      doneValue: settings.doneValue,
+    };
+  }
+
+  /**
+   * Filter bar options from plugin settings (date properties are added by each view's data hook)
+   */
+  private getQuickFilterOptions(): Omit<QuickFilterOptions, 'dateProperties'> {
+    const settings = this.plugin.settings;
+    return {
+      dateFormats: settings.dateFormats,
+      me: settings.filterMe,
+      doneProperty: settings.doneProperty,
+      doneValue: settings.doneValue,
+    };
+  }
+
+  /**
+   * Color rules from the view options
+   */
+  private getColorRules(): ColorRules {
+    return {
+      property: this.getPropertyOption('colorProperty'),
+      mappings: parseColorMappings(this.getStringOption('colorMappings')),
+    };
+  }
+
+  /**
+   * Distinct non-empty values of a property among the view's notes (list items count separately)
+   */
+  private getGroupValues(propertyId: string): string[] {
+    const values = new Set<string>();
+    this.data?.data.forEach((entry) => {
+      const value = getPropertyValue(entry, propertyId);
+      (Array.isArray(value) ? value : [value]).forEach((item) => {
+        if (typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean') {
+          const text = String(item).trim();
+          if (text) values.add(text);
+        }
+      });
+    });
+    return Array.from(values).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Read a property option as a full BasesPropertyId ("note.status", "formula.due", "file.ctime")
+   */
+  protected getPropertyOption(key: string): string {
+    return toPropertyId(this.config.get(key));
+  }
+
+  /**
+   * Read a string view option, returning '' when unset
+   */
+  private getStringOption(key: string): string {
+    const value = this.config.get(key);
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  /**
+   * Re-render with the current data (e.g. after plugin settings change)
+   */
+  refresh(): void {
+    if (this.root) {
+      this.render();
+    }
+  }
+
   /**
    * Render or re-render the React component
    */
@@ -83,7 +264,183 @@ export abstract class ReactBasesView extends BasesView implements HoverParent {
 
     // Render React component with current data (even if empty)
     const component = this.getReactComponent(this.data);
-    this.root.render(component);
+    this.root.render(
+      React.createElement(
+        PropertyHistoryProvider,
+        { history: this.history },
+        React.createElement(
+          PendingChangesProvider,
+          { pendingChanges: this.pendingChanges },
+          React.createElement(
+            ViewStateProvider,
+            { store: this.viewState },
+            React.createElement(
+              ColorRulesProvider,
+              { rules: this.getColorRules() },
+              React.createElement(
+                QuickFilterProvider,
+                { options: this.getQuickFilterOptions() },
+                React.createElement(
+                  SelectionProvider,
+                  { selection: this.selection },
+                  React.createElement(
+                    PropertyPopoverProvider,
+                    { popover: this.propertyPopover },
+                    React.createElement(
+                      NoteMenuProvider,
+                      { options: this.getNoteMenuOptions() },
+                      React.createElement(ViewCommandsProvider, { registry: this.commands }, component)
+                    ),
+                    React.createElement(SelectionBar, {
+                      app: this.app,
+                      properties: this.data.properties,
+                      dateProperties: this.getDateProperties(),
+                      dateFormats: this.plugin.settings.dateFormats,
+                    }),
+                    React.createElement(PropertyPopoverHost, {
+                      app: this.app,
+                      dateFormats: this.plugin.settings.dateFormats,
+                    })
+                  )
+                )
+              )
+            )
+          )
+        )
+      )
+    );
+  }
+
+  /**
+   * Check if the view is currently displayed
+   */
+  isVisible(): boolean {
+    return this.containerEl.isShown();
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Revert the last property change made in this view
+   */
+  async undo(): Promise<void> {
+    try {
+      const entry = await this.history.undo();
+      if (entry) {
+        new Notice(t('view.undo', { label: entry.label }));
+      }
+    } catch (error) {
+      console.error('Failed to undo change:', error);
+      new Notice(t('view.undoFailed'));
+    }
+  }
+
+  /**
+   * Re-apply the last undone property change in this view
+   */
+  async redo(): Promise<void> {
+    try {
+      const entry = await this.history.redo();
+      if (entry) {
+        new Notice(t('view.redo', { label: entry.label }));
+      }
+    } catch (error) {
+      console.error('Failed to redo change:', error);
+      new Notice(t('view.redoFailed'));
+    }
+  }
+
+  /**
+   * Check whether the React component provides data to export
+   */
+  canExportData(): boolean {
+    return Boolean(this.commands.get('getViewData'));
+  }
+
+  /**
+   * Export the rows the view currently shows to a CSV or JSON file
+   */
+  async exportData(dataFormat: ViewDataFormat): Promise<void> {
+    const getViewData = this.commands.get('getViewData');
+    if (!getViewData) return;
+
+    try {
+      const viewData = this.data
+        ? withViewProperties(getViewData(), this.data, (propertyId) => this.config.getDisplayName(propertyId))
+        : getViewData();
+      const file = await exportViewData(this.app, this.getNoteCreationOptions(), viewData, dataFormat);
+      new Notice(t('view.exported', { path: file.path }));
+    } catch (error) {
+      reportError({ action: t('action.exportViewData'), error, retry: () => this.exportData(dataFormat) });
+    }
+  }
+
+  /**
+   * Check whether there's an item to edit the properties of
+   */
+  canEditProperties(): boolean {
+    return this.getPropertyPopoverTarget() !== null;
+  }
+
+  /**
+   * Open the property popover for the item under the mouse, or else the last selected item
+   */
+  editProperties(): void {
+    const target = this.getPropertyPopoverTarget();
+    if (target) {
+      this.propertyPopover.open(target.file, target.anchorEl);
+    }
+  }
+
+  /**
+   * Find the item the "edit properties" command acts on
+   */
+  private getPropertyPopoverTarget(): PropertyPopoverTarget | null {
+    const hovered = Array.from(
+      this.containerEl.querySelectorAll<HTMLElement>(`[${SELECTION_ID_ATTRIBUTE}]:hover`)
+    ).pop();
+    const selectedId = this.selection.getIds().pop();
+    const anchorEl = hovered
+      ?? (selectedId ? this.containerEl.querySelector<HTMLElement>(`[${SELECTION_ID_ATTRIBUTE}="${CSS.escape(selectedId)}"]`) : null);
+
+    const path = anchorEl?.getAttribute(SELECTION_ID_ATTRIBUTE);
+    const file = path ? this.app.vault.getFileByPath(path) : null;
+
+    return anchorEl && file ? { file, anchorEl } : null;
+  }
+
+  /**
+   * Handle undo/redo shortcuts and Escape (clears the selection) while the view has focus
+   */
+  private handleKeyDown(event: KeyboardEvent): void {
+    // Leave text fields to their native undo
+    const target = event.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+      return;
+    }
+
+    if (event.key === 'Escape' && this.selection.size > 0) {
+      event.preventDefault();
+      this.selection.clear();
+      return;
+    }
+
+    if (!Keymap.isModifier(event, 'Mod') || event.altKey || event.key.toLowerCase() !== 'z') {
+      return;
+    }
+
+    event.preventDefault();
+    if (event.shiftKey) {
+      void this.redo();
+    } else {
+      void this.undo();
+    }
   }
 
   /**
@@ -94,6 +451,10 @@ export abstract class ReactBasesView extends BasesView implements HoverParent {
     // Data is in this.data (inherited from BasesView)
     // Render even with empty data to show empty state UI
     if (this.data) {
+      // Drop optimistic values the new data already contains
+      this.pendingChanges.reconcile();
+      // Forget selected notes that left the view (deleted, moved or filtered out)
+      this.selection.retain(new Set(this.data.data.map((entry) => entry.file.path)));
       this.render();
     } else {
       this.showLoadingMessage();
@@ -105,6 +466,11 @@ export abstract class ReactBasesView extends BasesView implements HoverParent {
    * Unmounts React component and cleans up resources.
    */
   override onunload(): void {
+    unregisterView(this);
+    this.pendingChanges.clear();
+    this.selection.clear();
+    this.propertyPopover.close();
+    this.viewState.flush();
     if (this.root) {
       this.root.unmount();
       this.root = null;
@@ -0,0 +1,178 @@
+import { Keymap } from 'obsidian';
+import { ItemSelection } from '../../utils/itemSelection';
+
+/** Attribute that marks a selectable card, bar or event with its id */
+export const SELECTION_ID_ATTRIBUTE = 'data-selection-id';
+
+/** Minimal pointer travel before a Shift-drag counts as a lasso (px) */
+const LASSO_THRESHOLD = 4;
+
+/**
+ * Check whether a pointer event selects instead of opening or dragging:
+ * Ctrl/Cmd toggles an item, Shift selects a range or draws a lasso.
+ * With Alt held the click opens the note instead (see createNoteOpener).
+ */
+export function isSelectionGesture(event: MouseEvent): boolean {
+  return (event.shiftKey || Keymap.isModifier(event, 'Mod')) && !event.altKey;
+}
+
+/**
+ * Handle pointerdown (capture phase) on a view container.
+ * With a selection modifier held, it keeps items from starting their own drags,
+ * and a Shift-drag on the background draws a lasso.
+ *
+ * @param event - Pointer event on the container
+ * @param container - Root element of the view
+ * @param selection - Selection of the view
+ */
+export function handleSelectionPointerDown(
+  event: PointerEvent,
+  container: HTMLElement,
+  selection: ItemSelection
+): void {
+  if (event.button !== 0 || !isSelectionGesture(event) || isControl(event.target)) return;
+
+  const item = findItemElement(event.target, container);
+  if (item) {
+    // The click that follows selects the item (see handleSelectionClick)
+    event.preventDefault();
+    event.stopPropagation();
+    return;
+  }
+
+  if (event.shiftKey) {
+    // Also suppresses the mousedown that would start creating an event or task
+    event.preventDefault();
+    event.stopPropagation();
+    startLasso(event, container, selection);
+  }
+}
+
+/**
+ * Handle click (capture phase) on a view container.
+ * Ctrl/Cmd-click toggles an item, Shift-click selects every item between the
+ * last toggled one and the clicked one (in document order).
+ *
+ * @param event - Click on the container
+ * @param container - Root element of the view
+ * @param selection - Selection of the view
+ */
+export function handleSelectionClick(
+  event: MouseEvent,
+  container: HTMLElement,
+  selection: ItemSelection
+): void {
+  if (!isSelectionGesture(event) || isControl(event.target)) return;
+
+  const item = findItemElement(event.target, container);
+  if (!item) {
+    // Ends a lasso; don't let it create anything on the background
+    if (event.shiftKey) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const id = item.getAttribute(SELECTION_ID_ATTRIBUTE)!;
+  if (!event.shiftKey || !selection.anchor) {
+    selection.toggle(id);
+    return;
+  }
+
+  const ids = getItemIds(container);
+  const from = ids.indexOf(selection.anchor);
+  const to = ids.indexOf(id);
+  if (from === -1 || to === -1) {
+    selection.toggle(id);
+    return;
+  }
+
+  const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+  selection.set([...selection.getIds(), ...range]);
+}
+
+/**
+ * Draw a rectangle following the pointer and select the items it touches,
+ * in addition to those selected before.
+ */
+function startLasso(event: PointerEvent, container: HTMLElement, selection: ItemSelection): void {
+  const startX = event.clientX;
+  const startY = event.clientY;
+  const initialIds = selection.getIds();
+  const items = Array.from(container.querySelectorAll<HTMLElement>(`[${SELECTION_ID_ATTRIBUTE}]`));
+  let lasso: HTMLElement | null = null;
+  let lastHitKey = '';
+
+  const handlePointerMove = (moveEvent: PointerEvent) => {
+    const left = Math.min(startX, moveEvent.clientX);
+    const top = Math.min(startY, moveEvent.clientY);
+    const right = Math.max(startX, moveEvent.clientX);
+    const bottom = Math.max(startY, moveEvent.clientY);
+
+    if (!lasso) {
+      if (right - left < LASSO_THRESHOLD && bottom - top < LASSO_THRESHOLD) return;
+      lasso = document.body.createDiv({ cls: 'bv-lasso' });
+    }
+    lasso.setCssStyles({
+      left: `${left}px`,
+      top: `${top}px`,
+      width: `${right - left}px`,
+      height: `${bottom - top}px`,
+    });
+
+    const hits = new Set<string>();
+    items.forEach((item) => {
+      const rect = item.getBoundingClientRect();
+      if (rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top) {
+        hits.add(item.getAttribute(SELECTION_ID_ATTRIBUTE)!);
+      }
+    });
+
+    // Only notify the view when the set of touched items changes
+    const hitKey = Array.from(hits).join('\n');
+    if (hitKey !== lastHitKey) {
+      lastHitKey = hitKey;
+      selection.set([...initialIds, ...hits]);
+    }
+  };
+
+  const handlePointerUp = () => {
+    lasso?.remove();
+    document.removeEventListener('pointermove', handlePointerMove);
+    document.removeEventListener('pointerup', handlePointerUp);
+  };
+
+  document.addEventListener('pointermove', handlePointerMove);
+  document.addEventListener('pointerup', handlePointerUp);
+}
+
+/**
+ * Find the selectable item an event target belongs to.
+ */
+function findItemElement(target: EventTarget | null, container: HTMLElement): HTMLElement | null {
+  if (!(target instanceof Element)) return null;
+  const item = target.closest<HTMLElement>(`[${SELECTION_ID_ATTRIBUTE}]`);
+  return item && container.contains(item) ? item : null;
+}
+
+/**
+ * Ids of all selectable items in document order (multi-week events appear once).
+ */
+function getItemIds(container: HTMLElement): string[] {
+  const ids = Array.from(container.querySelectorAll(`[${SELECTION_ID_ATTRIBUTE}]`))
+    .map((item) => item.getAttribute(SELECTION_ID_ATTRIBUTE)!);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Leave text fields (inline renames) and buttons to their own Shift/Ctrl handling.
+ */
+function isControl(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable ||
+      target.closest('button') !== null);
+}
@@ -0,0 +1,57 @@
+import { GanttTimelineStep } from '../../types/view-config';
+import type { GanttExportFormat } from '../gantt/utils/ganttExport';
+import type { GanttExportTarget } from '../gantt/hooks/useGanttExport';
+import type { ViewData } from '../../utils/viewDataExport';
+
+/**
+ * Actions a view's React tree exposes to plugin commands.
+ * Each view registers only the actions it supports;
+ * commands are hidden from the palette when the active view lacks them.
+ */
+export interface ViewCommandHandlers {
+  goToToday?: () => void;
+  nextPeriod?: () => void;
+  previousPeriod?: () => void;
+  setCalendarMode?: (mode: 'month' | 'week' | 'day') => void;
+  setTimelineStep?: (step: GanttTimelineStep) => void;
+  createItem?: () => void;
+  collapseAllGroups?: () => void;
+  expandAllGroups?: () => void;
+  scrollToToday?: () => void;
+  exportICalendar?: () => void;
+  importICalendar?: () => void;
+  importKanban?: () => void;
+  exportKanban?: () => void;
+  exportGantt?: (format: GanttExportFormat, target: GanttExportTarget) => void;
+  getViewData?: () => ViewData;
+}
+
+/**
+ * Holds the command handlers of a single view.
+ * The React component registers its handlers; plugin commands look them up.
+ */
+export class ViewCommandRegistry {
+  private handlers: ViewCommandHandlers = {};
+
+  /**
+   * Replace the view's handlers.
+   *
+   * @param handlers - Handlers from the view's React component
+   * @returns Function that removes these handlers again
+   */
+  register(handlers: ViewCommandHandlers): () => void {
+    this.handlers = handlers;
+    return () => {
+      if (this.handlers === handlers) {
+        this.handlers = {};
+      }
+    };
+  }
+
+  /**
+   * Get a handler, or undefined if the view doesn't support the action.
+   */
+  get<K extends keyof ViewCommandHandlers>(name: K): ViewCommandHandlers[K] {
+    return this.handlers[name];
+  }
+}
@@ -0,0 +1,65 @@
+import { TFile } from 'obsidian';
+import { t } from '../../i18n';
+
+/**
+ * View options shared by all views.
+ * Per-view overrides of the plugin's note-creation settings;
+ * empty values fall back to the settings tab defaults.
+ */
+export function getNoteCreationViewOptions() {
+  return [
+    {
+      type: 'group',
+      displayName: t('options.newNotes'),
+      items: [
+        {
+          key: 'newNoteFolder',
+          displayName: t('options.folder'),
+          type: 'folder',
+          placeholder: t('common.pluginDefault'),
+        },
+        {
+          key: 'newNoteNameTemplate',
+          displayName: t('options.fileName'),
+          type: 'text',
+          placeholder: '{{title}}',
+        },
+        {
+          key: 'newNoteTemplate',
+          displayName: t('options.template'),
+          type: 'file',
+          placeholder: t('common.pluginDefault'),
+          filter: (file: TFile) => file.extension === 'md',
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * View options shared by all views.
+ * The property that colors task bars and events, and explicit colors for its
+ * values (`High: red, Low: #4dab9a`); other values get a color from their hash.
+ */
+export function getColorViewOptions() {
+  return [
+    {
+      type: 'group',
+      displayName: t('options.colors'),
+      items: [
+        {
+          key: 'colorProperty',
+          displayName: t('options.colorBy'),
+          type: 'property',
+          placeholder: t('common.selectPropertyOptional'),
+        },
+        {
+          key: 'colorMappings',
+          displayName: t('options.colorMappings'),
+          type: 'text',
+          placeholder: 'High: red, Low: green',
+        },
+      ],
+    },
+  ];
+}
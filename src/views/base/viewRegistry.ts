@@ -0,0 +1,59 @@
+import { ReactBasesView } from './ReactBasesView';
+
+/**
+ * Registry of open Bases views rendered by this plugin.
+ * Lets plugin-level commands find the view the user is working in.
+ */
+const openViews = new Set<ReactBasesView>();
+let activeView: ReactBasesView | null = null;
+
+/**
+ * Register a view when it is loaded.
+ */
+export function registerView(view: ReactBasesView): void {
+  openViews.add(view);
+}
+
+/**
+ * Remove a view when it is unloaded.
+ */
+export function unregisterView(view: ReactBasesView): void {
+  openViews.delete(view);
+  if (activeView === view) {
+    activeView = null;
+  }
+}
+
+/**
+ * Mark a view as the one the user last interacted with.
+ */
+export function setActiveView(view: ReactBasesView): void {
+  if (openViews.has(view)) {
+    activeView = view;
+  }
+}
+
+/**
+ * Get the view the user last interacted with, if it is still visible.
+ */
+export function getActiveView(): ReactBasesView | null {
+  if (!activeView || !activeView.isVisible()) {
+    return null;
+  }
+  return activeView;
+}
+
+/**
+ * Re-render all open views (called after plugin settings change).
+ */
+export function refreshViews(): void {
+  openViews.forEach((view) => view.refresh());
+}
+
+/**
+ * Forget all registered views (called on plugin unload).
+ */
+export function clearViews(): void {
+  openViews.clear();
+  activeView = null;
+}
@@ -0,0 +1,87 @@
+import { BasesViewConfig, debounce, Debouncer } from 'obsidian';
+
+/**
+ * UI state a view remembers across re-renders, tab switches and restarts.
+ * Each value is stored under its key in the view's Bases config.
+ */
+export interface ViewStateValues {
+  /** Collapsed Board swimlanes (sub-group keys) */
+  collapsedRows: string[];
+  /** Date the Calendar shows (yyyy-MM-dd); empty to follow today */
+  calendarDate: string;
+  /** Horizontal scroll offset of the Gantt chart (px) */
+  ganttScrollLeft: number;
+  /** Vertical scroll offset of the Calendar day grid (px) */
+  dayScrollTop: number;
+  /** Query typed into the filter bar; empty shows every note of the base */
+  quickFilter: string;
+}
+
+export type ViewStateKey = keyof ViewStateValues;
+
+/** Delay before frequent updates (scrolling) are written to the config (ms) */
+const DEFERRED_SAVE_DELAY = 500;
+
+/**
+ * Reads and writes a view's UI state in its Bases config.
+ * Values of the wrong type (e.g. edited by hand) are ignored.
+ */
+export class ViewStateStore {
+  private deferred = new Map<ViewStateKey, unknown>();
+  private saveDeferred: Debouncer<[], void>;
+
+  constructor(private getConfig: () => BasesViewConfig) {
+    this.saveDeferred = debounce(() => this.flush(), DEFERRED_SAVE_DELAY, true);
+  }
+
+  /**
+   * Read a value, falling back when it's missing or has the wrong type.
+   *
+   * @param key - State key
+   * @param fallback - Value to use when nothing valid is stored
+   * @returns Stored or fallback value
+   */
+  get<K extends ViewStateKey>(key: K, fallback: ViewStateValues[K]): ViewStateValues[K] {
+    const value = this.deferred.has(key) ? this.deferred.get(key) : this.getConfig().get(key);
+    return isSameType(value, fallback) ? value : fallback;
+  }
+
+  /**
+   * Write a value right away.
+   */
+  set<K extends ViewStateKey>(key: K, value: ViewStateValues[K]): void {
+    this.deferred.delete(key);
+    this.getConfig().set(key, value);
+  }
+
+  /**
+   * Write a value once updates stop for a moment (for scroll positions).
+   */
+  setDeferred<K extends ViewStateKey>(key: K, value: ViewStateValues[K]): void {
+    this.deferred.set(key, value);
+    this.saveDeferred();
+  }
+
+  /**
+   * Write deferred values now (called when the view closes).
+   */
+  flush(): void {
+    this.saveDeferred.cancel();
+    const config = this.getConfig();
+    this.deferred.forEach((value, key) => config.set(key, value));
+    this.deferred.clear();
+  }
+}
+
+/**
+ * Check that a stored value has the same type as the fallback.
+ */
+function isSameType<T>(value: unknown, fallback: T): value is T {
+  if (Array.isArray(fallback)) {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  }
+  if (typeof fallback === 'number') {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+  return typeof value === typeof fallback;
+}
@@ -3,6 +3,10 @@ import * as React from 'react';
 import { ReactBasesView } from '../base/ReactBasesView';
 import { BoardView } from './BoardView';
 import { ErrorBoundary } from '../../components/shared/ErrorBoundary';
+import { getColorViewOptions, getNoteCreationViewOptions } from '../base/viewOptions';
+import { toPropertyId } from '../../utils/propertyId';
+import type BasesCustomViewsPlugin from '../../main';
+import { t } from '../../i18n';
 
 export const BoardViewType = 'bases-board';
 
@@ -13,31 +17,36 @@ export const BoardViewType = 'bases-board';
 export class BoardBasesView extends ReactBasesView {
   type = BoardViewType;
 
-  constructor(controller: QueryController, containerEl: HTMLElement) {
-    super(controller, containerEl);
+  constructor(controller: QueryController, containerEl: HTMLElement, plugin: BasesCustomViewsPlugin) {
+    super(controller, containerEl, plugin);
   }
 
   /**
-   * Extract property name from BasesPropertyId (format: "type.propertyName")
+   * Cards can be moved between columns from the context menu
    */
-  private extractPropertyName(propertyId: unknown): string {
-    if (!propertyId || typeof propertyId !== 'string') return '';
-    // BasesPropertyId format is "type.propertyName" (e.g., "text.status")
-    const parts = propertyId.split('.');
-    return parts.length > 1 ? parts.slice(1).join('.') : propertyId;
+  protected override getGroupByProperty(): string {
+    return this.getPropertyOption('groupByProperty') || 'note.status';
   }
 
   /**
    * Get the React component to render
    */
   protected getReactComponent(data: BasesQueryResult): React.ReactElement {
-    // Get options from config - property type returns BasesPropertyId like "text.status"
-    const rawGroupBy = this.config.get('groupByProperty');
-    const rawSubGroupBy = this.config.get('subGroupByProperty');
+    // Get options from config - property type returns BasesPropertyId like "note.status"
     const columnOrder = (this.config.get('columnOrder') as string[] | undefined) || [];
+    const columnLimits = (this.config.get('columnLimits') as Record<string, number> | undefined) || {};
+    const strictLimits = this.config.get('strictLimits') === true;
 
-    const groupByProperty = this.extractPropertyName(rawGroupBy) || 'status';
-    const subGroupByProperty = this.extractPropertyName(rawSubGroupBy) || '';
+    const groupByProperty = this.getPropertyOption('groupByProperty') || 'note.status';
+    const subGroupByProperty = this.getPropertyOption('subGroupByProperty') || '';
+    const dateBuckets = this.config.get('dateBuckets') === true;
+    const cardSortProperty = this.getPropertyOption('cardSortProperty');
+    const cardSortDirection = this.config.get('cardSortDirection') === 'desc' ? 'desc' : 'asc';
+    const rankProperty = (this.config.get('rankProperty') as string | undefined)?.trim() || 'rank';
+    const cardProperties = ((this.config.get('cardProperties') as string[] | undefined) || [])
+      .map((value) => toPropertyId(typeof value === 'string' ? value.trim() : value))
+      .filter(Boolean);
+    const showPropertyNames = this.config.get('showPropertyNames') === true;
 
     // Wrap in ErrorBoundary to catch React errors
     return React.createElement(
@@ -49,12 +58,25 @@ export class BoardBasesView extends ReactBasesView {
           groupByProperty,
           subGroupByProperty,
           columnOrder,
+          cardSortProperty,
+          cardSortDirection,
+          rankProperty,
+          columnLimits,
+          strictLimits,
+          cardProperties,
+          showPropertyNames,
+          dateBuckets,
+          dateFormats: this.plugin.settings.dateFormats,
         },
         app: this.app,
         hoverParent: this,
+        newNoteOptions: this.getNoteCreationOptions(),
         onColumnOrderChange: (order: string[]) => {
           this.config.set('columnOrder', order);
         },
+        onColumnLimitsChange: (limits: Record<string, number>) => {
+          this.config.set('columnLimits', limits);
+        },
       })
     );
   }
@@ -66,18 +88,80 @@ export class BoardBasesView extends ReactBasesView {
     return [
       {
         key: 'groupByProperty',
-        displayName: 'Group By',
+        displayName: t('options.groupBy'),
         type: 'property',
-        default: 'status',
-        placeholder: 'Select property',
+        default: 'note.status',
+        placeholder: t('common.selectProperty'),
+      },
+      {
+        key: 'dateBuckets',
+        displayName: t('options.dateBuckets'),
+        type: 'toggle',
+        default: false,
       },
       {
         key: 'subGroupByProperty',
-        displayName: 'Sub-Group By',
+        displayName: t('options.subGroupBy'),
         type: 'property',
         default: '',
-        placeholder: 'Select property (optional)',
+        placeholder: t('common.selectPropertyOptional'),
+      },
+      {
+        type: 'group',
+        displayName: t('options.cardOrder'),
+        items: [
+          {
+            key: 'cardSortProperty',
+            displayName: t('options.sortCardsBy'),
+            type: 'property',
+            default: '',
+            placeholder: t('options.manualOrder'),
+          },
+          {
+            key: 'cardSortDirection',
+            displayName: t('options.sortDirection'),
+            type: 'dropdown',
+            default: 'asc',
+            options: {
+              asc: t('options.ascending'),
+              desc: t('options.descending'),
+            },
+          },
+          {
+            key: 'rankProperty',
+            displayName: t('options.rankProperty'),
+            type: 'text',
+            default: 'rank',
+            placeholder: 'rank',
+          },
+        ],
+      },
+      {
+        type: 'group',
+        displayName: t('options.cardLayout'),
+        items: [
+          {
+            key: 'cardProperties',
+            displayName: t('options.cardProperties'),
+            type: 'multitext',
+            default: [],
+          },
+          {
+            key: 'showPropertyNames',
+            displayName: t('options.showPropertyNames'),
+            type: 'toggle',
+            default: false,
+          },
+        ],
+      },
+      {
+        key: 'strictLimits',
+        displayName: t('options.strictLimits'),
+        type: 'toggle',
+        default: false,
       },
+      ...getColorViewOptions(),
+      ...getNoteCreationViewOptions(),
     ];
   }
 }
@@ -1,24 +1,43 @@
 import * as React from 'react';
-import { App, BasesQueryResult, HoverParent } from 'obsidian';
-import { DndContext, DragEndEvent, DragStartEvent, DragOverlay, PointerSensor, useSensor, useSensors, pointerWithin, CollisionDetection } from '@dnd-kit/core';
+import { App, BasesQueryResult, HoverParent, Menu, Notice } from 'obsidian';
+import { startOfDay } from 'date-fns';
+import { DndContext, DragEndEvent, DragStartEvent, DragOverlay, PointerSensor, useSensor, useSensors, pointerWithin, closestCenter, CollisionDetection } from '@dnd-kit/core';
 import { SortableContext, arrayMove, horizontalListSortingStrategy } from '@dnd-kit/sortable';
 import { useBoardData } from './hooks/useBoardData';
+import { useKanbanSync } from './hooks/useKanbanSync';
 import { usePropertyUpdate } from '../../hooks/usePropertyUpdate';
 import { Column } from './components/Column';
 import { GridCell } from './components/GridCell';
 import { RowHeader } from './components/RowHeader';
 import { SortableColumnHeader } from './components/SortableColumnHeader';
 import { TextInputModal } from '../../components/shared/TextInputModal';
-import { BoardViewOptions } from '../../types/view-config';
+import { FilterBar } from '../../components/shared/FilterBar';
+import { BasesEntry, BoardViewOptions, CardLayout } from '../../types/view-config';
 import { Card } from './components/Card';
+import { createNote, NoteCreationOptions } from '../../utils/noteCreator';
+import { getEntryValue } from '../../utils/basesDataAdapter';
+import { getCardId, getMovedGroupValue, getRankUpdates } from './utils/boardHelpers';
+import { getDateBucketLabel, getDateBucketValue } from './utils/dateBuckets';
+import { getFrontmatterKey, getPropertyDisplayName, isEditableProperty } from '../../utils/propertyId';
+import { getPropertyType } from '../../utils/propertyTypes';
+import { ViewData } from '../../utils/viewDataExport';
+import { reportError } from '../../utils/errorReporter';
+import { useViewCommands } from '../../context/ViewCommandsContext';
+import { useViewState } from '../../context/ViewStateContext';
+import { getDraggedItems, useSelection } from '../../context/SelectionContext';
+import { t } from '../../i18n';
 
 interface BoardViewProps {
   data: BasesQueryResult;
   options: BoardViewOptions;
   app: App;
   hoverParent: HoverParent;
+  /** Folder, file name and template for notes created from the board */
+  newNoteOptions: NoteCreationOptions;
   /** Callback to persist column order changes */
   onColumnOrderChange?: (order: string[]) => void;
+  /** Callback to persist work-in-progress limits */
+  onColumnLimitsChange?: (limits: Record<string, number>) => void;
 }
 
 /**
@@ -30,7 +49,9 @@ export const BoardView: React.FC<BoardViewProps> = ({
   options,
   app,
   hoverParent,
+  newNoteOptions,
   onColumnOrderChange,
+  onColumnLimitsChange,
 }) => {
   const {
     entries,
@@ -38,60 +59,145 @@ export const BoardView: React.FC<BoardViewProps> = ({
     groupsWithSubGroups,
     groupByProperty,
     subGroupByProperty,
-  } = useBoardData(data, app, options.groupByProperty, options.subGroupByProperty);
+  } = useBoardData(
+    data,
+    app,
+    options.groupByProperty,
+    options.subGroupByProperty,
+    options.cardSortProperty,
+    options.cardSortDirection,
+    options.rankProperty,
+    options.cardProperties,
+    options.dateBuckets,
+    options.dateFormats
+  );
+
+  // Cards can be dragged within a column unless they are sorted by a property
+  const rankProperty = options.rankProperty || 'rank';
+  const isManualOrder = !options.cardSortProperty;
+
+  // Date buckets have a fixed order and can't be renamed or added to
+  const dateBuckets = options.dateBuckets === true;
+
+  // Date buckets are keyed by their id, so saved limits survive a language change
+  const getGroupLabel = React.useCallback((groupTitle: string) => {
+    return dateBuckets ? getDateBucketLabel(groupTitle) : groupTitle;
+  }, [dateBuckets]);
 
-  // State for collapsed rows
-  const [collapsedRows, setCollapsedRows] = React.useState<Set<string>>(new Set());
+  // Collapsed rows, remembered in the view config
+  const [savedCollapsedRows, setSavedCollapsedRows] = useViewState('collapsedRows', options.collapsedRows || []);
+  const collapsedRows = React.useMemo(() => new Set(savedCollapsedRows), [savedCollapsedRows]);
 
   // State for active dragged item
   const [activeId, setActiveId] = React.useState<string | null>(null);
 
+  // Alt held while dropping adds the value to list properties instead of moving the card
+  const [isAddDrop, setIsAddDrop] = React.useState(false);
+
   // State for column order - initialize from persisted options
   const [columnOrder, setColumnOrder] = React.useState<string[]>(
     options.columnOrder || []
   );
 
-  // Sync column order with groups (add new columns, keep order of existing)
+  // Work-in-progress limits by column (per cell when sub-grouped)
+  const [columnLimits, setColumnLimits] = React.useState<Record<string, number>>(
+    options.columnLimits || {}
+  );
+
+  /**
+   * Change the limits and persist them
+   */
+  const updateColumnLimits = React.useCallback((update: (prev: Record<string, number>) => Record<string, number>) => {
+    const next = update(columnLimits);
+    setColumnLimits(next);
+    onColumnLimitsChange?.(next);
+  }, [columnLimits, onColumnLimitsChange]);
+
+  // Sync column order with groups (append new columns, keep order of existing).
+  // Columns without notes stay in the order, so they return to their place
+  // (e.g. columns of an imported board whose notes are still being written)
   React.useEffect(() => {
     const groupTitles = groups.map(([title]) => title);
     setColumnOrder((prev) => {
       // Use persisted order as base, or current state
       const baseOrder = prev.length > 0 ? prev : (options.columnOrder || []);
-      // Keep existing order for known columns, append new ones
-      const existing = baseOrder.filter((col) => groupTitles.includes(col));
       const newCols = groupTitles.filter((col) => !baseOrder.includes(col));
-      return [...existing, ...newCols];
+      return newCols.length > 0 ? [...baseOrder, ...newCols] : baseOrder;
     });
   }, [groups, options.columnOrder]);
 
+  /**
+   * Change the column order and persist it. Columns that no longer exist are
+   * left out of the saved order, except `keep` (columns whose notes are still being written)
+   */
+  const updateColumnOrder = React.useCallback((order: string[], keep: string[] = []) => {
+    const existing = new Set(groups.map(([title]) => title));
+    const newOrder = order.filter((col) => existing.has(col) || keep.includes(col));
+    setColumnOrder(newOrder);
+    onColumnOrderChange?.(newOrder);
+  }, [groups, onColumnOrderChange]);
+
   // Get ordered groups based on columnOrder
   const orderedGroups = React.useMemo(() => {
+    if (dateBuckets) return groups;
     const groupMap = new Map(groups);
     return columnOrder
       .filter((col) => groupMap.has(col))
       .map((col) => [col, groupMap.get(col)!] as [string, typeof groups[0][1]]);
-  }, [groups, columnOrder]);
+  }, [groups, columnOrder, dateBuckets]);
+
+  /**
+   * Put the columns of an imported board first, in the board's order, and persist
+   */
+  const handleColumnsImported = React.useCallback((importedColumns: string[]) => {
+    const newOrder = [...importedColumns, ...columnOrder.filter((col) => !importedColumns.includes(col))];
+    updateColumnOrder(newOrder, importedColumns);
+  }, [columnOrder, updateColumnOrder]);
+
+  // Cards by drag id, with the drop id of the cell (column, or column:row) they are in.
+  // Notes with a list value have a card in the cell of each item
+  const cards = React.useMemo(() => {
+    const result = new Map<string, { entry: BasesEntry; cell: string }>();
+    groupsWithSubGroups.forEach((subGroups, groupKey) => {
+      subGroups.forEach((subGroupEntries, subGroupKey) => {
+        const cell = subGroupByProperty ? `${groupKey}:${subGroupKey}` : groupKey;
+        subGroupEntries.forEach((entry) => result.set(getCardId(cell, entry.id), { entry, cell }));
+      });
+    });
+    return result;
+  }, [groupsWithSubGroups, subGroupByProperty]);
 
   // Find the active entry for drag overlay
   const activeEntry = React.useMemo(() => {
     if (!activeId) return null;
-    return entries.find((e) => e.id === activeId) || null;
-  }, [activeId, entries]);
+    return cards.get(activeId)?.entry ?? null;
+  }, [activeId, cards]);
+
+  // Follow the Alt key while a card is dragged
+  React.useEffect(() => {
+    if (!activeId || activeId.startsWith('column:')) return;
+    const handleKey = (e: KeyboardEvent) => setIsAddDrop(e.altKey);
+    document.addEventListener('keydown', handleKey);
+    document.addEventListener('keyup', handleKey);
+    return () => {
+      document.removeEventListener('keydown', handleKey);
+      document.removeEventListener('keyup', handleKey);
+    };
+  }, [activeId]);
 
   // Toggle row collapse state
   const toggleRowCollapse = React.useCallback((rowKey: string) => {
-    setCollapsedRows((prev) => {
-      const next = new Set(prev);
-      if (next.has(rowKey)) {
-        next.delete(rowKey);
-      } else {
-        next.add(rowKey);
-      }
-      return next;
-    });
-  }, []);
+    const next = new Set(collapsedRows);
+    if (next.has(rowKey)) {
+      next.delete(rowKey);
+    } else {
+      next.add(rowKey);
+    }
+    setSavedCollapsedRows(Array.from(next));
+  }, [collapsedRows, setSavedCollapsedRows]);
 
-  const { updateProperty } = usePropertyUpdate(app);
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
+  const selection = useSelection();
 
   // Configure drag sensors
   const sensors = useSensors(
@@ -102,26 +208,53 @@ export const BoardView: React.FC<BoardViewProps> = ({
     })
   );
 
-  // Custom collision detection that only considers cells/columns (not cards)
-  const cellOnlyCollision: CollisionDetection = React.useCallback((args) => {
+  /**
+   * Cell a drop target belongs to (cards resolve to their cell, sortable columns to their content)
+   */
+  const getDropCell = React.useCallback((overId: string) => {
+    return cards.get(overId)?.cell ?? (overId.startsWith('column:') ? overId.slice('column:'.length) : overId);
+  }, [cards]);
+
+  /**
+   * Entries with a card in a cell, in card order
+   */
+  const getCellEntries = (cell: string) => {
+    return entries.filter((entry) => cards.has(getCardId(cell, entry.id)));
+  };
+
+  /**
+   * Whether a group property holds a list (tags, multitext), judged by its value and assigned type
+   */
+  const isListProperty = React.useCallback((propertyId: string, value: unknown) => {
+    const key = getFrontmatterKey(propertyId);
+    return Array.isArray(value) || (key !== null && getPropertyType(app, key, value) === 'list');
+  }, [app]);
+
+  // Collision detection that finds the cell/column under the pointer, then,
+  // in manual order, the card of that cell closest to the dragged one
+  const cellCollision: CollisionDetection = React.useCallback((args) => {
     const { droppableContainers, ...rest } = args;
 
-    // Filter to only include cell/column droppables (exclude card IDs which are file paths)
-    const cellContainers = droppableContainers.filter((container) => {
-      const id = String(container.id);
-      // Card IDs are file paths (contain '/' or end with '.md')
-      const isCardId = id.includes('/') || id.endsWith('.md');
-      return !isCardId;
-    });
+    const cellContainers = droppableContainers.filter((container) => !cards.has(String(container.id)));
+    const cellCollisions = pointerWithin({ ...rest, droppableContainers: cellContainers });
+
+    const isColumnDrag = String(args.active.id).startsWith('column:');
+    if (!isManualOrder || isColumnDrag || cellCollisions.length === 0) {
+      return cellCollisions;
+    }
 
-    return pointerWithin({ ...rest, droppableContainers: cellContainers });
-  }, []);
+    const cell = getDropCell(String(cellCollisions[0].id));
+    const cardContainers = droppableContainers.filter((container) => cards.get(String(container.id))?.cell === cell);
+    const cardCollisions = closestCenter({ ...rest, droppableContainers: cardContainers });
+    return cardCollisions.length > 0 ? cardCollisions : cellCollisions;
+  }, [cards, getDropCell, isManualOrder]);
 
   /**
    * Handle drag start - track active dragged item
    */
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string);
+    setIsAddDrop(event.activatorEvent instanceof MouseEvent && event.activatorEvent.altKey);
   };
 
   /**
@@ -138,72 +271,286 @@ export const BoardView: React.FC<BoardViewProps> = ({
 
     // Check if this is a column reorder (column IDs are prefixed with "column:")
     if (activeIdStr.startsWith('column:') && overIdStr.startsWith('column:')) {
+      if (dateBuckets) return;
       const activeColumn = activeIdStr.replace('column:', '');
       const overColumn = overIdStr.replace('column:', '');
 
       if (activeColumn !== overColumn) {
-        setColumnOrder((prev) => {
-          const oldIndex = prev.indexOf(activeColumn);
-          const newIndex = prev.indexOf(overColumn);
-          const newOrder = arrayMove(prev, oldIndex, newIndex);
-          // Persist the new column order
-          onColumnOrderChange?.(newOrder);
-          return newOrder;
-        });
+        const oldIndex = columnOrder.indexOf(activeColumn);
+        const newIndex = columnOrder.indexOf(overColumn);
+        updateColumnOrder(arrayMove(columnOrder, oldIndex, newIndex));
       }
       return;
     }
 
     // Handle card drop
-    const entry = entries.find((e) => e.id === activeIdStr);
-    if (!entry) return;
+    const dragged = cards.get(activeIdStr);
+    if (!dragged) return;
+    const { entry } = dragged;
 
     // Parse drop target ID (format: "group:subgroup" or just "group")
-    const [newGroupValue, newSubGroupValue] = overIdStr.split(':');
+    const dropCell = getDropCell(overIdStr);
+    const [newGroupValue, newSubGroupValue] = dropCell.split(':');
+    const [oldGroupValue, oldSubGroupValue] = dragged.cell.split(':');
+
+    // Selected cards move together with the dragged one, keeping their order
+    const movedEntries = getDraggedItems(entry, entries, selection);
+    movedEntries.sort((a, b) => entries.indexOf(a) - entries.indexOf(b));
+
+    // List values only swap the item of the column the card left (or gain one with Alt)
+    const moves = movedEntries.map((movedEntry) => {
+      const currentGroupValue = getEntryValue(movedEntry, groupByProperty);
+      const currentSubGroupValue = subGroupByProperty
+        ? getEntryValue(movedEntry, subGroupByProperty)
+        : undefined;
+
+      return {
+        file: movedEntry.file,
+        groupValue: dateBuckets
+          ? getDateBucketValue(currentGroupValue, newGroupValue, startOfDay(new Date()), options.dateFormats)
+          : getMovedGroupValue(
+            currentGroupValue,
+            oldGroupValue,
+            newGroupValue,
+            isListProperty(groupByProperty, currentGroupValue),
+            isAddDrop
+          ),
+        subGroupValue: subGroupByProperty && newSubGroupValue
+          ? getMovedGroupValue(
+            currentSubGroupValue,
+            oldSubGroupValue,
+            newSubGroupValue,
+            isListProperty(subGroupByProperty, currentSubGroupValue),
+            isAddDrop
+          )
+          : undefined,
+      };
+    });
+    const groupChanged = moves.some((move) => move.groupValue !== undefined);
+    const subGroupChanged = moves.some((move) => move.subGroupValue !== undefined);
 
-    const currentGroupValue = entry.properties[groupByProperty];
-    const currentSubGroupValue = subGroupByProperty
-      ? entry.properties[subGroupByProperty]
-      : undefined;
+    // Formula and file properties can't be changed by moving the card
+    if (
+      (groupChanged && !ensureEditable(groupByProperty)) ||
+      (subGroupChanged && !ensureEditable(subGroupByProperty))
+    ) {
+      return;
+    }
 
-    // Update group property if changed
-    if (String(currentGroupValue) !== newGroupValue) {
-      void updateProperty(entry.file, groupByProperty, newGroupValue);
+    // In strict mode a full column (or cell) doesn't take more cards
+    const limit = columnLimits[newGroupValue];
+    if (options.strictLimits && limit !== undefined) {
+      const cellEntries = getCellEntries(dropCell);
+      const incoming = movedEntries.filter((movedEntry) => !cellEntries.includes(movedEntry)).length;
+      if (incoming > 0 && cellEntries.length + incoming > limit) {
+        new Notice(t('board.limitReached', { column: getGroupLabel(newGroupValue), limit }));
+        return;
+      }
     }
 
-    // Update sub-group property if changed
-    if (
-      subGroupByProperty &&
-      newSubGroupValue &&
-      String(currentSubGroupValue) !== newSubGroupValue
-    ) {
-      void updateProperty(entry.file, subGroupByProperty, newSubGroupValue);
+    const rankUpdates = isManualOrder ? getDropRanks(movedEntries, overIdStr, dropCell) : [];
+    if (rankUpdates.length === 0 && !groupChanged && !subGroupChanged) {
+      return;
     }
+
+    // Group, sub-group and rank changes of all moved cards are undone together
+    const batch = startBatch(t('history.moveCard'));
+
+    rankUpdates.forEach(([rankedEntry, rank]) => {
+      void updateProperty(rankedEntry.file, `note.${rankProperty}`, rank, batch);
+    });
+
+    moves.forEach(({ file, groupValue, subGroupValue }) => {
+      // Update group property if changed
+      if (groupValue !== undefined) {
+        void updateProperty(file, groupByProperty, groupValue, batch);
+      }
+
+      // Update sub-group property if changed
+      if (subGroupValue !== undefined) {
+        void updateProperty(file, subGroupByProperty, subGroupValue, batch);
+      }
+    });
   };
 
+  /**
+   * Ranks that put dropped cards at their new place in the target cell.
+   * Cards dropped on another card go before it, or after it when moved down
+   * within the same cell; cards dropped on the cell itself go last.
+   */
+  const getDropRanks = (movedEntries: BasesEntry[], overId: string, dropCell: string) => {
+    const movedIds = new Set(movedEntries.map((movedEntry) => movedEntry.id));
+    const cellEntries = getCellEntries(dropCell);
+    const others = cellEntries.filter((cellEntry) => !movedIds.has(cellEntry.id));
+    const overEntry = cards.get(overId)?.entry;
+
+    // Dropped on itself: the cards stay where they are
+    if (overEntry && movedIds.has(overEntry.id)) {
+      return [];
+    }
+
+    let insertAt = others.length;
+    if (overEntry) {
+      insertAt = others.indexOf(overEntry);
+      const activeIndex = cellEntries.indexOf(movedEntries[0]);
+      const overIndex = cellEntries.indexOf(overEntry);
+      if (activeIndex !== -1 && overIndex > activeIndex) {
+        insertAt += 1;
+      }
+    }
+
+    const ordered = [...others.slice(0, insertAt), ...movedEntries, ...others.slice(insertAt)];
+    if (ordered.every((orderedEntry, index) => orderedEntry === cellEntries[index])) {
+      return [];
+    }
+
+    return getRankUpdates(ordered, insertAt, movedEntries.length, rankProperty);
+  };
+
+  /**
+   * Group property of a note created in a column; date buckets get a date of the period
+   */
+  const getNewNoteGroupProperties = React.useCallback((groupValue: string): Record<string, unknown> => {
+    if (!dateBuckets) {
+      return { [groupByProperty]: groupValue };
+    }
+    const date = getDateBucketValue(undefined, groupValue, startOfDay(new Date()), options.dateFormats);
+    return date ? { [groupByProperty]: date } : {};
+  }, [dateBuckets, groupByProperty, options.dateFormats]);
+
   /**
    * Create a new note with pre-filled properties for the cell
    */
   const handleNewPage = React.useCallback(async (dropId: string) => {
     const [groupValue, subGroupValue] = dropId.split(':');
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const fileName = `Untitled ${timestamp}.md`;
-
-    // Build frontmatter
-    let frontmatter = `---\n${groupByProperty}: "${groupValue}"`;
+    // Pre-fill the cell's group values
+    const properties = getNewNoteGroupProperties(groupValue);
     if (subGroupByProperty && subGroupValue) {
-      frontmatter += `\n${subGroupByProperty}: "${subGroupValue}"`;
+      properties[subGroupByProperty] = subGroupValue;
     }
-    frontmatter += `\n---\n\n`;
+
+    const create = async () => {
+      await createNote(app, newNoteOptions, { title: t('common.untitled'), group: getGroupLabel(groupValue), properties });
+    };
 
     try {
-      await app.vault.create(fileName, frontmatter);
+      await create();
     } catch (error) {
-      console.error('Failed to create new page:', error);
+      reportError({ action: t('action.createPage'), error, retry: create });
+    }
+  }, [app, newNoteOptions, subGroupByProperty, getNewNoteGroupProperties, getGroupLabel]);
+
+  /**
+   * Cards of a column across all sub-groups
+   */
+  const getColumnEntries = React.useCallback((groupTitle: string) => {
+    return Array.from(groupsWithSubGroups.get(groupTitle)?.values() ?? []).flat();
+  }, [groupsWithSubGroups]);
+
+  /**
+   * Rename a column by prompting for the new name and updating the group property of all its cards
+   */
+  const handleRenameGroup = React.useCallback((oldName: string) => {
+    if (!ensureEditable(groupByProperty)) return;
+
+    new TextInputModal(
+      app,
+      t('board.renameGroupTitle'),
+      async (newName) => {
+        if (newName === oldName) return;
+
+        // Keep the column in its place (merged into the other column if the name exists)
+        const newOrder = columnOrder.includes(newName)
+          ? columnOrder.filter((col) => col !== oldName)
+          : columnOrder.map((col) => (col === oldName ? newName : col));
+        updateColumnOrder(newOrder, [newName]);
+
+        // The limit follows the column unless the other column has its own
+        if (columnLimits[oldName] !== undefined) {
+          updateColumnLimits(({ [oldName]: limit, ...rest }) => ({ [newName]: limit, ...rest }));
+        }
+
+        // Update each card's group property (undone as a single step); lists keep their other items
+        const batch = startBatch(t('history.renameGroup', { name: oldName }));
+        for (const entry of new Set(getColumnEntries(oldName))) {
+          const value = getEntryValue(entry, groupByProperty);
+          const renamed = getMovedGroupValue(value, oldName, newName, isListProperty(groupByProperty, value));
+          if (renamed !== undefined) {
+            await updateProperty(entry.file, groupByProperty, renamed, batch);
+          }
+        }
+      },
+      t('board.groupNamePlaceholder'),
+      t('common.name'),
+      t('menu.rename')
+    ).setValue(oldName).open();
+  }, [app, groupByProperty, getColumnEntries, columnOrder, updateColumnOrder, columnLimits, updateColumnLimits, updateProperty, ensureEditable, startBatch, isListProperty]);
+
+  /**
+   * Prompt for the work-in-progress limit of a column
+   */
+  const handleSetLimit = React.useCallback((groupTitle: string) => {
+    const modal = new TextInputModal(
+      app,
+      t('board.limitTitle', { column: getGroupLabel(groupTitle) }),
+      (value) => {
+        const limit = Number(value);
+        if (!Number.isInteger(limit) || limit < 1) {
+          new Notice(t('board.invalidLimit'));
+          return;
+        }
+        updateColumnLimits((prev) => ({ ...prev, [groupTitle]: limit }));
+      },
+      '5',
+      subGroupByProperty ? t('board.limitPerRowLabel') : t('board.limitLabel'),
+      t('common.apply')
+    );
+    const current = columnLimits[groupTitle];
+    if (current !== undefined) {
+      modal.setValue(String(current));
     }
-  }, [app, groupByProperty, subGroupByProperty]);
+    modal.open();
+  }, [app, subGroupByProperty, columnLimits, updateColumnLimits, getGroupLabel]);
+
+  /**
+   * Show the menu of a column header
+   */
+  const handleColumnContextMenu = React.useCallback((groupTitle: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const menu = new Menu();
+    // "Uncategorized" stands for cards without a value, so it can't be renamed
+    if (groupTitle !== 'Uncategorized' && !dateBuckets && isEditableProperty(groupByProperty)) {
+      menu.addItem((item) => item
+        .setTitle(t('menu.renameGroup'))
+        .setIcon('pencil')
+        .onClick(() => handleRenameGroup(groupTitle)));
+    }
+    menu.addItem((item) => item
+      .setTitle(t('menu.newPage'))
+      .setIcon('file-plus')
+      .onClick(() => void handleNewPage(groupTitle)));
+    if (selection) {
+      menu.addItem((item) => item
+        .setTitle(t('menu.selectGroup'))
+        .setIcon('check-square')
+        .onClick(() => selection.set(getColumnEntries(groupTitle).map((entry) => entry.id))));
+    }
+    menu.addSeparator();
+    menu.addItem((item) => item
+      .setTitle(t('menu.setLimit'))
+      .setIcon('gauge')
+      .onClick(() => handleSetLimit(groupTitle)));
+    if (columnLimits[groupTitle] !== undefined) {
+      menu.addItem((item) => item
+        .setTitle(t('menu.removeLimit'))
+        .setIcon('x')
+        .onClick(() => updateColumnLimits(({ [groupTitle]: _removed, ...rest }) => rest)));
+    }
+    menu.showAtMouseEvent(e.nativeEvent);
+  }, [groupByProperty, dateBuckets, selection, columnLimits, handleRenameGroup, handleNewPage, handleSetLimit, updateColumnLimits, getColumnEntries]);
 
   /**
    * Create a new group (column) by prompting for name
@@ -211,25 +558,29 @@ export const BoardView: React.FC<BoardViewProps> = ({
   const handleNewGroup = React.useCallback(() => {
     const modal = new TextInputModal(
       app,
-      'New group',
+      t('board.newGroupTitle'),
       async (name) => {
         if (!name) return;
 
         // Create a new note with this group value to make the column appear
-        const timestamp = Date.now();
-        const fileName = `${name} ${timestamp}.md`;
-        const frontmatter = `---\n${groupByProperty}: "${name}"\n---\n\n`;
+        const create = async () => {
+          await createNote(app, newNoteOptions, {
+            title: name,
+            group: name,
+            properties: { [groupByProperty]: name },
+          });
+        };
 
         try {
-          await app.vault.create(fileName, frontmatter);
+          await create();
         } catch (error) {
-          console.error('Failed to create new group:', error);
+          reportError({ action: t('action.createGroup'), error, retry: create });
         }
       },
-      'Enter group name'
+      t('board.groupNamePlaceholder')
     );
     modal.open();
-  }, [app, groupByProperty]);
+  }, [app, newNoteOptions, groupByProperty]);
 
   /**
    * Create a new sub-group (row) by prompting for name
@@ -239,30 +590,117 @@ export const BoardView: React.FC<BoardViewProps> = ({
 
     const modal = new TextInputModal(
       app,
-      'New sub-group',
+      t('board.newSubGroupTitle'),
       async (name) => {
         if (!name) return;
 
         // Create a new note with this sub-group value to make the row appear
-        const timestamp = Date.now();
-        const fileName = `${name} ${timestamp}.md`;
         // Include both group and sub-group properties
         const firstGroupValue = orderedGroups[0]?.[0] || 'Uncategorized';
-        const frontmatter = `---\n${groupByProperty}: "${firstGroupValue}"\n${subGroupByProperty}: "${name}"\n---\n\n`;
+
+        const create = async () => {
+          await createNote(app, newNoteOptions, {
+            title: name,
+            group: getGroupLabel(firstGroupValue),
+            properties: { ...getNewNoteGroupProperties(firstGroupValue), [subGroupByProperty]: name },
+          });
+        };
 
         try {
-          await app.vault.create(fileName, frontmatter);
+          await create();
         } catch (error) {
-          console.error('Failed to create new sub-group:', error);
+          reportError({ action: t('action.createSubGroup'), error, retry: create });
         }
       },
-      'Enter sub-group name'
+      t('board.subGroupNamePlaceholder')
     );
     modal.open();
-  }, [app, groupByProperty, subGroupByProperty, orderedGroups]);
+  }, [app, newNoteOptions, subGroupByProperty, orderedGroups, getNewNoteGroupProperties, getGroupLabel]);
+
+  /**
+   * Collapse or expand all sub-group rows
+   */
+  const setAllRowsCollapsed = React.useCallback((collapsed: boolean) => {
+    const keys = new Set<string>();
+    if (collapsed) {
+      groupsWithSubGroups.forEach((subGroups) => {
+        subGroups.forEach((_, subGroupKey) => keys.add(subGroupKey));
+      });
+    }
+    setSavedCollapsedRows(Array.from(keys));
+  }, [groupsWithSubGroups, setSavedCollapsedRows]);
+
+  // Kanban boards hold column titles as shown
+  const kanbanGroups = React.useMemo(() => {
+    return orderedGroups.map(([title, groupEntries]) => [getGroupLabel(title), groupEntries] as [string, BasesEntry[]]);
+  }, [orderedGroups, getGroupLabel]);
+
+  const { importKanban, exportKanban } = useKanbanSync(
+    kanbanGroups,
+    groupByProperty,
+    handleColumnsImported,
+    newNoteOptions,
+    app
+  );
+
+  /**
+   * Cards as displayed: columns in board order, sub-groups in row order, collapsed rows left out
+   */
+  const getViewData = React.useCallback((): ViewData => {
+    const columns = [
+      { key: 'file', label: 'file' },
+      { key: 'title', label: 'title' },
+      { key: 'group', label: getPropertyDisplayName(groupByProperty) },
+    ];
+    if (subGroupByProperty) {
+      columns.push({ key: 'subGroup', label: getPropertyDisplayName(subGroupByProperty) });
+    }
+
+    const rows = orderedGroups.flatMap(([group]) => {
+      const subGroups = Array.from(groupsWithSubGroups.get(group) ?? []);
+      return subGroups
+        .filter(([subGroup]) => !subGroupByProperty || !collapsedRows.has(subGroup))
+        .flatMap(([subGroup, subGroupEntries]) => subGroupEntries.map((entry) => ({
+          file: entry.file,
+          title: entry.file.basename,
+          group: getGroupLabel(group),
+          subGroup,
+        })));
+    });
+
+    return { name: t('view.board'), columns, rows };
+  }, [orderedGroups, groupsWithSubGroups, groupByProperty, subGroupByProperty, collapsedRows, getGroupLabel]);
+
+  // Expose note creation, row collapsing, Kanban import/export and data export to plugin commands
+  useViewCommands({
+    getViewData,
+    importKanban,
+    exportKanban,
+    createItem: () => {
+      const firstGroup = orderedGroups[0]?.[0] || 'Uncategorized';
+      const firstSubGroup = subGroupByProperty
+        ? groupsWithSubGroups.get(firstGroup)?.keys().next().value
+        : undefined;
+      void handleNewPage(firstSubGroup ? `${firstGroup}:${firstSubGroup}` : firstGroup);
+    },
+    ...(subGroupByProperty && {
+      collapseAllGroups: () => setAllRowsCollapsed(true),
+      expandAllGroups: () => setAllRowsCollapsed(false),
+    }),
+  });
 
   // Properties to exclude from card tags (grouping properties)
-  const excludeProperties = [groupByProperty, subGroupByProperty].filter((p): p is string => Boolean(p));
+  const excludeProperties = [groupByProperty, subGroupByProperty]
+    .map((p) => (p ? getFrontmatterKey(p) : null))
+    .filter((p): p is string => Boolean(p));
+
+  // Properties shown on cards; the options object is recreated on every render
+  const cardPropertiesKey = (options.cardProperties || []).join('\n');
+  const showPropertyNames = options.showPropertyNames === true;
+  const cardLayout = React.useMemo<CardLayout>(() => ({
+    properties: cardPropertiesKey ? cardPropertiesKey.split('\n') : [],
+    showNames: showPropertyNames,
+  }), [cardPropertiesKey, showPropertyNames]);
 
   const hasSubGroups = !!subGroupByProperty && subGroupByProperty.trim() !== '';
 
@@ -284,12 +722,14 @@ export const BoardView: React.FC<BoardViewProps> = ({
 
     return (
       <div className="bv-board-view bv-board-notion">
+        <FilterBar />
+
         {/* Section-based layout with drag-and-drop */}
-        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} collisionDetection={cellOnlyCollision}>
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} collisionDetection={cellCollision}>
           {/* Column headers - shared across all sections */}
           <div className="bv-board-header">
             <SortableContext
-              items={columnOrder.map((col) => `column:${col}`)}
+              items={orderedGroups.map(([col]) => `column:${col}`)}
               strategy={horizontalListSortingStrategy}
             >
               {orderedGroups.map(([groupTitle]) => {
@@ -298,13 +738,20 @@ export const BoardView: React.FC<BoardViewProps> = ({
                 const columnTotal = subGroups
                   ? Array.from(subGroups.values()).reduce((sum, entries) => sum + entries.length, 0)
                   : 0;
+                // Limits apply to each cell of the column
+                const limit = columnLimits[groupTitle];
+                const isOverLimit = limit !== undefined
+                  && Array.from(subGroups?.values() ?? []).some((cellEntries) => cellEntries.length > limit);
 
                 return (
                   <SortableColumnHeader
                     key={groupTitle}
                     id={`column:${groupTitle}`}
-                    title={groupTitle}
+                    title={getGroupLabel(groupTitle)}
                     count={columnTotal}
+                    limit={limit}
+                    isOverLimit={isOverLimit}
+                    onContextMenu={(e) => handleColumnContextMenu(groupTitle, e)}
                   />
                 );
               })}
@@ -347,21 +794,25 @@ export const BoardView: React.FC<BoardViewProps> = ({
                           <GridCell
                             key={dropId}
                             dropId={dropId}
-                            title={groupTitle}
+                            title={getGroupLabel(groupTitle)}
                             entries={cellEntries}
                             app={app}
                             hoverParent={hoverParent}
                             onNewPage={handleNewPage}
                             excludeProperties={excludeProperties}
+                            cardLayout={cardLayout}
+                            limit={columnLimits[groupTitle]}
                           />
                         );
                       })}
                       {/* New group button in grid */}
-                      <div className="bv-section-new-group">
-                        <button className="bv-new-group-btn" onClick={handleNewGroup}>
-                          + New group
-                        </button>
-                      </div>
+                      {!dateBuckets && (
+                        <div className="bv-section-new-group">
+                          <button className="bv-new-group-btn" onClick={handleNewGroup}>
+                            {t('board.newGroup')}
+                          </button>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -371,18 +822,20 @@ export const BoardView: React.FC<BoardViewProps> = ({
             {/* New sub-group button */}
             <div className="bv-board-new-subgroup">
               <button className="bv-new-group-btn" onClick={handleNewSubGroup}>
-                + New sub-group
+                {t('board.newSubGroup')}
               </button>
             </div>
           </div>
 
-          <DragOverlay dropAnimation={null}>
-            {activeEntry && (
+          <DragOverlay dropAnimation={null} className={isAddDrop ? 'bv-drag-add' : undefined}>
+            {activeId && activeEntry && (
               <Card
+                cardId={activeId}
                 entry={activeEntry}
                 app={app}
                 hoverParent={hoverParent}
                 excludeProperties={excludeProperties}
+                layout={cardLayout}
               />
             )}
           </DragOverlay>
@@ -394,11 +847,13 @@ export const BoardView: React.FC<BoardViewProps> = ({
   // Render as columns if no sub-grouping
   return (
     <div className="bv-board-view bv-board-notion">
+      <FilterBar />
+
       {/* Board columns with drag-and-drop */}
-      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} collisionDetection={cellOnlyCollision}>
+      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} collisionDetection={cellCollision}>
         <div className="bv-board-columns">
           <SortableContext
-            items={columnOrder.map((col) => `column:${col}`)}
+            items={orderedGroups.map(([col]) => `column:${col}`)}
             strategy={horizontalListSortingStrategy}
           >
             {orderedGroups.map(([groupTitle]) => {
@@ -408,34 +863,41 @@ export const BoardView: React.FC<BoardViewProps> = ({
               return (
                 <Column
                   key={groupTitle}
-                  title={groupTitle}
+                  title={getGroupLabel(groupTitle)}
                   entries={columnEntries}
                   dropId={groupTitle}
                   columnId={`column:${groupTitle}`}
                   app={app}
                   hoverParent={hoverParent}
                   onNewPage={handleNewPage}
+                  onContextMenu={(e) => handleColumnContextMenu(groupTitle, e)}
                   excludeProperties={excludeProperties}
+                  cardLayout={cardLayout}
+                  limit={columnLimits[groupTitle]}
                 />
               );
             })}
           </SortableContext>
 
           {/* New group button */}
-          <div className="bv-column-new-group">
-            <button className="bv-new-group-btn" onClick={handleNewGroup}>
-              + New group
-            </button>
-          </div>
+          {!dateBuckets && (
+            <div className="bv-column-new-group">
+              <button className="bv-new-group-btn" onClick={handleNewGroup}>
+                {t('board.newGroup')}
+              </button>
+            </div>
+          )}
         </div>
 
-        <DragOverlay dropAnimation={null}>
-          {activeEntry && (
+        <DragOverlay dropAnimation={null} className={isAddDrop ? 'bv-drag-add' : undefined}>
+          {activeId && activeEntry && (
             <Card
+              cardId={activeId}
               entry={activeEntry}
               app={app}
               hoverParent={hoverParent}
               excludeProperties={excludeProperties}
+              layout={cardLayout}
             />
           )}
         </DragOverlay>
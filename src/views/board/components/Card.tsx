@@ -2,17 +2,28 @@ import * as React from 'react';
 import { App, HoverParent } from 'obsidian';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { BasesEntry } from '../../../types/view-config';
+import { BasesEntry, CardLayout } from '../../../types/view-config';
 import { useHoverPreview } from '../../../hooks/useHoverPreview';
+import { useNoteContextMenu } from '../../../hooks/useNoteContextMenu';
 import { createNoteOpener } from '../../../utils/noteOpener';
+import { useIsSelected } from '../../../context/SelectionContext';
+import { useColorRules, useItemColorStyle } from '../../../context/ColorRulesContext';
+import { getColorValue } from '../../../utils/colorUtils';
 import { StatusBadge } from './StatusBadge';
+import { CardProperty } from './CardProperty';
 
 interface CardProps {
+  /** Drag id, unique per cell (see getCardId) */
+  cardId?: string;
   entry: BasesEntry;
+  /** Column the card is in; the context menu moves list values out of it */
+  group?: string;
   app: App;
   hoverParent: HoverParent;
   /** Properties to exclude from tag display (e.g., groupBy properties) */
   excludeProperties?: string[];
+  /** Properties to show instead of the tags; tags when unset or empty */
+  layout?: CardLayout;
 }
 
 /**
@@ -43,13 +54,17 @@ function isTagLikeValue(key: string, value: unknown): boolean {
 
 /**
  * Card component for Board view (Notion-style).
- * Displays file icon, title, and colored tag badges.
+ * Displays file icon, title, and either the properties picked in the
+ * card layout or colored tag badges.
  */
 export const Card: React.FC<CardProps> = ({
+  cardId,
   entry,
+  group,
   app,
   hoverParent,
   excludeProperties = [],
+  layout,
 }) => {
   const {
     attributes,
@@ -58,7 +73,7 @@ export const Card: React.FC<CardProps> = ({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: entry.id });
+  } = useSortable({ id: cardId ?? entry.id });
 
   const { handleMouseEnter, handleMouseLeave } = useHoverPreview(
     app,
@@ -67,6 +82,12 @@ export const Card: React.FC<CardProps> = ({
   );
 
   const handleClick = createNoteOpener(app, entry.file);
+  const handleContextMenu = useNoteContextMenu(entry.file, app, group);
+  const isSelected = useIsSelected(entry.id);
+  const colorProperty = useColorRules()?.property ?? '';
+  const colorStyle = useItemColorStyle(getColorValue(entry, colorProperty));
+
+  const hasLayout = !!layout && layout.properties.length > 0;
 
   // Extract tag-like properties for display
   const tags = React.useMemo(() => {
@@ -82,6 +103,7 @@ export const Card: React.FC<CardProps> = ({
   }, [entry.properties, excludeProperties]);
 
   const style = {
+    ...colorStyle,
     transform: CSS.Transform.toString(transform),
     transition,
     opacity: isDragging ? 0.5 : 1,
@@ -93,8 +115,10 @@ export const Card: React.FC<CardProps> = ({
       style={style}
       {...attributes}
       {...listeners}
-      className="bv-card bv-card-notion"
+      className={`bv-card bv-card-notion ${isSelected ? 'bv-selected' : ''} ${colorStyle ? 'bv-colored' : ''}`}
+      data-selection-id={entry.id}
       onClick={handleClick}
+      onContextMenu={handleContextMenu}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
     >
@@ -102,8 +126,23 @@ export const Card: React.FC<CardProps> = ({
         <h4 className="bv-card-title">{entry.file.basename}</h4>
       </div>
 
+      {/* Properties of the card layout */}
+      {hasLayout && (
+        <div className="bv-card-properties">
+          {layout.properties.map((propertyId) => (
+            <CardProperty
+              key={propertyId}
+              entry={entry}
+              propertyId={propertyId}
+              app={app}
+              showName={layout.showNames}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Colored tag badges */}
-      {tags.length > 0 && (
+      {!hasLayout && tags.length > 0 && (
         <div className="bv-card-tags">
           {tags.map(([key, value]) => (
             <StatusBadge key={key} value={String(value)} size="sm" />
@@ -0,0 +1,173 @@
+import * as React from 'react';
+import { App, setIcon } from 'obsidian';
+import { differenceInCalendarDays, isSameYear, startOfDay } from 'date-fns';
+import { BasesEntry } from '../../../types/view-config';
+import { getEntryValue } from '../../../utils/basesDataAdapter';
+import { getFrontmatterKey, getPropertyDisplayName } from '../../../utils/propertyId';
+import { getLinkTarget, getPropertyType } from '../../../utils/propertyTypes';
+import { parseDate } from '../../../utils/dateParsing';
+import { formatLocalized } from '../../../utils/dateLocale';
+import { isDone } from '../../../utils/quickFilter';
+import { useQuickFilter } from '../../../context/QuickFilterContext';
+import { StatusBadge } from './StatusBadge';
+import { t, tn } from '../../../i18n';
+
+interface CardPropertyProps {
+  entry: BasesEntry;
+  /** Property id to show (e.g. "note.due", "formula.progress") */
+  propertyId: string;
+  app: App;
+  /** Prefix the value with the property name */
+  showName: boolean;
+}
+
+/** Alias of a [[Note|Alias]] link */
+const LINK_ALIAS_REGEX = /\|([^\]]*)\]\]$/;
+
+/**
+ * One property of a Board card, rendered by its type: dates relative to today
+ * (highlighted when overdue), lists as badges, links as internal links,
+ * checkboxes as icons. Renders nothing when the note has no value.
+ */
+export const CardProperty: React.FC<CardPropertyProps> = ({
+  entry,
+  propertyId,
+  app,
+  showName,
+}) => {
+  const filterOptions = useQuickFilter()?.options;
+  const value = getEntryValue(entry, propertyId);
+  if (isEmpty(value)) return null;
+
+  const type = value instanceof Date
+    ? (hasTime(value) ? 'datetime' : 'date')
+    : getPropertyType(app, getFrontmatterKey(propertyId) ?? '', value);
+
+  let content: React.ReactNode;
+  switch (type) {
+    case 'date':
+    case 'datetime': {
+      const date = parseDate(value, filterOptions?.dateFormats);
+      const done = filterOptions ? isDone(entry, filterOptions) : false;
+      content = date
+        ? <RelativeDate date={date} withTime={type === 'datetime'} done={done} />
+        : <StatusBadge value={String(value)} size="sm" />;
+      break;
+    }
+    case 'list':
+      content = (Array.isArray(value) ? value : [value])
+        .filter((item) => !isEmpty(item))
+        .map((item, index) => (
+          getLinkTarget(item) !== null
+            ? <InternalLink key={index} value={String(item)} app={app} sourcePath={entry.file.path} />
+            : <StatusBadge key={index} value={String(item)} size="sm" />
+        ));
+      break;
+    case 'link':
+      content = <InternalLink value={String(value)} app={app} sourcePath={entry.file.path} />;
+      break;
+    case 'checkbox':
+      content = <CheckboxIcon checked={value === true || String(value).toLowerCase() === 'true'} />;
+      break;
+    case 'number':
+      content = <span className="bv-card-number">{String(value)}</span>;
+      break;
+    default:
+      content = <StatusBadge value={String(value)} size="sm" />;
+  }
+
+  return (
+    <div className="bv-card-property">
+      {showName && <span className="bv-card-property-name">{getPropertyDisplayName(propertyId)}</span>}
+      {content}
+    </div>
+  );
+};
+
+/**
+ * Date shown as "today", "in 3 days", "2 days ago" or, further away, as a short date.
+ * Past dates are marked overdue unless the note is done.
+ */
+const RelativeDate: React.FC<{ date: Date; withTime: boolean; done: boolean }> = ({ date, withTime, done }) => {
+  const now = new Date();
+  const days = differenceInCalendarDays(date, now);
+  const isOverdue = !done && (withTime ? date < now : date < startOfDay(now));
+
+  let label: string;
+  if (days === 0) {
+    label = t('card.today');
+  } else if (days === 1) {
+    label = t('card.tomorrow');
+  } else if (days === -1) {
+    label = t('card.yesterday');
+  } else if (Math.abs(days) < 7) {
+    label = days > 0 ? tn('card.inDays', days) : tn('card.daysAgo', -days);
+  } else {
+    label = formatLocalized(date, isSameYear(date, now) ? 'MMM d' : 'PP');
+  }
+  if (withTime) {
+    label = `${label}, ${formatLocalized(date, 'p')}`;
+  }
+
+  return (
+    <span
+      className={`bv-card-date ${isOverdue ? 'bv-card-date-overdue' : ''} ${days === 0 ? 'bv-card-date-today' : ''}`}
+      title={formatLocalized(date, withTime ? 'PPp' : 'PP')}
+    >
+      {label}
+    </span>
+  );
+};
+
+/**
+ * [[wikilink]] value that opens its note (Alt + click: in a new tab)
+ */
+const InternalLink: React.FC<{ value: string; app: App; sourcePath: string }> = ({ value, app, sourcePath }) => {
+  const target = getLinkTarget(value) ?? value;
+  const text = LINK_ALIAS_REGEX.exec(value.trim())?.[1] || target;
+
+  return (
+    <a
+      className="internal-link bv-card-link"
+      data-href={target}
+      href={target}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        void app.workspace.openLinkText(target, sourcePath, e.altKey);
+      }}
+    >
+      {text}
+    </a>
+  );
+};
+
+/**
+ * Checked or empty box icon for checkbox properties
+ */
+const CheckboxIcon: React.FC<{ checked: boolean }> = ({ checked }) => {
+  const ref = React.useRef<HTMLSpanElement>(null);
+
+  React.useEffect(() => {
+    if (ref.current) {
+      setIcon(ref.current, checked ? 'check-square' : 'square');
+    }
+  }, [checked]);
+
+  return (
+    <span
+      ref={ref}
+      className={`bv-card-checkbox ${checked ? 'is-checked' : ''}`}
+      aria-label={checked ? t('card.checked') : t('card.unchecked')}
+    />
+  );
+};
+
+function isEmpty(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return value === null || value === undefined || value === '';
+}
+
+function hasTime(date: Date): boolean {
+  return date.getHours() !== 0 || date.getMinutes() !== 0;
+}
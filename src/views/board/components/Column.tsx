@@ -3,10 +3,12 @@ import { App, HoverParent } from 'obsidian';
 import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { BasesEntry } from '../../../types/view-config';
+import { BasesEntry, CardLayout } from '../../../types/view-config';
 import { Card } from './Card';
+import { getCardId } from '../utils/boardHelpers';
 import { StatusBadge } from './StatusBadge';
 import { NewPageButton } from './NewPageButton';
+import { t } from '../../../i18n';
 
 interface ColumnProps {
   title: string;
@@ -18,8 +20,14 @@ interface ColumnProps {
   hoverParent: HoverParent;
   /** Callback when user clicks "+ New page" button */
   onNewPage?: (dropId: string) => void | Promise<void>;
+  /** Callback when user right-clicks the column header */
+  onContextMenu?: (e: React.MouseEvent) => void;
   /** Properties to exclude from card tag display */
   excludeProperties?: string[];
+  /** Properties shown on the cards */
+  cardLayout?: CardLayout;
+  /** Work-in-progress limit; the column is highlighted above it */
+  limit?: number;
 }
 
 /**
@@ -34,8 +42,13 @@ export const Column: React.FC<ColumnProps> = ({
   app,
   hoverParent,
   onNewPage,
+  onContextMenu,
   excludeProperties = [],
+  cardLayout,
+  limit,
 }) => {
+  const isOverLimit = limit !== undefined && entries.length > limit;
+
   // Sortable for column reordering
   const {
     attributes,
@@ -65,15 +78,16 @@ export const Column: React.FC<ColumnProps> = ({
     <div
       ref={setSortableRef}
       style={style}
-      className="bv-column bv-column-notion"
+      className={`bv-column bv-column-notion ${isOverLimit ? 'bv-column-over-limit' : ''}`}
     >
       {/* Column header with colored badge and count - draggable */}
       <div
         className="bv-column-header bv-column-header-notion bv-column-draggable"
         {...attributes}
         {...listeners}
+        onContextMenu={onContextMenu}
       >
-        <StatusBadge value={title} count={entries.length} size="md" />
+        <StatusBadge value={title} count={entries.length} limit={limit} size="md" />
       </div>
 
       {/* Column content with sortable cards */}
@@ -82,16 +96,19 @@ export const Column: React.FC<ColumnProps> = ({
         className={`bv-column-content ${isOver ? 'bv-column-drag-over' : ''}`}
       >
         <SortableContext
-          items={entries.map((e) => e.id)}
+          items={entries.map((e) => getCardId(dropId, e.id))}
           strategy={verticalListSortingStrategy}
         >
           {entries.map((entry) => (
             <Card
               key={entry.id}
+              cardId={getCardId(dropId, entry.id)}
               entry={entry}
+              group={dropId}
               app={app}
               hoverParent={hoverParent}
               excludeProperties={excludeProperties}
+              layout={cardLayout}
             />
           ))}
         </SortableContext>
@@ -100,7 +117,7 @@ export const Column: React.FC<ColumnProps> = ({
         <NewPageButton
           onClick={handleNewPage}
           compact={entries.length > 0}
-          label="+ New page"
+          label={t('board.newPage')}
         />
       </div>
     </div>
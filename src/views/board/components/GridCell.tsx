@@ -2,9 +2,11 @@ import * as React from 'react';
 import { App, HoverParent } from 'obsidian';
 import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
-import { BasesEntry } from '../../../types/view-config';
+import { BasesEntry, CardLayout } from '../../../types/view-config';
 import { Card } from './Card';
+import { getCardId } from '../utils/boardHelpers';
 import { NewPageButton } from './NewPageButton';
+import { t } from '../../../i18n';
 
 interface GridCellProps {
   dropId: string;
@@ -17,6 +19,10 @@ interface GridCellProps {
   onNewPage?: (dropId: string) => void | Promise<void>;
   /** Properties to exclude from card tag display */
   excludeProperties?: string[];
+  /** Properties shown on the cards */
+  cardLayout?: CardLayout;
+  /** Work-in-progress limit of the cell; shows "count / limit" and highlights the cell above it */
+  limit?: number;
 }
 
 /**
@@ -31,7 +37,10 @@ export const GridCell: React.FC<GridCellProps> = ({
   hoverParent,
   onNewPage,
   excludeProperties = [],
+  cardLayout,
+  limit,
 }) => {
+  const isOverLimit = limit !== undefined && entries.length > limit;
   const { setNodeRef, isOver } = useDroppable({
     id: dropId,
   });
@@ -43,20 +52,28 @@ export const GridCell: React.FC<GridCellProps> = ({
   return (
     <div
       ref={setNodeRef}
-      className={`bv-grid-cell ${isOver ? 'bv-grid-cell-drag-over' : ''}`}
+      className={`bv-grid-cell ${isOver ? 'bv-grid-cell-drag-over' : ''} ${isOverLimit ? 'bv-column-over-limit' : ''}`}
     >
+      {limit !== undefined && (
+        <span className={`bv-cell-limit ${isOverLimit ? 'bv-badge-over-limit' : ''}`}>
+          {entries.length} / {limit}
+        </span>
+      )}
       <div className="bv-column-content">
         <SortableContext
-          items={entries.map((e) => e.id)}
+          items={entries.map((e) => getCardId(dropId, e.id))}
           strategy={verticalListSortingStrategy}
         >
           {entries.map((entry) => (
             <Card
               key={entry.id}
+              cardId={getCardId(dropId, entry.id)}
               entry={entry}
+              group={dropId.split(':')[0]}
               app={app}
               hoverParent={hoverParent}
               excludeProperties={excludeProperties}
+              layout={cardLayout}
             />
           ))}
         </SortableContext>
@@ -65,7 +82,7 @@ export const GridCell: React.FC<GridCellProps> = ({
         <NewPageButton
           onClick={handleNewPage}
           compact={entries.length > 0}
-          label="+ New page"
+          label={t('board.newPage')}
         />
       </div>
     </div>
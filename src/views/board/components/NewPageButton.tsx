@@ -1,4 +1,5 @@
 import * as React from 'react';
+import { t } from '../../../i18n';
 
 interface NewPageButtonProps {
   onClick: () => void;
@@ -12,7 +13,7 @@ interface NewPageButtonProps {
  */
 export const NewPageButton: React.FC<NewPageButtonProps> = ({
   onClick,
-  label = '+ New page',
+  label = t('board.newPage'),
   compact = false,
 }) => {
   const handleClick = (e: React.MouseEvent) => {
@@ -1,11 +1,19 @@
 import * as React from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { StatusBadge } from './StatusBadge';
+import { t } from '../../../i18n';
 
 interface SortableColumnHeaderProps {
   id: string;
   title: string;
   count: number;
+  /** Work-in-progress limit of each cell in this column */
+  limit?: number;
+  /** Whether a cell of this column holds more cards than the limit */
+  isOverLimit?: boolean;
+  /** Callback when user right-clicks the header */
+  onContextMenu?: (e: React.MouseEvent) => void;
 }
 
 /**
@@ -15,6 +23,9 @@ export const SortableColumnHeader: React.FC<SortableColumnHeaderProps> = ({
   id,
   title,
   count,
+  limit,
+  isOverLimit = false,
+  onContextMenu,
 }) => {
   const {
     attributes,
@@ -36,12 +47,15 @@ export const SortableColumnHeader: React.FC<SortableColumnHeaderProps> = ({
     <div
       ref={setNodeRef}
       style={style}
-      className="bv-board-header-column bv-sortable-column"
+      className={`bv-board-header-column bv-sortable-column ${isOverLimit ? 'bv-column-over-limit' : ''}`}
       {...attributes}
       {...listeners}
+      onContextMenu={onContextMenu}
     >
-      <span className="bv-column-title">{title}</span>
-      <span className="bv-column-count">{count}</span>
+      <StatusBadge value={title} count={count} size="md" />
+      {limit !== undefined && (
+        <span className="bv-column-limit">{t('board.limitPerRow', { limit })}</span>
+      )}
     </div>
   );
 };
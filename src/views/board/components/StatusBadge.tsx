@@ -1,24 +1,38 @@
 import * as React from 'react';
+import { useValueColor } from '../../../context/ColorRulesContext';
 
 interface StatusBadgeProps {
   value: string;
   count?: number;
+  /** Work-in-progress limit, shown as "count / limit" */
+  limit?: number;
   size?: 'sm' | 'md' | 'lg';
 }
 
 /**
  * Badge component for column/row headers.
- * Shows label text and optional count.
+ * Shows label text and optional count, colored by the view's color mappings.
+ * The count is highlighted when it exceeds the limit.
  */
 export const StatusBadge: React.FC<StatusBadgeProps> = ({
   value,
   count,
+  limit,
   size = 'md',
 }) => {
+  const colors = useValueColor(value);
+
   return (
-    <span className={`bv-status-badge bv-status-badge-${size}`}>
+    <span
+      className={`bv-status-badge bv-status-badge-${size}`}
+      style={colors ? { background: colors.background, border: `1px solid ${colors.border}` } : undefined}
+    >
       <span className="bv-badge-label">{value}</span>
-      {count !== undefined && <span className="bv-badge-count">{count}</span>}
+      {count !== undefined && (
+        <span className={`bv-badge-count ${limit !== undefined && count > limit ? 'bv-badge-over-limit' : ''}`}>
+          {limit !== undefined ? `${count} / ${limit}` : count}
+        </span>
+      )}
     </span>
   );
 };
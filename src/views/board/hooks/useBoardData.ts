@@ -1,8 +1,13 @@
 import { useState, useMemo, useEffect } from 'react';
 import { App, BasesQueryResult } from 'obsidian';
+import { addDays, startOfDay } from 'date-fns';
 import { adaptBasesData } from '../../../utils/basesDataAdapter';
-import { groupEntriesByProperty, sortGroups } from '../utils/boardHelpers';
-import { BasesEntry } from '../../../types/view-config';
+import { useOptimisticEntries } from '../../../context/PendingChangesContext';
+import { useQuickFilteredEntries } from '../../../context/QuickFilterContext';
+import { useColorRules } from '../../../context/ColorRulesContext';
+import { groupEntriesByProperty, sortCards, sortGroups } from '../utils/boardHelpers';
+import { getDateBuckets, groupEntriesByDateBucket } from '../utils/dateBuckets';
+import { BasesEntry, CardSortDirection } from '../../../types/view-config';
 
 /**
  * Hook for Board view data management.
@@ -10,17 +15,29 @@ import { BasesEntry } from '../../../types/view-config';
  *
  * @param data - Data from Bases API (BasesQueryResult)
  * @param app - Obsidian app instance
- * @param initialGroupByProperty - Initial property to group by (columns)
- * @param initialSubGroupByProperty - Initial property for sub-grouping within columns
- * @returns Object with entries, groups, sub-groups, and property management
+ * @param initialGroupByProperty - Initial property id to group by (columns)
+ * @param initialSubGroupByProperty - Initial property id for sub-grouping within columns
+ * @param cardSortProperty - Property id cards are sorted by ('' = manual order by rank)
+ * @param cardSortDirection - Direction of cardSortProperty
+ * @param rankProperty - Frontmatter key storing the manual card order
+ * @param cardProperties - Property ids shown on cards
+ * @param dateBuckets - Group columns by relative date period (Overdue, Today, ...) instead of by value
+ * @param dateFormats - Extra date formats from plugin settings (moment syntax)
+ * @returns Object with entries (in card order), groups, sub-groups, and property management
  */
 export function useBoardData(
   data: BasesQueryResult,
   app: App,
   initialGroupByProperty: string,
-  initialSubGroupByProperty?: string
+  initialSubGroupByProperty?: string,
+  cardSortProperty = '',
+  cardSortDirection: CardSortDirection = 'asc',
+  rankProperty = 'rank',
+  cardProperties: string[] = [],
+  dateBuckets = false,
+  dateFormats: string[] = []
 ) {
-  const [groupByProperty, setGroupByProperty] = useState(initialGroupByProperty || 'status');
+  const [groupByProperty, setGroupByProperty] = useState(initialGroupByProperty || 'note.status');
   const [subGroupByProperty, setSubGroupByProperty] = useState(initialSubGroupByProperty || '');
 
   // Sync state with props when config changes
@@ -34,10 +51,42 @@ export function useBoardData(
     setSubGroupByProperty(initialSubGroupByProperty || '');
   }, [initialSubGroupByProperty]);
 
+  const colorProperty = useColorRules()?.property ?? '';
+
+  // Date buckets are relative to today: regroup after midnight
+  const [today, setToday] = useState(() => startOfDay(new Date()));
+  useEffect(() => {
+    if (!dateBuckets) return;
+    const timer = window.setTimeout(() => {
+      setToday(startOfDay(new Date()));
+    }, addDays(today, 1).getTime() - Date.now());
+    return () => window.clearTimeout(timer);
+  }, [dateBuckets, today]);
+
+  // Compare by content, callers pass a new array on every render
+  const cardPropertiesKey = cardProperties.join('\n');
+
   // Transform Bases data to our internal format
+  const adaptedEntries = useMemo(() => {
+    return adaptBasesData(data, app, [
+      groupByProperty,
+      subGroupByProperty,
+      colorProperty,
+      cardSortProperty,
+      ...cardPropertiesKey.split('\n'),
+    ]);
+  }, [data, app, groupByProperty, subGroupByProperty, colorProperty, cardSortProperty, cardPropertiesKey]);
+
+  // Leave out notes that don't match the filter bar
+  const filteredEntries = useQuickFilteredEntries(adaptedEntries, []);
+
+  // Show pending writes before the metadata cache catches up
+  const optimisticEntries = useOptimisticEntries(filteredEntries);
+
+  // Cards in display order; grouping keeps it within every column and cell
   const entries = useMemo(() => {
-    return adaptBasesData(data, app);
-  }, [data, app]);
+    return sortCards(optimisticEntries, cardSortProperty, cardSortDirection, rankProperty);
+  }, [optimisticEntries, cardSortProperty, cardSortDirection, rankProperty]);
 
   // Group entries by the selected property (main columns)
   const groups = useMemo(() => {
@@ -48,6 +97,10 @@ export function useBoardData(
       return allGroups;
     }
 
+    if (dateBuckets) {
+      return groupEntriesByDateBucket(entries, groupByProperty, today, dateFormats);
+    }
+
     const grouped = groupEntriesByProperty(entries, groupByProperty);
 
     // Always ensure 'Uncategorized' group exists so users can create first entry
@@ -56,7 +109,7 @@ export function useBoardData(
     }
 
     return grouped;
-  }, [entries, groupByProperty]);
+  }, [entries, groupByProperty, dateBuckets, today, dateFormats]);
 
   // Create sub-groups within each group if subGroupByProperty is set
   const groupsWithSubGroups = useMemo(() => {
@@ -87,10 +140,10 @@ export function useBoardData(
     return result;
   }, [groups, subGroupByProperty]);
 
-  // Sort main groups
+  // Sort main groups; date buckets keep their fixed order
   const sortedGroups = useMemo(() => {
-    return sortGroups(groups);
-  }, [groups]);
+    return sortGroups(groups, dateBuckets ? getDateBuckets(today) : undefined);
+  }, [groups, dateBuckets, today]);
 
   return {
     entries,
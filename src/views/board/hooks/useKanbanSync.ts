@@ -0,0 +1,176 @@
+import { useCallback } from 'react';
+import { App, Notice, TFile } from 'obsidian';
+import { format } from 'date-fns';
+import { BasesEntry } from '../../../types/view-config';
+import { usePropertyUpdate } from '../../../hooks/usePropertyUpdate';
+import { createFile, createNote, findNote, NewNoteRequest, NoteCreationOptions } from '../../../utils/noteCreator';
+import { reportError } from '../../../utils/errorReporter';
+import { OptionSuggestModal } from '../../../components/shared/OptionSuggestModal';
+import {
+  getCardLinkPath,
+  getCardTitle,
+  KANBAN_FRONTMATTER_KEY,
+  KanbanBoard,
+  parseKanbanMarkdown,
+  serializeKanbanMarkdown,
+} from '../utils/kanbanMarkdown';
+import { t } from '../../../i18n';
+
+/**
+ * Hook for importing and exporting boards in the Kanban plugin's markdown format.
+ * Importing moves linked notes into the card's column (one undo step) and
+ * creates notes for plain-text cards, or moves the notes an earlier import
+ * created for them; exporting writes the columns in board order.
+ *
+ * @param orderedGroups - Columns in board order with their entries
+ * @param groupByProperty - Id of the property that defines columns
+ * @param onColumnsImported - Called with the column titles of an imported board, in file order
+ * @param newNoteOptions - Folder, file name and template for new notes
+ * @param app - Obsidian app instance
+ * @returns Import and export handlers
+ */
+export function useKanbanSync(
+  orderedGroups: Array<[string, BasesEntry[]]>,
+  groupByProperty: string,
+  onColumnsImported: (columns: string[]) => void,
+  newNoteOptions: NoteCreationOptions,
+  app: App
+) {
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
+
+  /**
+   * Apply the columns of a board file to the notes of its cards
+   */
+  const importBoard = useCallback(async (file: TFile) => {
+    let board: KanbanBoard;
+    try {
+      board = parseKanbanMarkdown(await app.vault.read(file));
+    } catch (error) {
+      reportError({ action: t('action.importKanban'), error, file, retry: () => importBoard(file) });
+      return;
+    }
+
+    // Column each note is in now, to skip cards that haven't moved
+    const currentColumns = new Map<string, string>();
+    orderedGroups.forEach(([title, entries]) => {
+      entries.forEach((entry) => currentColumns.set(entry.file.path, title));
+    });
+
+    const batch = startBatch(t('history.importKanban'));
+    let moved = 0;
+    let created = 0;
+
+    try {
+      for (const column of board.columns) {
+        for (const card of column.cards) {
+          const linkPath = getCardLinkPath(card);
+          const linked = linkPath ? app.metadataCache.getFirstLinkpathDest(linkPath, file.path) : null;
+          const request: NewNoteRequest = {
+            title: linkPath ? linkPath.split('/').pop() ?? linkPath : getCardTitle(card),
+            group: column.title,
+            properties: { [groupByProperty]: column.title },
+          };
+
+          // Plain-text cards and missing links map to the note a previous import created
+          const note = linked && linked.extension === 'md' ? linked : findNote(app, newNoteOptions, request);
+          if (note) {
+            if (currentColumns.get(note.path) === column.title) continue;
+            await updateProperty(note, groupByProperty, column.title, batch);
+            moved++;
+            continue;
+          }
+
+          const create = async () => {
+            await createNote(app, newNoteOptions, request);
+          };
+          try {
+            await create();
+            created++;
+          } catch (error) {
+            reportError({ action: t('action.createPage'), error, retry: create });
+          }
+        }
+      }
+
+      onColumnsImported(board.columns.map((column) => column.title));
+      new Notice(t('board.kanbanImported', { moved, created }));
+    } catch (error) {
+      // Notes moved so far stay in the undo step
+      reportError({ action: t('action.importKanban'), error, file, retry: () => importBoard(file) });
+    }
+  }, [app, orderedGroups, groupByProperty, onColumnsImported, newNoteOptions, updateProperty, startBatch]);
+
+  /**
+   * Write the board to a Kanban file, or to a new one when target is null
+   */
+  const exportBoard = useCallback(async (target: TFile | null) => {
+    try {
+      const existing = target ? parseKanbanMarkdown(await app.vault.read(target)) : undefined;
+      const completeColumns = new Set(existing?.columns.filter((c) => c.complete).map((c) => c.title));
+
+      const columns = orderedGroups.map(([title, entries]) => ({
+        title,
+        cards: entries.map((entry) => `[[${app.metadataCache.fileToLinktext(entry.file, target?.path ?? '')}]]`),
+        complete: completeColumns.has(title),
+      }));
+      const content = serializeKanbanMarkdown(columns, existing);
+
+      if (target) {
+        await app.vault.modify(target, content);
+      } else {
+        const title = t('board.kanbanExportTitle', { date: format(new Date(), 'yyyy-MM-dd') });
+        const file = await createFile(app, newNoteOptions, title, 'md', content);
+        await app.workspace.getLeaf('tab').openFile(file);
+      }
+      new Notice(t('board.kanbanExported', { count: columns.length }));
+    } catch (error) {
+      reportError({ action: t('action.exportKanban'), error, file: target ?? undefined, retry: () => exportBoard(target) });
+    }
+  }, [app, orderedGroups, newNoteOptions]);
+
+  /**
+   * Pick a Kanban board in the vault and import it
+   */
+  const importKanban = useCallback(() => {
+    if (!ensureEditable(groupByProperty)) return;
+
+    const boards = getKanbanFiles(app);
+    if (boards.length === 0) {
+      new Notice(t('board.noKanbanFiles'));
+      return;
+    }
+
+    new OptionSuggestModal(
+      app,
+      boards.map((file) => ({ label: file.path, value: file })),
+      (file) => void importBoard(file),
+      t('board.chooseKanbanFile')
+    ).open();
+  }, [app, groupByProperty, ensureEditable, importBoard]);
+
+  /**
+   * Pick a Kanban board to overwrite, or a new note, and export into it
+   */
+  const exportKanban = useCallback(() => {
+    new OptionSuggestModal<TFile | null>(
+      app,
+      [
+        { label: t('board.kanbanNewNote'), value: null },
+        ...getKanbanFiles(app).map((file) => ({ label: file.path, value: file })),
+      ],
+      (target) => void exportBoard(target),
+      t('board.chooseKanbanTarget')
+    ).open();
+  }, [app, exportBoard]);
+
+  return { importKanban, exportKanban };
+}
+
+/**
+ * Notes marked as Kanban plugin boards in their frontmatter.
+ */
+function getKanbanFiles(app: App): TFile[] {
+  return app.vault.getMarkdownFiles().filter((file) => {
+    return app.metadataCache.getFileCache(file)?.frontmatter?.[KANBAN_FRONTMATTER_KEY] !== undefined;
+  });
+}
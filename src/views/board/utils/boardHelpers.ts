@@ -1,4 +1,5 @@
-import { BasesEntry } from '../../../types/view-config';
+import { BasesEntry, CardSortDirection } from '../../../types/view-config';
+import { getEntryValue } from '../../../utils/basesDataAdapter';
 
 /**
  * Safely convert any value to a string.
@@ -17,36 +18,108 @@ function valueToString(value: unknown): string {
   return String(value);
 }
 
+/** Group of cards without a value */
+const UNCATEGORIZED = 'Uncategorized';
+
+/**
+ * Get the groups a property value puts a card in.
+ * Each item of a list is a group of its own; empty values and lists go to 'Uncategorized'.
+ *
+ * @param value - Value of the group property
+ * @returns Distinct group keys (at least one)
+ */
+export function getGroupKeys(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    const keys = value
+      .filter((item) => item !== undefined && item !== null && item !== '')
+      .map(valueToString);
+    return keys.length > 0 ? Array.from(new Set(keys)) : [UNCATEGORIZED];
+  }
+  return value !== undefined && value !== null ? [valueToString(value)] : [UNCATEGORIZED];
+}
+
+/**
+ * Drag id of a card. Notes with a list value have a card in several cells,
+ * so the id combines the cell's drop id with the note path.
+ *
+ * @param cell - Drop id of the cell (column, or column:row)
+ * @param entryId - Entry id (file path)
+ * @returns Id unique across the board
+ */
+export function getCardId(cell: string, entryId: string): string {
+  return `${cell}\n${entryId}`;
+}
+
 /**
  * Group entries by a property value.
  * Creates a Map where keys are property values and values are arrays of entries.
+ * Entries with a list value appear in the group of each item.
  *
  * @param entries - Array of entries to group
- * @param propertyName - Property to group by
+ * @param propertyId - Property id to group by (note, formula or file property)
  * @returns Map of property value to entries
  */
 export function groupEntriesByProperty(
   entries: BasesEntry[],
-  propertyName: string
+  propertyId: string
 ): Map<string, BasesEntry[]> {
   const groups = new Map<string, BasesEntry[]>();
 
   entries.forEach((entry) => {
-    // Get the property value, default to 'Uncategorized' if not set
-    const propertyValue = entry.properties[propertyName];
-    const groupKey = propertyValue !== undefined && propertyValue !== null
-      ? valueToString(propertyValue)
-      : 'Uncategorized';
-
-    // Add entry to the appropriate group
-    const group = groups.get(groupKey) || [];
-    group.push(entry);
-    groups.set(groupKey, group);
+    getGroupKeys(getEntryValue(entry, propertyId)).forEach((groupKey) => {
+      const group = groups.get(groupKey) || [];
+      group.push(entry);
+      groups.set(groupKey, group);
+    });
   });
 
   return groups;
 }
 
+/**
+ * New value of a group property when a card moves from one group to another.
+ * In a list, `from` is replaced with `to` and the other items are kept; with `add`,
+ * `to` is appended instead. Moving to 'Uncategorized' removes `from` from the list.
+ * Other values are simply replaced with `to`.
+ *
+ * @param value - Current value of the group property
+ * @param from - Group the card was dragged from
+ * @param to - Group the card was dropped on
+ * @param isList - Whether the property holds a list
+ * @param add - Keep the card in `from` as well (list properties only)
+ * @returns New value, or undefined when it doesn't change
+ */
+export function getMovedGroupValue(
+  value: unknown,
+  from: string,
+  to: string,
+  isList: boolean,
+  add = false
+): unknown {
+  const keys = getGroupKeys(value);
+
+  if (!isList) {
+    return keys[0] === to ? undefined : to;
+  }
+
+  const items = keys[0] === UNCATEGORIZED ? [] : keys;
+  if (from === to || (add && (keys.includes(to) || to === UNCATEGORIZED))) {
+    return undefined;
+  }
+
+  let next: string[];
+  if (to === UNCATEGORIZED || items.includes(to)) {
+    next = items.filter((item) => item !== from);
+  } else if (add || !items.includes(from)) {
+    next = [...items, to];
+  } else {
+    next = items.map((item) => (item === from ? to : item));
+  }
+
+  const unchanged = next.length === items.length && next.every((item, index) => item === items[index]);
+  return unchanged ? undefined : next;
+}
+
 /**
  * Sort groups by a custom order.
  * Useful for maintaining consistent column order (e.g., Todo, In Progress, Done).
@@ -86,3 +159,116 @@ export function sortGroups(
     return a[0].localeCompare(b[0]);
   });
 }
+
+/** Gap between the ranks given to cards when a column is numbered from scratch */
+const RANK_STEP = 1000;
+
+/**
+ * Read the manual position of a card.
+ *
+ * @param entry - Card entry
+ * @param rankProperty - Frontmatter key holding the rank
+ * @returns Rank, or undefined for cards that were never reordered
+ */
+export function getEntryRank(entry: BasesEntry, rankProperty: string): number | undefined {
+  const value = entry.properties[rankProperty];
+  const rank = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof rank === 'number' && Number.isFinite(rank) ? rank : undefined;
+}
+
+/**
+ * Compare two property values for sorting: numbers and dates by value,
+ * text in natural order (so "10" comes after "9"). Lists use their first item.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const first = (value: unknown) => (Array.isArray(value) ? (value as unknown[])[0] : value);
+  const left = first(a);
+  const right = first(b);
+
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() - right.getTime();
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  return valueToString(left).localeCompare(valueToString(right), undefined, { numeric: true });
+}
+
+/**
+ * Sort cards by a property, or by their manual rank when no property is given.
+ * Cards without a value keep their Bases order after the others.
+ *
+ * @param entries - Cards to sort
+ * @param sortProperty - Property id to sort by, '' for manual order
+ * @param direction - Sort direction of the property (manual order is always ascending)
+ * @param rankProperty - Frontmatter key holding the manual rank
+ * @returns Sorted copy of the entries
+ */
+export function sortCards(
+  entries: BasesEntry[],
+  sortProperty: string,
+  direction: CardSortDirection,
+  rankProperty: string
+): BasesEntry[] {
+  const keyed = entries.map((entry, index) => {
+    const value = sortProperty ? getEntryValue(entry, sortProperty) : getEntryRank(entry, rankProperty);
+    const missing = value === undefined || value === null || value === ''
+      || (Array.isArray(value) && value.length === 0);
+    return { entry, index, value, missing };
+  });
+  const sign = sortProperty && direction === 'desc' ? -1 : 1;
+
+  keyed.sort((a, b) => {
+    if (a.missing !== b.missing) return a.missing ? 1 : -1;
+    const order = a.missing ? 0 : sign * compareValues(a.value, b.value);
+    return order !== 0 ? order : a.index - b.index;
+  });
+
+  return keyed.map(({ entry }) => entry);
+}
+
+/**
+ * Give cards moved into a column ranks that place them at their new position.
+ * Only the moved cards get a rank between their neighbors; the whole column is
+ * numbered again when a neighbor has no rank yet or the gap is used up.
+ *
+ * @param ordered - Cards of the target column in their new order
+ * @param start - Index of the first moved card in `ordered`
+ * @param count - Number of moved cards (placed next to each other)
+ * @param rankProperty - Frontmatter key holding the rank
+ * @returns Cards whose rank must be written, with their new rank
+ */
+export function getRankUpdates(
+  ordered: BasesEntry[],
+  start: number,
+  count: number,
+  rankProperty: string
+): Array<[BasesEntry, number]> {
+  const end = start + count;
+  const previous = start > 0 ? getEntryRank(ordered[start - 1], rankProperty) : undefined;
+  const next = end < ordered.length ? getEntryRank(ordered[end], rankProperty) : undefined;
+  const moved = ordered.slice(start, end);
+
+  // Unranked cards come last, so the card before must have a rank to stay in front
+  const hasRoom = next === undefined || previous === undefined
+    || (next - previous) / (count + 1) > 1e-6;
+  if ((start === 0 || previous !== undefined) && hasRoom) {
+    return moved.map((entry, offset): [BasesEntry, number] => {
+      if (previous !== undefined && next !== undefined) {
+        return [entry, previous + ((next - previous) * (offset + 1)) / (count + 1)];
+      }
+      if (previous !== undefined) {
+        return [entry, previous + RANK_STEP * (offset + 1)];
+      }
+      if (next !== undefined) {
+        return [entry, next - RANK_STEP * (count - offset)];
+      }
+      return [entry, RANK_STEP * (offset + 1)];
+    });
+  }
+
+  // Number the column from scratch, keeping ranks that are already right
+  return ordered
+    .map((entry, index): [BasesEntry, number] => [entry, RANK_STEP * (index + 1)])
+    .filter(([entry, rank]) => getEntryRank(entry, rankProperty) !== rank);
+}
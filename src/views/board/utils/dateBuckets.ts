@@ -0,0 +1,154 @@
+import { addDays, addWeeks, eachDayOfInterval, endOfWeek, max, startOfDay, startOfWeek } from 'date-fns';
+import { BasesEntry } from '../../../types/view-config';
+import { getEntryValue } from '../../../utils/basesDataAdapter';
+import { parseDate } from '../../../utils/dateParsing';
+import { getWeekOptions } from '../../../utils/dateLocale';
+import { t, TranslationKey } from '../../../i18n';
+
+/**
+ * Relative periods a date property is grouped into when the Board groups by date.
+ */
+type DateBucket = 'overdue' | 'today' | 'tomorrow' | 'thisWeek' | 'later' | 'noDate';
+
+/** Buckets in column order; their ids are the group keys */
+const DATE_BUCKETS: DateBucket[] = ['overdue', 'today', 'tomorrow', 'thisWeek', 'later', 'noDate'];
+
+const BUCKET_LABELS: Record<DateBucket, TranslationKey> = {
+  overdue: 'board.bucket.overdue',
+  today: 'board.bucket.today',
+  tomorrow: 'board.bucket.tomorrow',
+  thisWeek: 'board.bucket.thisWeek',
+  later: 'board.bucket.later',
+  noDate: 'board.bucket.noDate',
+};
+
+/**
+ * Buckets shown on a day, in column order. "This week" is left out on the
+ * last two days of the week, when no day after tomorrow is left in it.
+ *
+ * @param today - Start of the current day
+ * @returns Ids of the buckets
+ */
+export function getDateBuckets(today: Date): DateBucket[] {
+  const hasDaysLeft = addDays(today, 2) <= endOfWeek(today, getWeekOptions());
+  return hasDaysLeft ? DATE_BUCKETS : DATE_BUCKETS.filter((bucket) => bucket !== 'thisWeek');
+}
+
+/**
+ * Column title of a bucket in the app language.
+ *
+ * @param key - Group key (bucket id)
+ * @returns Translated title, or the key itself when it is no bucket
+ */
+export function getDateBucketLabel(key: string): string {
+  return isDateBucket(key) ? t(BUCKET_LABELS[key]) : key;
+}
+
+function isDateBucket(key: string): key is DateBucket {
+  return (DATE_BUCKETS as string[]).includes(key);
+}
+
+/**
+ * Get the bucket a date falls in.
+ * "This week" covers the days after tomorrow until the end of the week.
+ *
+ * @param date - Date of the card, or null when it has none
+ * @param today - Start of the current day
+ * @returns Bucket of the date
+ */
+function getDateBucket(date: Date | null, today: Date): DateBucket {
+  if (!date) return 'noDate';
+  const day = startOfDay(date);
+  if (day < today) return 'overdue';
+  if (day.getTime() === today.getTime()) return 'today';
+  if (day.getTime() === addDays(today, 1).getTime()) return 'tomorrow';
+  return day <= endOfWeek(today, getWeekOptions()) ? 'thisWeek' : 'later';
+}
+
+/**
+ * Group entries into date buckets by a date property.
+ * Every bucket shown today is present, so cards can be dropped on empty ones.
+ *
+ * @param entries - Array of entries to group
+ * @param propertyId - Date property id
+ * @param today - Start of the current day
+ * @param dateFormats - Custom date formats from plugin settings
+ * @returns Map of bucket id to entries, in column order
+ */
+export function groupEntriesByDateBucket(
+  entries: BasesEntry[],
+  propertyId: string,
+  today: Date,
+  dateFormats: string[] = []
+): Map<string, BasesEntry[]> {
+  const groups = new Map<string, BasesEntry[]>(getDateBuckets(today).map((bucket) => [bucket, []]));
+
+  entries.forEach((entry) => {
+    const bucket = getDateBucket(parseDate(getEntryValue(entry, propertyId), dateFormats), today);
+    groups.get(bucket)?.push(entry);
+  });
+
+  return groups;
+}
+
+/**
+ * Date that stands for a bucket when a card is dropped on it:
+ * yesterday for "Overdue", Friday for "This week" (or the last day of the week
+ * once Friday is no later than tomorrow) and the start of next week for "Later"
+ * (or the day after tomorrow when next week starts tomorrow).
+ *
+ * @param bucket - Target bucket
+ * @param today - Start of the current day
+ * @returns Start of the day, or null for "No date"
+ */
+function getBucketDate(bucket: DateBucket, today: Date): Date | null {
+  const weekOptions = getWeekOptions();
+  switch (bucket) {
+    case 'overdue':
+      return addDays(today, -1);
+    case 'today':
+      return new Date(today);
+    case 'tomorrow':
+      return addDays(today, 1);
+    case 'thisWeek': {
+      const weekEnd = endOfWeek(today, weekOptions);
+      const friday = eachDayOfInterval({ start: startOfWeek(today, weekOptions), end: weekEnd })
+        .find((day) => day.getDay() === 5);
+      return friday && friday > addDays(today, 1) ? friday : startOfDay(weekEnd);
+    }
+    case 'later':
+      // Both are after the end of this week and after tomorrow
+      return max([startOfWeek(addWeeks(today, 1), weekOptions), addDays(today, 2)]);
+    case 'noDate':
+      return null;
+  }
+}
+
+/**
+ * New value of a date property when its card is dropped on a bucket.
+ * The card's time of day is kept.
+ *
+ * @param value - Current value of the date property
+ * @param key - Group key (bucket id) of the target bucket
+ * @param today - Start of the current day
+ * @param dateFormats - Custom date formats from plugin settings
+ * @returns New date, null to clear the property, or undefined when the card stays in its bucket
+ * (or the bucket isn't shown today)
+ */
+export function getDateBucketValue(
+  value: unknown,
+  key: string,
+  today: Date,
+  dateFormats: string[] = []
+): Date | null | undefined {
+  const current = parseDate(value, dateFormats);
+  if (!isDateBucket(key) || !getDateBuckets(today).includes(key) || key === getDateBucket(current, today)) {
+    return undefined;
+  }
+
+  const date = getBucketDate(key, today);
+  if (date && current) {
+    date.setHours(current.getHours(), current.getMinutes(), current.getSeconds());
+  }
+  return date;
+}
@@ -0,0 +1,183 @@
+/**
+ * A list of cards under a `## Column` heading of a Kanban plugin board.
+ */
+export interface KanbanColumn {
+  title: string;
+  /** Card text without the checkbox; multi-line cards keep their line breaks */
+  cards: string[];
+  /** Column marked with **Complete**: its cards are checked */
+  complete: boolean;
+}
+
+/**
+ * A Kanban plugin board file split into the parts this plugin reads and writes.
+ * Frontmatter, archive and settings are kept as raw text so they survive a rewrite.
+ */
+export interface KanbanBoard {
+  /** Frontmatter including the --- fences, or null */
+  frontmatter: string | null;
+  columns: KanbanColumn[];
+  /** Everything from the *** archive separator up to the settings, or null */
+  archive: string | null;
+  /** The %% kanban:settings %% block, or null */
+  settings: string | null;
+}
+
+/** Frontmatter key that marks a note as a Kanban plugin board */
+export const KANBAN_FRONTMATTER_KEY = 'kanban-plugin';
+
+const DEFAULT_FRONTMATTER = `---\n\n${KANBAN_FRONTMATTER_KEY}: basic\n\n---`;
+const DEFAULT_SETTINGS = `%% kanban:settings\n\`\`\`\n{"${KANBAN_FRONTMATTER_KEY}":"basic"}\n\`\`\`\n%%`;
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const SETTINGS_MARKER = '%% kanban:settings';
+const COMPLETE_MARKER = '**Complete**';
+const CARD_REGEX = /^[-*+] \[([ xX])\] ?(.*)$/;
+const WIKILINK_REGEX = /\[\[([^\]|#^]*)(?:[#^][^\]|]*)?(?:\|([^\]]*))?\]\]/;
+const MARKDOWN_LINK_REGEX = /\[([^\]]*)\]\(([^)]+)\)/;
+
+/**
+ * Parse a board file written by the Kanban plugin.
+ *
+ * @param text - Content of the board note
+ * @returns Columns in file order, plus the raw parts to keep on rewrite
+ */
+export function parseKanbanMarkdown(text: string): KanbanBoard {
+  const frontmatterMatch = FRONTMATTER_REGEX.exec(text);
+  const frontmatter = frontmatterMatch ? frontmatterMatch[0].trimEnd() : null;
+  let body = frontmatterMatch ? text.slice(frontmatterMatch[0].length) : text;
+
+  let settings: string | null = null;
+  const settingsIndex = body.indexOf(SETTINGS_MARKER);
+  if (settingsIndex !== -1) {
+    settings = body.slice(settingsIndex).trim();
+    body = body.slice(0, settingsIndex);
+  }
+
+  let archive: string | null = null;
+  const archiveMatch = /^\*\*\*\s*$/m.exec(body);
+  if (archiveMatch) {
+    archive = body.slice(archiveMatch.index).trim();
+    body = body.slice(0, archiveMatch.index);
+  }
+
+  const columns: KanbanColumn[] = [];
+  let current: KanbanColumn | null = null;
+  let inCard = false;
+
+  body.split(/\r?\n/).forEach((line) => {
+    const heading = /^##\s+(.+?)\s*$/.exec(line);
+    if (heading) {
+      current = { title: heading[1], cards: [], complete: false };
+      columns.push(current);
+      inCard = false;
+      return;
+    }
+    if (!current) return;
+
+    if (line.trim() === COMPLETE_MARKER) {
+      current.complete = true;
+      return;
+    }
+
+    const card = CARD_REGEX.exec(line);
+    if (card) {
+      current.cards.push(card[2].trim());
+      inCard = true;
+      return;
+    }
+
+    // Indented lines continue the previous card
+    if (inCard && /^\s+\S/.test(line) && current.cards.length > 0) {
+      const lastIndex = current.cards.length - 1;
+      current.cards[lastIndex] = `${current.cards[lastIndex]}\n${line.trim()}`;
+      return;
+    }
+
+    inCard = false;
+  });
+
+  return { frontmatter, columns, archive, settings };
+}
+
+/**
+ * Write columns in the Kanban plugin's board format.
+ * Frontmatter, archive and settings of an existing board are kept;
+ * a new board gets the plugin's defaults.
+ *
+ * @param columns - Columns in board order
+ * @param existing - Parsed board being overwritten, if any
+ * @returns Markdown for the board note
+ */
+export function serializeKanbanMarkdown(columns: KanbanColumn[], existing?: KanbanBoard): string {
+  const parts = [existing?.frontmatter ?? DEFAULT_FRONTMATTER];
+
+  columns.forEach((column) => {
+    const lines = [`## ${column.title}`, ''];
+    if (column.complete) {
+      lines.push(COMPLETE_MARKER);
+    }
+    column.cards.forEach((card) => {
+      const [first, ...rest] = card.split('\n');
+      lines.push(`- [${column.complete ? 'x' : ' '}] ${first}`);
+      rest.forEach((line) => lines.push(`\t${line}`));
+    });
+    parts.push(lines.join('\n') + '\n');
+  });
+
+  if (existing?.archive) {
+    parts.push(existing.archive);
+  }
+  parts.push(existing?.settings ?? DEFAULT_SETTINGS);
+
+  return parts.join('\n\n') + '\n';
+}
+
+/**
+ * Get the link target of a card, if its text contains a wikilink or markdown link.
+ *
+ * @param card - Card text
+ * @returns Link path without heading/block reference, or null
+ */
+export function getCardLinkPath(card: string): string | null {
+  const wikilink = WIKILINK_REGEX.exec(card);
+  if (wikilink) {
+    return wikilink[1].trim() || null;
+  }
+
+  const markdownLink = MARKDOWN_LINK_REGEX.exec(card);
+  if (markdownLink && !/^[a-z]+:\/\//i.test(markdownLink[2])) {
+    return decodeLinkPath(markdownLink[2].split('#')[0]).trim() || null;
+  }
+
+  return null;
+}
+
+/**
+ * Decode %-escapes of a markdown link path; paths with a stray % are kept as written.
+ */
+function decodeLinkPath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Get a plain title for a card: links replaced by their text,
+ * Kanban dates/times (@{...}) and formatting removed, first line only.
+ *
+ * @param card - Card text
+ * @returns Title for a new note
+ */
+export function getCardTitle(card: string): string {
+  return card
+    .split('\n')[0]
+    .replace(new RegExp(WIKILINK_REGEX.source, 'g'), (_, target: string, alias?: string) => alias || target)
+    .replace(new RegExp(MARKDOWN_LINK_REGEX.source, 'g'), '$1')
+    .replace(/@@?\{[^}]*\}/g, '')
+    .replace(/[*_~`]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -3,6 +3,9 @@ import * as React from 'react';
 import { ReactBasesView } from '../base/ReactBasesView';
 import { CalendarView } from './CalendarView';
 import { ErrorBoundary } from '../../components/shared/ErrorBoundary';
+import { getColorViewOptions, getNoteCreationViewOptions } from '../base/viewOptions';
+import type BasesCustomViewsPlugin from '../../main';
+import { t } from '../../i18n';
 
 export const CalendarViewType = 'bases-calendar';
 
@@ -13,27 +16,29 @@ export const CalendarViewType = 'bases-calendar';
 export class CalendarBasesView extends ReactBasesView {
   type = CalendarViewType;
 
-  constructor(controller: QueryController, containerEl: HTMLElement) {
-    super(controller, containerEl);
+  constructor(controller: QueryController, containerEl: HTMLElement, plugin: BasesCustomViewsPlugin) {
+    super(controller, containerEl, plugin);
   }
 
   /**
-   * Extract property name from BasesPropertyId (format: "type.propertyName")
+   * Start and end dates are shifted together by the bulk action bar and the context menu
    */
-  private extractPropertyName(propertyId: unknown): string {
-    if (!propertyId || typeof propertyId !== 'string') return '';
-    const parts = propertyId.split('.');
-    return parts.length > 1 ? parts.slice(1).join('.') : propertyId;
+  protected override getDateProperties(): string[] {
+    return [
+      this.getPropertyOption('startDateProperty') || 'note.start',
+      this.getPropertyOption('endDateProperty') || 'note.end',
+    ];
   }
 
   /**
    * Get the React component to render
    */
   protected getReactComponent(data: BasesQueryResult): React.ReactElement {
-    // Get options from config - property type returns BasesPropertyId like "date.start"
-    const dateProperty = this.extractPropertyName(this.config.get('startDateProperty')) || 'start';
-    const endDateProperty = this.extractPropertyName(this.config.get('endDateProperty')) || 'end';
+    // Get options from config - property type returns BasesPropertyId like "note.start" or "formula.due"
+    const dateProperty = this.getPropertyOption('startDateProperty') || 'note.start';
+    const endDateProperty = this.getPropertyOption('endDateProperty') || 'note.end';
     const viewMode = (this.config.get('viewMode') as 'month' | 'week' | 'day') || 'month';
+    const icsExportPath = (this.config.get('icsExportPath') as string) || undefined;
 
     // Wrap in ErrorBoundary to catch React errors
     return React.createElement(
@@ -45,12 +50,15 @@ export class CalendarBasesView extends ReactBasesView {
           dateProperty,
           endDateProperty,
           viewMode,
+          dateFormats: this.plugin.settings.dateFormats,
+          icsExportPath,
         },
         onViewModeChange: (value: 'month' | 'week' | 'day') => {
           this.config.set('viewMode', value);
         },
         app: this.app,
         hoverParent: this,
+        newNoteOptions: this.getNoteCreationOptions(),
       })
     );
   }
@@ -63,29 +71,38 @@ export class CalendarBasesView extends ReactBasesView {
     return [
       {
         key: 'startDateProperty',
-        displayName: 'Start Date',
+        displayName: t('options.startDate'),
         type: 'property',
-        default: 'start',
-        placeholder: 'Select date property',
+        default: 'note.start',
+        placeholder: t('common.selectDateProperty'),
       },
       {
         key: 'endDateProperty',
-        displayName: 'End Date',
+        displayName: t('options.endDate'),
         type: 'property',
-        default: 'end',
-        placeholder: 'Select date property (optional)',
+        default: 'note.end',
+        placeholder: t('common.selectDatePropertyOptional'),
       },
       {
         key: 'viewMode',
-        displayName: 'View Mode',
+        displayName: t('options.viewMode'),
         type: 'dropdown',
         default: 'month',
         options: {
-          month: 'Month',
-          week: 'Week',
-          day: 'Day',
+          month: t('common.month'),
+          week: t('common.week'),
+          day: t('common.day'),
         },
       },
+      {
+        key: 'icsExportPath',
+        displayName: t('options.icsExportPath'),
+        type: 'text',
+        default: 'calendar.ics',
+        placeholder: 'calendar.ics',
+      },
+      ...getColorViewOptions(),
+      ...getNoteCreationViewOptions(),
     ];
   }
 }
@@ -3,6 +3,7 @@ import { App, BasesQueryResult, HoverParent } from 'obsidian';
 import { DndContext, DragOverlay, PointerSensor, useSensor, useSensors, pointerWithin } from '@dnd-kit/core';
 import { useCalendarData } from './hooks/useCalendarData';
 import { useEventDrag } from './hooks/useEventDrag';
+import { useICalendar } from './hooks/useICalendar';
 import { MonthView } from './components/MonthView';
 import { WeekView } from './components/WeekView';
 import { DayView } from './components/DayView';
@@ -10,8 +11,19 @@ import { ViewSwitcher } from './components/ViewSwitcher';
 import { CalendarDragProvider } from './context/CalendarDragContext';
 import { TextInputModal } from '../../components/shared/TextInputModal';
 import { CalendarViewOptions } from '../../types/view-config';
-import { formatMonthYear, formatWeekRange, formatFullDate, formatDateString, previousMonth, nextMonth, previousWeek, nextWeek, previousDay, nextDay } from './utils/dateUtils';
+import { createNote, NoteCreationOptions } from '../../utils/noteCreator';
+import { reportError } from '../../utils/errorReporter';
+import { SkippedEntries } from '../../components/shared/SkippedEntries';
+import { FilterBar } from '../../components/shared/FilterBar';
+import { ColorLegend } from './components/ColorLegend';
+import { useViewCommands } from '../../context/ViewCommandsContext';
+import { formatMonthYear, formatWeekRange, formatFullDate, previousMonth, nextMonth, previousWeek, nextWeek, previousDay, nextDay } from './utils/dateUtils';
 import { startOfWeek, endOfWeek } from 'date-fns';
+import { getWeekOptions } from '../../utils/dateLocale';
+import { getVisibleRange, isAllDayEvent, isEventInRange } from './utils/calendarHelpers';
+import { getPropertyDisplayName } from '../../utils/propertyId';
+import { ViewData } from '../../utils/viewDataExport';
+import { t } from '../../i18n';
 
 interface CalendarViewProps {
   data: BasesQueryResult;
@@ -19,6 +31,8 @@ interface CalendarViewProps {
   onViewModeChange?: (value: 'month' | 'week' | 'day') => void;
   app: App;
   hoverParent: HoverParent;
+  /** Folder, file name and template for notes created from the calendar */
+  newNoteOptions: NoteCreationOptions;
 }
 
 /**
@@ -32,16 +46,26 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   onViewModeChange,
   app,
   hoverParent,
+  newNoteOptions,
 }) => {
   const {
     events,
+    skipped,
     dateProperty,
     endDateProperty,
     viewMode,
     setViewMode,
     currentDate,
     setCurrentDate,
-  } = useCalendarData(data, app, options.dateProperty, options.endDateProperty, options.viewMode);
+    goToToday,
+  } = useCalendarData(
+    data,
+    app,
+    options.dateProperty,
+    options.endDateProperty,
+    options.viewMode,
+    options.dateFormats
+  );
 
   const handleViewModeChange = React.useCallback((value: 'month' | 'week' | 'day') => {
     setViewMode(value);
@@ -50,6 +74,15 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
 
   const { handleDragEnd } = useEventDrag(events, dateProperty, app);
 
+  const { exportCalendar, importCalendar } = useICalendar(
+    events,
+    dateProperty,
+    endDateProperty,
+    options.icsExportPath,
+    newNoteOptions,
+    app
+  );
+
   // Configure drag sensors
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -89,7 +122,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
    * Navigate to today
    */
   const handleToday = () => {
-    setCurrentDate(new Date());
+    goToToday();
   };
 
   /**
@@ -98,36 +131,77 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   const handleCreateEvent = React.useCallback((date: Date) => {
     new TextInputModal(
       app,
-      'New event',
+      t('calendar.newEvent'),
       async (name) => {
         if (!name) return;
 
-        const timestamp = Date.now();
-        const fileName = `${name} ${timestamp}.md`;
-        const dateStr = formatDateString(date);
-
-        // Build frontmatter with date property
-        const frontmatter = `---\n${dateProperty}: ${dateStr}\n---\n\n`;
+        const create = async () => {
+          await createNote(app, newNoteOptions, {
+            title: name,
+            properties: { [dateProperty]: date },
+          });
+        };
 
         try {
-          await app.vault.create(fileName, frontmatter);
+          await create();
         } catch (error) {
-          console.error('Failed to create event:', error);
+          reportError({ action: t('action.createEvent'), error, retry: create });
         }
       },
-      'Event name'
+      t('calendar.eventName')
     ).open();
-  }, [app, dateProperty]);
+  }, [app, newNoteOptions, dateProperty]);
+
+  /**
+   * Events in the visible month, week or day, by start date
+   */
+  const getViewData = React.useCallback((): ViewData => {
+    const { start, end } = getVisibleRange(currentDate, viewMode);
+    const rows = events
+      .filter((event) => isEventInRange(event, start, end))
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map((event) => ({
+        file: event.file,
+        title: event.title,
+        start: event.date,
+        end: event.endDate,
+        allDay: isAllDayEvent(event),
+      }));
+
+    return {
+      name: t('view.calendar'),
+      columns: [
+        { key: 'file', label: 'file' },
+        { key: 'title', label: 'title' },
+        { key: 'start', label: getPropertyDisplayName(dateProperty) },
+        { key: 'end', label: getPropertyDisplayName(endDateProperty) },
+        { key: 'allDay', label: 'allDay' },
+      ],
+      rows,
+    };
+  }, [events, currentDate, viewMode, dateProperty, endDateProperty]);
+
+  // Expose navigation, creation, .ics export/import and data export to plugin commands
+  useViewCommands({
+    getViewData,
+    goToToday: handleToday,
+    nextPeriod: handleNext,
+    previousPeriod: handlePrevious,
+    setCalendarMode: handleViewModeChange,
+    createItem: () => handleCreateEvent(currentDate),
+    exportICalendar: () => void exportCalendar(),
+    importICalendar: importCalendar,
+  });
 
   // Format title based on view mode
   const title = viewMode === 'month'
     ? formatMonthYear(currentDate)
     : viewMode === 'week'
-      ? formatWeekRange(startOfWeek(currentDate, { weekStartsOn: 1 }), endOfWeek(currentDate, { weekStartsOn: 1 }))
+      ? formatWeekRange(startOfWeek(currentDate, getWeekOptions()), endOfWeek(currentDate, getWeekOptions()))
       : formatFullDate(currentDate);
 
   return (
-    <CalendarDragProvider>
+    <CalendarDragProvider events={events}>
     <div className="bv-calendar-view">
       {/* Header with controls */}
       <div className="bv-calendar-header">
@@ -135,7 +209,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
           <button
             className="bv-calendar-nav-button"
             onClick={handlePrevious}
-            title="Previous"
+            title={t('calendar.previous')}
           >
             ←
           </button>
@@ -143,9 +217,9 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
           <button
             className="bv-calendar-today-button"
             onClick={handleToday}
-            title="Today"
+            title={t('calendar.today')}
           >
-            Today
+            {t('calendar.today')}
           </button>
 
           <h2 className="bv-calendar-title">{title}</h2>
@@ -153,7 +227,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
           <button
             className="bv-calendar-nav-button"
             onClick={handleNext}
-            title="Next"
+            title={t('calendar.next')}
           >
             →
           </button>
@@ -162,6 +236,14 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
         <ViewSwitcher value={viewMode} onChange={handleViewModeChange} />
       </div>
 
+      <FilterBar />
+
+      {/* Colors of the values events are colored by */}
+      <ColorLegend events={events} />
+
+      {/* Notes whose dates couldn't be parsed */}
+      <SkippedEntries skipped={skipped} app={app} />
+
       {/* Calendar grid with drag-and-drop */}
       <DndContext
         sensors={sensors}
@@ -196,6 +278,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
             hoverParent={hoverParent}
             dateProperty={dateProperty}
             endDateProperty={endDateProperty}
+            newNoteOptions={newNoteOptions}
           />
         )}
 
@@ -0,0 +1,42 @@
+import * as React from 'react';
+import { CalendarEvent } from '../../../types/view-config';
+import { useColorRules } from '../../../context/ColorRulesContext';
+import { getColorForValue } from '../../../utils/colorUtils';
+import { getPropertyDisplayName } from '../../../utils/propertyId';
+
+interface ColorLegendProps {
+  events: CalendarEvent[];
+}
+
+/**
+ * Lists the values of the color property found among the events, with their colors.
+ * Hidden when the view isn't colored by a property.
+ */
+export const ColorLegend: React.FC<ColorLegendProps> = ({ events }) => {
+  const rules = useColorRules();
+
+  const values = React.useMemo(() => {
+    const unique = new Set<string>();
+    events.forEach((event) => {
+      if (event.colorValue !== undefined) unique.add(event.colorValue);
+    });
+    return Array.from(unique).sort((a, b) => a.localeCompare(b));
+  }, [events]);
+
+  if (!rules?.property || values.length === 0) return null;
+
+  return (
+    <div className="bv-color-legend">
+      <span>{getPropertyDisplayName(rules.property)}:</span>
+      {values.map((value) => (
+        <span key={value} className="bv-color-legend-item">
+          <span
+            className="bv-color-legend-swatch"
+            style={{ background: getColorForValue(value, rules).text }}
+          />
+          {value}
+        </span>
+      ))}
+    </div>
+  );
+};
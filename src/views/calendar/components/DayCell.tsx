@@ -5,6 +5,7 @@ import { CalendarEvent } from '../../../types/view-config';
 import { Event } from './Event';
 import { formatDayNumber, formatDateString } from '../utils/dateUtils';
 import { isDayToday } from '../utils/calendarHelpers';
+import { t } from '../../../i18n';
 
 interface DayCellProps {
   date: Date;
@@ -78,7 +79,7 @@ export const DayCell: React.FC<DayCellProps> = ({
         ))}
 
         {events.length === 0 && isOver && (
-          <div className="bv-calendar-day-drop-hint">Drop here</div>
+          <div className="bv-calendar-day-drop-hint">{t('calendar.dropHere')}</div>
         )}
       </div>
     </div>
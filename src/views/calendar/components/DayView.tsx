@@ -2,11 +2,19 @@ import * as React from 'react';
 import { App, HoverParent } from 'obsidian';
 import { CalendarEvent } from '../../../types/view-config';
 import { useHoverPreview } from '../../../hooks/useHoverPreview';
+import { useNoteContextMenu } from '../../../hooks/useNoteContextMenu';
 import { createNoteOpener } from '../../../utils/noteOpener';
-import { isSameDay, getHours, getMinutes, differenceInMinutes, format, setHours, setMinutes } from 'date-fns';
-import { isDayInEventRange } from '../utils/calendarHelpers';
+import { useIsSelected } from '../../../context/SelectionContext';
+import { useItemColorStyle } from '../../../context/ColorRulesContext';
+import { isSameDay, getHours, getMinutes, differenceInMinutes, setHours, setMinutes } from 'date-fns';
+import { isAllDayEvent, isDayInEventRange } from '../utils/calendarHelpers';
 import { NewEventModal } from './NewEventModal';
 import { useTimedEventDrag } from '../hooks/useTimedEventDrag';
+import { usePersistedScroll } from '../../../context/ViewStateContext';
+import { createNote, NoteCreationOptions } from '../../../utils/noteCreator';
+import { reportError } from '../../../utils/errorReporter';
+import { formatLocalized } from '../../../utils/dateLocale';
+import { t } from '../../../i18n';
 
 interface DayViewProps {
   currentDate: Date;
@@ -15,44 +23,12 @@ interface DayViewProps {
   hoverParent: HoverParent;
   dateProperty: string;
   endDateProperty: string;
+  newNoteOptions: NoteCreationOptions;
 }
 
 // Hour height in pixels
 const HOUR_HEIGHT = 60;
 
-/**
- * Check if an event is a true all-day event (starts at midnight with no meaningful time)
- * Events with specific start times that span multiple days are NOT all-day events
- */
-function isAllDayEvent(event: CalendarEvent): boolean {
-  const startHours = getHours(event.date);
-  const startMinutes = getMinutes(event.date);
-
-  // If event has a specific start time (not midnight), it's a timed event
-  if (startHours !== 0 || startMinutes !== 0) {
-    return false;
-  }
-
-  // If it's a multi-day event starting at midnight, check if end is also midnight
-  if (event.endDate) {
-    const endHours = getHours(event.endDate);
-    const endMinutes = getMinutes(event.endDate);
-    // If end time is also midnight (or 23:59), treat as all-day
-    if (endHours === 0 && endMinutes === 0) {
-      return true;
-    }
-    // If end time is 23:59, also treat as all-day
-    if (endHours === 23 && endMinutes === 59) {
-      return true;
-    }
-    // Otherwise it's a timed event that happens to start at midnight
-    return false;
-  }
-
-  // Single event at midnight with no end time - treat as all-day
-  return true;
-}
-
 /**
  * Get all events for a specific day, including multi-day events.
  */
@@ -248,8 +224,12 @@ export const DayView: React.FC<DayViewProps> = ({
   hoverParent,
   dateProperty,
   endDateProperty,
+  newNoteOptions,
 }) => {
   const eventsColumnRef = React.useRef<HTMLDivElement>(null);
+  const gridContainerRef = React.useRef<HTMLDivElement>(null);
+  // Keep the scroll position of the hour grid across re-renders and tab switches
+  usePersistedScroll(gridContainerRef, 'dayScrollTop', 'top');
   const dayEvents = getAllEventsForDay(events, currentDate);
   const isToday = isSameDay(currentDate, new Date());
 
@@ -366,7 +346,7 @@ export const DayView: React.FC<DayViewProps> = ({
           startTime,
           endTime,
           async (name: string, start: Date, end: Date) => {
-            await createNewEvent(app, name, start, end, dateProperty, endDateProperty);
+            await createNewEvent(app, newNoteOptions, name, start, end, dateProperty, endDateProperty);
           }
         );
         modal.open();
@@ -385,7 +365,7 @@ export const DayView: React.FC<DayViewProps> = ({
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isCreating, creationStart, creationEnd, currentDate, app, dateProperty, endDateProperty, positionToMinutes, minutesToPosition]);
+  }, [isCreating, creationStart, creationEnd, currentDate, app, newNoteOptions, dateProperty, endDateProperty, positionToMinutes, minutesToPosition]);
 
   // Calculate creation preview dimensions
   const creationPreview = React.useMemo(() => {
@@ -412,7 +392,7 @@ export const DayView: React.FC<DayViewProps> = ({
       {/* All-day events section */}
       {allDayEvents.length > 0 && (
         <div className="bv-calendar-day-allday-section">
-          <div className="bv-calendar-day-allday-label">All day</div>
+          <div className="bv-calendar-day-allday-label">{t('calendar.allDay')}</div>
           <div className="bv-calendar-day-allday-events">
             {allDayEvents.map((event) => (
               <AllDayEvent
@@ -428,7 +408,7 @@ export const DayView: React.FC<DayViewProps> = ({
       )}
 
       {/* Hourly grid */}
-      <div className="bv-calendar-day-grid-container">
+      <div ref={gridContainerRef} className="bv-calendar-day-grid-container">
         <div className="bv-calendar-day-grid">
           {/* Time labels column */}
           <div className="bv-calendar-day-time-column">
@@ -512,29 +492,27 @@ export const DayView: React.FC<DayViewProps> = ({
  */
 async function createNewEvent(
   app: App,
+  newNoteOptions: NoteCreationOptions,
   name: string,
   startDate: Date,
   endDate: Date,
   dateProperty: string,
   endDateProperty: string
 ): Promise<void> {
-  const fileName = `${name || 'Untitled Event'}.md`;
-  const startDateStr = format(startDate, "yyyy-MM-dd'T'HH:mm:ss");
-  const endDateStr = format(endDate, "yyyy-MM-dd'T'HH:mm:ss");
+  const title = name || 'Untitled Event';
 
-  const frontmatter = `---
-${dateProperty}: ${startDateStr}
-${endDateProperty}: ${endDateStr}
----
-
-# ${name || 'Untitled Event'}
-
-`;
+  const create = async () => {
+    await createNote(app, newNoteOptions, {
+      title,
+      properties: { [dateProperty]: startDate, [endDateProperty]: endDate },
+      body: `# ${title}\n\n`,
+    });
+  };
 
   try {
-    await app.vault.create(fileName, frontmatter);
+    await create();
   } catch (error) {
-    console.error('Failed to create new event:', error);
+    reportError({ action: t('action.createEvent'), error, retry: create });
   }
 }
 
@@ -561,6 +539,9 @@ const AllDayEvent: React.FC<AllDayEventProps> = ({
   );
 
   const openNote = createNoteOpener(app, event.file);
+  const handleContextMenu = useNoteContextMenu(event.file, app);
+  const isSelected = useIsSelected(event.id);
+  const colorStyle = useItemColorStyle(event.colorValue);
 
   const isMultiDay = event.endDate && !isSameDay(event.date, event.endDate);
   const isStart = isSameDay(event.date, currentDate);
@@ -568,13 +549,16 @@ const AllDayEvent: React.FC<AllDayEventProps> = ({
 
   // Format date range for multi-day events
   const formatDate = (date: Date) => {
-    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    return formatLocalized(date, 'MMM d');
   };
 
   return (
     <div
-      className={`bv-calendar-day-allday-event ${isMultiDay ? 'bv-calendar-day-event-multiday' : ''}`}
+      className={`bv-calendar-day-allday-event ${isMultiDay ? 'bv-calendar-day-event-multiday' : ''} ${isSelected ? 'bv-selected' : ''} ${colorStyle ? 'bv-colored' : ''}`}
+      data-selection-id={event.id}
+      style={colorStyle}
       onClick={openNote}
+      onContextMenu={handleContextMenu}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
     >
@@ -582,8 +566,8 @@ const AllDayEvent: React.FC<AllDayEventProps> = ({
       {isMultiDay && (
         <span className="bv-calendar-day-allday-event-dates">
           {formatDate(event.date)} - {formatDate(event.endDate!)}
-          {isStart && <span className="bv-calendar-day-event-badge">Start</span>}
-          {isEnd && !isStart && <span className="bv-calendar-day-event-badge">End</span>}
+          {isStart && <span className="bv-calendar-day-event-badge">{t('calendar.start')}</span>}
+          {isEnd && !isStart && <span className="bv-calendar-day-event-badge">{t('calendar.end')}</span>}
         </span>
       )}
     </div>
@@ -626,6 +610,8 @@ const TimedEvent: React.FC<TimedEventProps> = ({
   );
 
   const openNote = createNoteOpener(app, event.file);
+  const handleContextMenu = useNoteContextMenu(event.file, app);
+  const isSelected = useIsSelected(event.id);
 
   const {
     isDragging,
@@ -664,6 +650,7 @@ const TimedEvent: React.FC<TimedEventProps> = ({
   }, [consumeDragMovement, openNote]);
 
   const isActive = isDragging || isResizing;
+  const colorStyle = useItemColorStyle(event.colorValue);
 
   // Calculate visual position and size during drag/resize
   const visualTop = React.useMemo(() => {
@@ -693,8 +680,10 @@ const TimedEvent: React.FC<TimedEventProps> = ({
 
   return (
     <div
-      className={`bv-calendar-day-timed-event ${isActive ? 'bv-event-active' : ''}`}
+      className={`bv-calendar-day-timed-event ${isActive ? 'bv-event-active' : ''} ${isSelected ? 'bv-selected' : ''} ${colorStyle ? 'bv-colored' : ''}`}
+      data-selection-id={event.id}
       style={{
+        ...colorStyle,
         top: visualTop,
         height: Math.max(visualHeight, 20),
         left: `${leftPercent}%`,
@@ -703,6 +692,7 @@ const TimedEvent: React.FC<TimedEventProps> = ({
         cursor: isDragging ? 'grabbing' : 'grab',
       }}
       onClick={handleClick}
+      onContextMenu={handleContextMenu}
       onMouseDown={handleDragStart}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
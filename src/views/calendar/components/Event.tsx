@@ -3,7 +3,10 @@ import { createPortal } from 'react-dom';
 import { App, HoverParent } from 'obsidian';
 import { CalendarEvent } from '../../../types/view-config';
 import { useHoverPreview } from '../../../hooks/useHoverPreview';
+import { useNoteContextMenu } from '../../../hooks/useNoteContextMenu';
 import { createNoteOpener } from '../../../utils/noteOpener';
+import { useIsSelected } from '../../../context/SelectionContext';
+import { useItemColorStyle } from '../../../context/ColorRulesContext';
 import { useMultiDayEventDrag } from '../hooks/useMultiDayEventDrag';
 import { useEventResize } from '../hooks/useEventResize';
 
@@ -52,6 +55,8 @@ export const Event: React.FC<EventProps> = ({
   );
 
   const openNote = createNoteOpener(app, event.file);
+  const handleContextMenu = useNoteContextMenu(event.file, app);
+  const isSelected = useIsSelected(event.id);
 
   const handleClick = React.useCallback((e: React.MouseEvent) => {
     const hadDrag = consumeDragMovement();
@@ -67,8 +72,10 @@ export const Event: React.FC<EventProps> = ({
   }, [consumeDragMovement, consumeResizeMovement, openNote]);
 
   const isActive = isDragging || isResizing;
+  const colorStyle = useItemColorStyle(event.colorValue);
 
   const style: React.CSSProperties = {
+    ...colorStyle,
     zIndex: isActive ? 999 : undefined,
     position: 'relative',
   };
@@ -76,9 +83,11 @@ export const Event: React.FC<EventProps> = ({
   return (
     <>
       <div
-        className={`bv-calendar-event ${isActive ? 'bv-event-active' : ''}`}
+        className={`bv-calendar-event ${isActive ? 'bv-event-active' : ''} ${isSelected ? 'bv-selected' : ''} ${colorStyle ? 'bv-colored' : ''}`}
+        data-selection-id={event.id}
         style={style}
         onClick={handleClick}
+        onContextMenu={handleContextMenu}
         onMouseEnter={handleMouseEnter}
         onMouseLeave={handleMouseLeave}
         title={event.title}
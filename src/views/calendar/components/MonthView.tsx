@@ -4,7 +4,7 @@ import { useDndMonitor } from '@dnd-kit/core';
 import { CalendarEvent } from '../../../types/view-config';
 import { DayCell } from './DayCell';
 import { MultiDayEvent } from './MultiDayEvent';
-import { formatDateString } from '../utils/dateUtils';
+import { formatDateString, formatWeekday } from '../utils/dateUtils';
 import { useCalendarDrag } from '../context/CalendarDragContext';
 import {
   generateMonthDays,
@@ -25,8 +25,6 @@ interface MonthViewProps {
   onCreateEvent?: (date: Date) => void;
 }
 
-const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-
 /**
  * MonthView component displaying a monthly calendar grid.
  * Shows 6 weeks (42 days) including padding from adjacent months.
@@ -47,16 +45,6 @@ export const MonthView: React.FC<MonthViewProps> = ({
   const [dragOverDate, setDragOverDate] = React.useState<string | null>(null);
   // Get highlighted dates from native drag context
   const { highlightedDates } = useCalendarDrag();
-  // Counter to force re-sort after resize/drag ends
-  const [sortVersion, setSortVersion] = React.useState(0);
-
-  // Callback to trigger re-sort after interaction ends
-  const handleInteractionEnd = React.useCallback(() => {
-    // Small delay to allow file changes to propagate
-    setTimeout(() => {
-      setSortVersion(v => v + 1);
-    }, 50);
-  }, []);
 
   useDndMonitor({
     onDragOver(event) {
@@ -83,18 +71,17 @@ export const MonthView: React.FC<MonthViewProps> = ({
   }, [days]);
 
   // Memoize multi-day events per week to prevent re-sorting during drag
-  // Only re-compute when events change or sortVersion changes (after drag/resize ends)
   const multiDayEventsByWeek = React.useMemo(() => {
     return weeks.map(week => getMultiDayEventsForWeek(events, week));
-  }, [events, weeks, sortVersion]);
+  }, [events, weeks]);
 
   return (
     <div className="bv-calendar-month-view">
-      {/* Weekday header */}
+      {/* Weekday header (first week row gives the configured week start) */}
       <div className="bv-calendar-weekday-header">
-        {WEEKDAYS.map((day) => (
-          <div key={day} className="bv-calendar-weekday">
-            {day}
+        {weeks[0].map((day) => (
+          <div key={day.getDay()} className="bv-calendar-weekday">
+            {formatWeekday(day)}
           </div>
         ))}
       </div>
@@ -158,7 +145,6 @@ export const MonthView: React.FC<MonthViewProps> = ({
                         containerRef={weekRowRef}
                         dateProperty={dateProperty}
                         endDateProperty={endDateProperty}
-                        onInteractionEnd={handleInteractionEnd}
                       />
                     );
                   })}
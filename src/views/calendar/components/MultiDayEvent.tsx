@@ -3,7 +3,10 @@ import { createPortal } from 'react-dom';
 import { App, HoverParent } from 'obsidian';
 import { CalendarEvent } from '../../../types/view-config';
 import { useHoverPreview } from '../../../hooks/useHoverPreview';
+import { useNoteContextMenu } from '../../../hooks/useNoteContextMenu';
 import { createNoteOpener } from '../../../utils/noteOpener';
+import { useIsSelected } from '../../../context/SelectionContext';
+import { useItemColorStyle } from '../../../context/ColorRulesContext';
 import { useMultiDayEventDrag } from '../hooks/useMultiDayEventDrag';
 import { useEventResize } from '../hooks/useEventResize';
 
@@ -66,6 +69,8 @@ export const MultiDayEvent: React.FC<MultiDayEventProps> = ({
   );
 
   const openNote = createNoteOpener(app, event.file);
+  const handleContextMenu = useNoteContextMenu(event.file, app);
+  const isSelected = useIsSelected(event.id);
 
   const handleClick = React.useCallback((e: React.MouseEvent) => {
     const hadDrag = consumeDragMovement();
@@ -97,7 +102,10 @@ export const MultiDayEvent: React.FC<MultiDayEventProps> = ({
     }
   }, [startCol, colSpan]);
 
+  const colorStyle = useItemColorStyle(event.colorValue);
+
   const style: React.CSSProperties = {
+    ...colorStyle,
     gridColumn: `${startCol + 1} / span ${colSpan}`,
     gridRow: row + 1,
     zIndex: isActive ? 1000 : undefined,
@@ -106,9 +114,11 @@ export const MultiDayEvent: React.FC<MultiDayEventProps> = ({
   return (
     <>
       <div
-        className={`bv-calendar-multi-day-event ${continuesBefore ? 'bv-continues-before' : ''} ${continuesAfter ? 'bv-continues-after' : ''} ${isActive ? 'bv-event-active' : ''} ${isUpdated ? 'bv-event-updated' : ''}`}
+        className={`bv-calendar-multi-day-event ${continuesBefore ? 'bv-continues-before' : ''} ${continuesAfter ? 'bv-continues-after' : ''} ${isActive ? 'bv-event-active' : ''} ${isUpdated ? 'bv-event-updated' : ''} ${isSelected ? 'bv-selected' : ''} ${colorStyle ? 'bv-colored' : ''}`}
+        data-selection-id={event.id}
         style={style}
         onClick={handleClick}
+        onContextMenu={handleContextMenu}
         onMouseEnter={handleMouseEnter}
         onMouseLeave={handleMouseLeave}
         title={event.title}
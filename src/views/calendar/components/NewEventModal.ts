@@ -1,5 +1,6 @@
 import { App, Modal, Setting } from 'obsidian';
 import { format, parse, isValid } from 'date-fns';
+import { t } from '../../../i18n';
 
 /**
  * Modal for creating new calendar events with name and time.
@@ -25,14 +26,14 @@ export class NewEventModal extends Modal {
   onOpen() {
     const { contentEl } = this;
 
-    contentEl.createEl('h2', { text: 'New event' });
+    contentEl.createEl('h2', { text: t('calendar.newEvent') });
 
     // Event name input
     new Setting(contentEl)
-      .setName('Event name')
+      .setName(t('calendar.eventName'))
       .addText((text) => {
         text
-          .setPlaceholder('Enter event name')
+          .setPlaceholder(t('calendar.eventNamePlaceholder'))
           .onChange((value) => {
             this.eventName = value;
           });
@@ -42,7 +43,7 @@ export class NewEventModal extends Modal {
 
     // Start time input
     new Setting(contentEl)
-      .setName('Start time')
+      .setName(t('calendar.startTime'))
       .addText((text) =>
         text
           .setPlaceholder('09:30')
@@ -57,7 +58,7 @@ export class NewEventModal extends Modal {
 
     // End time input
     new Setting(contentEl)
-      .setName('End time')
+      .setName(t('calendar.endTime'))
       .addText((text) =>
         text
           .setPlaceholder('09:30')
@@ -74,14 +75,14 @@ export class NewEventModal extends Modal {
     new Setting(contentEl)
       .addButton((btn) =>
         btn
-          .setButtonText('Cancel')
+          .setButtonText(t('common.cancel'))
           .onClick(() => {
             this.close();
           })
       )
       .addButton((btn) =>
         btn
-          .setButtonText('Create')
+          .setButtonText(t('common.create'))
           .setCta()
           .onClick(() => {
             this.close();
@@ -1,4 +1,5 @@
 import React from 'react';
+import { t } from '../../../i18n';
 
 interface ViewSwitcherProps {
   value: 'month' | 'week' | 'day';
@@ -17,7 +18,7 @@ export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ value, onChange }) =
         }`}
         onClick={() => onChange('month')}
       >
-        Month
+        {t('common.month')}
       </button>
       <button
         className={`bv-calendar-view-button ${
@@ -25,7 +26,7 @@ export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ value, onChange }) =
         }`}
         onClick={() => onChange('week')}
       >
-        Week
+        {t('common.week')}
       </button>
       <button
         className={`bv-calendar-view-button ${
@@ -33,7 +34,7 @@ export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ value, onChange }) =
         }`}
         onClick={() => onChange('day')}
       >
-        Day
+        {t('common.day')}
       </button>
     </div>
   );
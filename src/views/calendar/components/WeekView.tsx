@@ -45,15 +45,6 @@ export const WeekView: React.FC<WeekViewProps> = ({
   const [dragOverDate, setDragOverDate] = React.useState<string | null>(null);
   // Get highlighted dates from native drag context
   const { highlightedDates } = useCalendarDrag();
-  // Counter to force re-sort after resize/drag ends
-  const [sortVersion, setSortVersion] = React.useState(0);
-
-  // Callback to trigger re-sort after interaction ends
-  const handleInteractionEnd = React.useCallback(() => {
-    setTimeout(() => {
-      setSortVersion(v => v + 1);
-    }, 50);
-  }, []);
 
   useDndMonitor({
     onDragOver(event) {
@@ -71,7 +62,7 @@ export const WeekView: React.FC<WeekViewProps> = ({
   // Memoize multi-day events to prevent re-sorting during drag
   const multiDayEvents = React.useMemo(() => {
     return getMultiDayEventsForWeek(events, days);
-  }, [events, days, sortVersion]);
+  }, [events, days]);
 
   return (
     <div className="bv-calendar-week-view" ref={containerRef}>
@@ -136,7 +127,6 @@ export const WeekView: React.FC<WeekViewProps> = ({
                   containerRef={containerRef}
                   dateProperty={dateProperty}
                   endDateProperty={endDateProperty}
-                  onInteractionEnd={handleInteractionEnd}
                 />
               );
             })}
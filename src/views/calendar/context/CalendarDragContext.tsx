@@ -1,7 +1,10 @@
 import * as React from 'react';
 import { createContext, useContext, useState, useCallback } from 'react';
+import { CalendarEvent } from '../../../types/view-config';
 
 interface CalendarDragContextValue {
+  /** All events of the calendar; selected ones are dragged together */
+  events: CalendarEvent[];
   /** Dates that should be highlighted during drag */
   highlightedDates: string[];
   /** Set the dates to highlight (as YYYY-MM-DD strings) */
@@ -16,7 +19,10 @@ const CalendarDragContext = createContext<CalendarDragContextValue | null>(null)
  * Provider for calendar drag highlight state.
  * Wraps calendar views to enable date highlighting during event drag.
  */
-export const CalendarDragProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+export const CalendarDragProvider: React.FC<{
+  events: CalendarEvent[];
+  children: React.ReactNode;
+}> = ({ events, children }) => {
   const [highlightedDates, setHighlightedDatesState] = useState<string[]>([]);
 
   const setHighlightedDates = useCallback((dates: string[]) => {
@@ -28,7 +34,7 @@ export const CalendarDragProvider: React.FC<{ children: React.ReactNode }> = ({
   }, []);
 
   return (
-    <CalendarDragContext.Provider value={{ highlightedDates, setHighlightedDates, clearHighlights }}>
+    <CalendarDragContext.Provider value={{ events, highlightedDates, setHighlightedDates, clearHighlights }}>
       {children}
     </CalendarDragContext.Provider>
   );
@@ -42,6 +48,7 @@ export function useCalendarDrag(): CalendarDragContextValue {
   if (!context) {
     // Return a no-op implementation if used outside provider
     return {
+      events: [],
       highlightedDates: [],
       setHighlightedDates: () => {},
       clearHighlights: () => {},
@@ -1,17 +1,25 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { App, BasesQueryResult } from 'obsidian';
 import { adaptBasesData } from '../../../utils/basesDataAdapter';
+import { useOptimisticEntries } from '../../../context/PendingChangesContext';
+import { useQuickFilteredEntries } from '../../../context/QuickFilterContext';
+import { useColorRules } from '../../../context/ColorRulesContext';
 import { entriesToEvents } from '../utils/calendarHelpers';
+import { useViewState } from '../../../context/ViewStateContext';
+import { formatDateString } from '../utils/dateUtils';
+import { parseDate } from '../../../utils/dateParsing';
 
 /**
  * Hook for Calendar view data management.
  * Transforms Bases data into calendar events.
+ * The displayed date is remembered in the view config until the user goes back to today.
  *
  * @param data - Data from Bases API (BasesQueryResult)
  * @param app - Obsidian app instance
  * @param initialDateProperty - Initial date property
  * @param initialEndDateProperty - Initial end date property (optional, for multi-day events)
  * @param initialViewMode - Initial view mode (month/week/day)
+ * @param dateFormats - Extra date formats from plugin settings (moment syntax)
  * @returns Object with events, date property, and view mode management
  */
 export function useCalendarData(
@@ -19,25 +27,48 @@ export function useCalendarData(
   app: App,
   initialDateProperty: string,
   initialEndDateProperty: string | undefined,
-  initialViewMode: 'month' | 'week' | 'day'
+  initialViewMode: 'month' | 'week' | 'day',
+  dateFormats: string[] = []
 ) {
-  const [dateProperty, setDateProperty] = useState(initialDateProperty || 'start');
-  const [endDateProperty, setEndDateProperty] = useState(initialEndDateProperty || 'end');
+  const [dateProperty, setDateProperty] = useState(initialDateProperty || 'note.start');
+  const [endDateProperty, setEndDateProperty] = useState(initialEndDateProperty || 'note.end');
   const [viewMode, setViewMode] = useState<'month' | 'week' | 'day'>(initialViewMode || 'month');
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [savedDate, setSavedDate] = useViewState('calendarDate', '');
+  const [currentDate, setCurrentDateState] = useState(() => (savedDate && parseDate(savedDate)) || new Date());
+
+  // Show a date and remember it
+  const setCurrentDate = useCallback((date: Date) => {
+    setCurrentDateState(date);
+    setSavedDate(formatDateString(date));
+  }, [setSavedDate]);
+
+  // Show today and keep following it when the view is opened later
+  const goToToday = useCallback(() => {
+    setCurrentDateState(new Date());
+    setSavedDate('');
+  }, [setSavedDate]);
+
+  const colorProperty = useColorRules()?.property ?? '';
 
   // Transform Bases data to our internal format
-  const entries = useMemo(() => {
-    return adaptBasesData(data, app);
-  }, [data, app]);
+  const adaptedEntries = useMemo(() => {
+    return adaptBasesData(data, app, [dateProperty, endDateProperty, colorProperty]);
+  }, [data, app, dateProperty, endDateProperty, colorProperty]);
+
+  // Leave out notes that don't match the filter bar
+  const filteredEntries = useQuickFilteredEntries(adaptedEntries, [dateProperty, endDateProperty]);
+
+  // Show pending writes before the metadata cache catches up
+  const entries = useOptimisticEntries(filteredEntries);
 
-  // Convert entries to events with date filtering
-  const events = useMemo(() => {
-    return entriesToEvents(entries, dateProperty, endDateProperty || undefined);
-  }, [entries, dateProperty, endDateProperty]);
+  // Convert entries to events with date filtering; unparsable dates are reported as skipped
+  const { events, skipped } = useMemo(() => {
+    return entriesToEvents(entries, dateProperty, endDateProperty || undefined, dateFormats, colorProperty);
+  }, [entries, dateProperty, endDateProperty, dateFormats, colorProperty]);
 
   return {
     events,
+    skipped,
     dateProperty,
     setDateProperty,
     endDateProperty,
@@ -46,5 +77,6 @@ export function useCalendarData(
     setViewMode,
     currentDate,
     setCurrentDate,
+    goToToday,
   };
 }
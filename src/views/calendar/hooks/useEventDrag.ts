@@ -4,13 +4,14 @@ import { App } from 'obsidian';
 import { CalendarEvent } from '../../../types/view-config';
 import { usePropertyUpdate } from '../../../hooks/usePropertyUpdate';
 import { formatDateString } from '../utils/dateUtils';
+import { t } from '../../../i18n';
 
 /**
  * Hook for event drag-and-drop functionality.
  * Handles dropping events on different days to update their date.
  *
  * @param events - Array of calendar events
- * @param dateProperty - Name of the date property
+ * @param dateProperty - Id of the date property
  * @param app - Obsidian app instance
  * @returns Object with drag end handler
  */
@@ -19,7 +20,7 @@ export function useEventDrag(
   dateProperty: string,
   app: App
 ) {
-  const { updateProperty } = usePropertyUpdate(app);
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
 
   /**
    * Handle drag end - update event date when dropped on new day
@@ -42,12 +43,16 @@ export function useEventDrag(
 
       // Only update if date actually changed
       const oldDateString = formatDateString(calendarEvent.date);
-      if (oldDateString !== newDateString) {
-        // Write in YYYY-MM-DD format to preserve local date
-        void updateProperty(calendarEvent.file, dateProperty, newDateString);
+      if (oldDateString !== newDateString && ensureEditable(dateProperty)) {
+        // Move to the new day, keeping the event's time of day
+        const [year, month, day] = newDateString.split('-').map(Number);
+        const newDate = new Date(calendarEvent.date);
+        newDate.setFullYear(year, month - 1, day);
+
+        void updateProperty(calendarEvent.file, dateProperty, newDate, startBatch(t('history.moveEvent')));
       }
     },
-    [events, dateProperty, updateProperty]
+    [events, dateProperty, updateProperty, ensureEditable, startBatch]
   );
 
   return { handleDragEnd };
@@ -5,6 +5,7 @@ import { CalendarEvent } from '../../../types/view-config';
 import { usePropertyUpdate } from '../../../hooks/usePropertyUpdate';
 import { formatDateString } from '../utils/dateUtils';
 import { useCalendarDrag } from '../context/CalendarDragContext';
+import { t } from '../../../i18n';
 
 interface UseEventResizeOptions {
   event: CalendarEvent;
@@ -32,7 +33,7 @@ export function useEventResize({
   const [previewDelta, setPreviewDelta] = useState<{ type: 'start' | 'end'; days: number } | null>(null);
   const resizeTypeRef = useRef<'start' | 'end' | null>(null);
   const hadMovementRef = useRef(false);
-  const { updateProperty } = usePropertyUpdate(app);
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
   const { setHighlightedDates, clearHighlights } = useCalendarDrag();
 
   /**
@@ -68,6 +69,9 @@ export function useEventResize({
       e.preventDefault();
       e.stopPropagation();
 
+      // Formula and file dates are read-only
+      if (!ensureEditable(handle === 'start' ? dateProperty : endDateProperty)) return;
+
       setIsResizing(true);
       hadMovementRef.current = false;
       resizeTypeRef.current = handle;
@@ -134,31 +138,29 @@ export function useEventResize({
             const newStartDate = addDays(originalStartDate, currentDeltaDays);
             // Don't allow start to go past end
             if (newStartDate <= originalEndDate) {
-              void updateProperty(event.file, dateProperty, formatDateString(newStartDate));
+              void updateProperty(event.file, dateProperty, newStartDate, startBatch(t('history.resizeEvent')));
             }
           } else {
             const newEndDate = addDays(originalEndDate, currentDeltaDays);
             // Don't allow end to go before start
             if (newEndDate >= originalStartDate) {
-              void updateProperty(event.file, endDateProperty, formatDateString(newEndDate));
+              void updateProperty(event.file, endDateProperty, newEndDate, startBatch(t('history.resizeEvent')));
             }
           }
         }
 
-        // Delay state reset to allow data update to propagate and prevent flicker
-        setTimeout(() => {
-          setIsResizing(false);
-          setPreviewDelta(null);
-          resizeTypeRef.current = null;
-          // Notify parent to trigger re-sort
-          onResizeEnd?.();
-        }, 150);
+        // The pending-change overlay already shows the new dates, so reset right away
+        setIsResizing(false);
+        setPreviewDelta(null);
+        resizeTypeRef.current = null;
+        // Notify parent that the resize ended
+        onResizeEnd?.();
       };
 
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
     },
-    [event, updateProperty, getDayWidth, getRowHeight, dateProperty, endDateProperty, onResizeEnd, setHighlightedDates, clearHighlights]
+    [event, updateProperty, ensureEditable, startBatch, getDayWidth, getRowHeight, dateProperty, endDateProperty, onResizeEnd, setHighlightedDates, clearHighlights]
   );
 
   return {
@@ -0,0 +1,143 @@
+import { useCallback } from 'react';
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import { CalendarEvent } from '../../../types/view-config';
+import { createNote, NoteCreationOptions } from '../../../utils/noteCreator';
+import { reportError } from '../../../utils/errorReporter';
+import { OptionSuggestModal } from '../../../components/shared/OptionSuggestModal';
+import { eventsToICalendar, getEventUid, ICalendarEvent, ICS_UID_PROPERTY, parseICalendar } from '../utils/icalendar';
+import { t, tn } from '../../../i18n';
+
+/** Export path used when the view doesn't configure one */
+const DEFAULT_EXPORT_PATH = 'calendar.ics';
+
+/**
+ * Hook for exporting the calendar to an .ics file and importing .ics files as notes.
+ *
+ * @param events - Events shown by the view
+ * @param dateProperty - Id of the start date property
+ * @param endDateProperty - Id of the end date property
+ * @param exportPath - Vault path of the exported file
+ * @param newNoteOptions - Folder, file name and template for imported notes
+ * @param app - Obsidian app instance
+ * @returns Export and import handlers
+ */
+export function useICalendar(
+  events: CalendarEvent[],
+  dateProperty: string,
+  endDateProperty: string,
+  exportPath: string | undefined,
+  newNoteOptions: NoteCreationOptions,
+  app: App
+) {
+  /**
+   * Write all events of the view to the export file, replacing its content
+   */
+  const exportCalendar = useCallback(async () => {
+    const path = normalizePath(exportPath || DEFAULT_EXPORT_PATH);
+
+    try {
+      const content = eventsToICalendar(events, (event) => getEventUid(event.file, getStoredUid(app, event.file)));
+      const existing = app.vault.getFileByPath(path);
+      if (existing) {
+        await app.vault.modify(existing, content);
+      } else {
+        const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        if (folder && !app.vault.getFolderByPath(folder)) {
+          await app.vault.createFolder(folder);
+        }
+        await app.vault.create(path, content);
+      }
+      new Notice(tn('calendar.exported', events.length, { path }));
+    } catch (error) {
+      reportError({ action: t('action.exportCalendar'), error, retry: exportCalendar });
+    }
+  }, [app, events, exportPath]);
+
+  /**
+   * Create notes for the events of an .ics file, skipping UIDs already in the vault
+   */
+  const importFile = useCallback(async (file: TFile) => {
+    try {
+      const parsed = parseICalendar(await app.vault.read(file));
+      const knownUids = getKnownUids(app, events);
+      let imported = 0;
+
+      for (const event of parsed) {
+        if (knownUids.has(event.uid)) continue;
+        await createNote(app, newNoteOptions, {
+          title: event.summary,
+          properties: getEventProperties(event, dateProperty, endDateProperty),
+          body: event.description,
+        });
+        knownUids.add(event.uid);
+        imported++;
+      }
+
+      new Notice(t('calendar.imported', { imported, skipped: parsed.length - imported }));
+    } catch (error) {
+      reportError({ action: t('action.importCalendar'), error, file, retry: () => importFile(file) });
+    }
+  }, [app, events, dateProperty, endDateProperty, newNoteOptions]);
+
+  /**
+   * Let the user pick an .ics file from the vault and import it
+   */
+  const importCalendar = useCallback(() => {
+    const files = app.vault.getFiles().filter((file) => file.extension === 'ics');
+    if (files.length === 0) {
+      new Notice(t('calendar.noIcsFiles'));
+      return;
+    }
+
+    new OptionSuggestModal(
+      app,
+      files.map((file) => ({ label: file.path, value: file })),
+      (file) => void importFile(file),
+      t('calendar.chooseIcsFile')
+    ).open();
+  }, [app, importFile]);
+
+  return { exportCalendar, importCalendar };
+}
+
+/**
+ * Properties of a note created for an imported event.
+ * The end date is only written when the event lasts past its start.
+ */
+function getEventProperties(
+  event: ICalendarEvent,
+  dateProperty: string,
+  endDateProperty: string
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    [dateProperty]: event.start,
+    [`note.${ICS_UID_PROPERTY}`]: event.uid,
+  };
+  if (event.end && endDateProperty) {
+    properties[endDateProperty] = event.end;
+  }
+  return properties;
+}
+
+/**
+ * UID stored in a note's frontmatter by a previous import.
+ */
+function getStoredUid(app: App, file: TFile): unknown {
+  return app.metadataCache.getFileCache(file)?.frontmatter?.[ICS_UID_PROPERTY];
+}
+
+/**
+ * UIDs of events already in the vault: imported notes anywhere,
+ * plus the path-based UIDs of the view's own events (so exported files round-trip).
+ */
+function getKnownUids(app: App, events: CalendarEvent[]): Set<string> {
+  const uids = new Set<string>();
+  app.vault.getMarkdownFiles().forEach((file) => {
+    const uid = getStoredUid(app, file);
+    if (typeof uid === 'string' && uid.trim()) {
+      uids.add(uid.trim());
+    }
+  });
+  events.forEach((event) => uids.add(getEventUid(event.file, getStoredUid(app, event.file))));
+  return uids;
+}
@@ -5,6 +5,8 @@ import { CalendarEvent } from '../../../types/view-config';
 import { usePropertyUpdate } from '../../../hooks/usePropertyUpdate';
 import { formatDateString } from '../utils/dateUtils';
 import { useCalendarDrag } from '../context/CalendarDragContext';
+import { getDraggedItems, useSelection } from '../../../context/SelectionContext';
+import { t } from '../../../i18n';
 
 interface UseMultiDayEventDragOptions {
   event: CalendarEvent;
@@ -19,6 +21,7 @@ interface UseMultiDayEventDragOptions {
  * Hook for multi-day event drag (move) functionality.
  * Handles mouse events for dragging entire event to different dates.
  * Both start and end dates are shifted by the same amount.
+ * When the event is selected, all selected events are shifted with it.
  */
 export function useMultiDayEventDrag({
   event,
@@ -33,8 +36,9 @@ export function useMultiDayEventDrag({
   const [cursorPosition, setCursorPosition] = useState<{ x: number; y: number } | null>(null);
   const dragStartRef = useRef<{ x: number; y: number; startDate: Date; endDate: Date } | null>(null);
   const hadMovementRef = useRef(false);
-  const { updateProperty } = usePropertyUpdate(app);
-  const { setHighlightedDates, clearHighlights } = useCalendarDrag();
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
+  const { events, setHighlightedDates, clearHighlights } = useCalendarDrag();
+  const selection = useSelection();
 
   /**
    * Get the width of one day column in pixels
@@ -71,12 +75,22 @@ export function useMultiDayEventDrag({
       e.preventDefault();
       e.stopPropagation();
 
+      // Formula and file dates are read-only
+      if (!ensureEditable(dateProperty, endDateProperty)) return;
+
       setIsDragging(true);
       hadMovementRef.current = false;
 
       const startDate = event.date;
       const endDate = event.endDate || event.date;
 
+      // Dates of every moved event as they were at drag start
+      const movedEvents = getDraggedItems(event, events, selection).map((movedEvent) => ({
+        file: movedEvent.file,
+        startDate: movedEvent.date,
+        endDate: movedEvent.endDate || movedEvent.date,
+      }));
+
       dragStartRef.current = {
         x: e.clientX,
         y: e.clientY,
@@ -121,11 +135,12 @@ export function useMultiDayEventDrag({
       const handleMouseUp = () => {
         // Apply changes only on mouse up
         if (dragStartRef.current && currentDeltaDays !== 0) {
-          const newStartDate = addDays(dragStartRef.current.startDate, currentDeltaDays);
-          const newEndDate = addDays(dragStartRef.current.endDate, currentDeltaDays);
-
-          void updateProperty(event.file, dateProperty, formatDateString(newStartDate));
-          void updateProperty(event.file, endDateProperty, formatDateString(newEndDate));
+          // Start and end of all moved events are undone together
+          const batch = startBatch(t('history.moveEvent'));
+          movedEvents.forEach((movedEvent) => {
+            void updateProperty(movedEvent.file, dateProperty, addDays(movedEvent.startDate, currentDeltaDays), batch);
+            void updateProperty(movedEvent.file, endDateProperty, addDays(movedEvent.endDate, currentDeltaDays), batch);
+          });
         }
 
         setIsDragging(false);
@@ -142,7 +157,7 @@ export function useMultiDayEventDrag({
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
     },
-    [event, updateProperty, getDayWidth, dateProperty, endDateProperty, onDragEnd, setHighlightedDates, clearHighlights]
+    [event, events, selection, updateProperty, ensureEditable, startBatch, getDayWidth, dateProperty, endDateProperty, onDragEnd, setHighlightedDates, clearHighlights]
   );
 
   return {
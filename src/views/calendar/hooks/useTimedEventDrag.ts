@@ -1,8 +1,12 @@
 import { useState, useCallback, useRef } from 'react';
 import { App } from 'obsidian';
-import { addMinutes, format } from 'date-fns';
+import { addMinutes } from 'date-fns';
 import { CalendarEvent } from '../../../types/view-config';
 import { usePropertyUpdate } from '../../../hooks/usePropertyUpdate';
+import { getDraggedItems, useSelection } from '../../../context/SelectionContext';
+import { useCalendarDrag } from '../context/CalendarDragContext';
+import { isAllDayEvent } from '../utils/calendarHelpers';
+import { t } from '../../../i18n';
 
 // Must match HOUR_HEIGHT in DayView.tsx
 const HOUR_HEIGHT = 60;
@@ -19,6 +23,7 @@ interface UseTimedEventDragOptions {
 /**
  * Hook for timed event drag and resize in day view.
  * Handles vertical movement for time-based events.
+ * When the event is selected, the other selected timed events move with it.
  */
 export function useTimedEventDrag({
   event,
@@ -33,7 +38,9 @@ export function useTimedEventDrag({
   const [resizeDelta, setResizeDelta] = useState<{ type: 'start' | 'end'; minutes: number } | null>(null);
 
   const hadMovementRef = useRef(false);
-  const { updateProperty } = usePropertyUpdate(app);
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
+  const { events } = useCalendarDrag();
+  const selection = useSelection();
 
   /**
    * Convert pixels to minutes (snapped to intervals)
@@ -43,13 +50,6 @@ export function useTimedEventDrag({
     return Math.round(rawMinutes / MINUTES_PER_SNAP) * MINUTES_PER_SNAP;
   }, []);
 
-  /**
-   * Format date with time for property update
-   */
-  const formatDateTime = useCallback((date: Date): string => {
-    return format(date, "yyyy-MM-dd'T'HH:mm");
-  }, []);
-
   /**
    * Consume had movement flag (for click vs drag detection)
    */
@@ -63,16 +63,28 @@ export function useTimedEventDrag({
    * Handle drag start (mouse down on event body)
    */
   const handleDragStart = useCallback((e: React.MouseEvent) => {
+    // Only start drag on left mouse button (right-click opens the context menu)
+    if (e.button !== 0) return;
+
     e.preventDefault();
     e.stopPropagation();
 
+    // Formula and file dates are read-only
+    if (!ensureEditable(dateProperty, endDateProperty)) return;
+
     setIsDragging(true);
     hadMovementRef.current = false;
 
     const startY = e.clientY;
-    const originalStartDate = event.date;
-    const originalEndDate = event.endDate || addMinutes(event.date, 30);
-    const duration = originalEndDate.getTime() - originalStartDate.getTime();
+
+    // All-day events in the selection keep their dates
+    const movedEvents = getDraggedItems(event, events, selection)
+      .filter((movedEvent) => movedEvent === event || !isAllDayEvent(movedEvent))
+      .map((movedEvent) => ({
+        file: movedEvent.file,
+        startDate: movedEvent.date,
+        endDate: movedEvent.endDate || addMinutes(movedEvent.date, 30),
+      }));
 
     let currentDeltaMinutes = 0;
 
@@ -92,24 +104,22 @@ export function useTimedEventDrag({
       document.removeEventListener('mouseup', handleMouseUp);
 
       if (currentDeltaMinutes !== 0) {
-        const newStartDate = addMinutes(originalStartDate, currentDeltaMinutes);
-        const newEndDate = new Date(newStartDate.getTime() + duration);
-
-        // Update both start and end times
-        void updateProperty(event.file, dateProperty, formatDateTime(newStartDate));
-        void updateProperty(event.file, endDateProperty, formatDateTime(newEndDate));
+        // Update both start and end times of all moved events (undone together)
+        const batch = startBatch(t('history.moveEvent'));
+        movedEvents.forEach((movedEvent) => {
+          void updateProperty(movedEvent.file, dateProperty, addMinutes(movedEvent.startDate, currentDeltaMinutes), batch);
+          void updateProperty(movedEvent.file, endDateProperty, addMinutes(movedEvent.endDate, currentDeltaMinutes), batch);
+        });
       }
 
-      // Delay state reset to allow data update to propagate and prevent flicker
-      setTimeout(() => {
-        setIsDragging(false);
-        setDragDeltaMinutes(0);
-      }, 150);
+      // The pending-change overlay already shows the new dates, so reset right away
+      setIsDragging(false);
+      setDragDeltaMinutes(0);
     };
 
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
-  }, [event, updateProperty, dateProperty, endDateProperty, pixelsToMinutes, formatDateTime]);
+  }, [event, events, selection, updateProperty, ensureEditable, startBatch, dateProperty, endDateProperty, pixelsToMinutes]);
 
   /**
    * Handle resize start (mouse down on edge)
@@ -118,6 +128,9 @@ export function useTimedEventDrag({
     e.preventDefault();
     e.stopPropagation();
 
+    // Formula and file dates are read-only
+    if (!ensureEditable(edge === 'start' ? dateProperty : endDateProperty)) return;
+
     setIsResizing(true);
     hadMovementRef.current = false;
 
@@ -147,27 +160,25 @@ export function useTimedEventDrag({
           const newStartDate = addMinutes(originalStartDate, currentDeltaMinutes);
           // Don't allow start to go past end (minimum 15 minutes)
           if (newStartDate < originalEndDate) {
-            void updateProperty(event.file, dateProperty, formatDateTime(newStartDate));
+            void updateProperty(event.file, dateProperty, newStartDate, startBatch(t('history.resizeEvent')));
           }
         } else {
           const newEndDate = addMinutes(originalEndDate, currentDeltaMinutes);
           // Don't allow end to go before start (minimum 15 minutes)
           if (newEndDate > originalStartDate) {
-            void updateProperty(event.file, endDateProperty, formatDateTime(newEndDate));
+            void updateProperty(event.file, endDateProperty, newEndDate, startBatch(t('history.resizeEvent')));
           }
         }
       }
 
-      // Delay state reset to allow data update to propagate and prevent flicker
-      setTimeout(() => {
-        setIsResizing(false);
-        setResizeDelta(null);
-      }, 150);
+      // The pending-change overlay already shows the new dates, so reset right away
+      setIsResizing(false);
+      setResizeDelta(null);
     };
 
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
-  }, [event, updateProperty, dateProperty, endDateProperty, pixelsToMinutes, formatDateTime]);
+  }, [event, updateProperty, ensureEditable, startBatch, dateProperty, endDateProperty, pixelsToMinutes]);
 
   return {
     isDragging,
@@ -12,13 +12,20 @@ import {
   isAfter,
   startOfDay,
   endOfDay,
+  getHours,
+  getMinutes,
 } from 'date-fns';
-import { BasesEntry, CalendarEvent } from '../../../types/view-config';
-import { parseISO, isValid } from 'date-fns';
+import { BasesEntry, CalendarEvent, SkippedEntry } from '../../../types/view-config';
+import { getEntryValue } from '../../../utils/basesDataAdapter';
+import { parseDate, parseDateValue } from '../../../utils/dateParsing';
+import { getPropertyDisplayName } from '../../../utils/propertyId';
+import { getWeekOptions } from '../../../utils/dateLocale';
+import { getColorValue } from '../../../utils/colorUtils';
 
 /**
  * Generate array of days for month view calendar grid.
  * Includes padding days from previous and next months.
+ * Weeks start on the day configured in plugin settings.
  *
  * @param currentDate - Current date to display
  * @returns Array of days covering the calendar grid
@@ -27,11 +34,11 @@ export function generateMonthDays(currentDate: Date): Date[] {
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
 
-  // Start from Monday of the week containing the first day of month
-  const calendarStart = startOfWeek(monthStart, { weekStartsOn: 1 });
+  // Start from the first day of the week containing the first day of month
+  const calendarStart = startOfWeek(monthStart, getWeekOptions());
 
-  // End at Sunday of the week containing the last day of month
-  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 1 });
+  // End at the last day of the week containing the last day of month
+  const calendarEnd = endOfWeek(monthEnd, getWeekOptions());
 
   return eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 }
@@ -43,42 +50,90 @@ export function generateMonthDays(currentDate: Date): Date[] {
  * @returns Array of 7 days for the week
  */
 export function generateWeekDays(currentDate: Date): Date[] {
-  const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
-  const weekEnd = endOfWeek(currentDate, { weekStartsOn: 1 });
+  const weekStart = startOfWeek(currentDate, getWeekOptions());
+  const weekEnd = endOfWeek(currentDate, getWeekOptions());
 
   return eachDayOfInterval({ start: weekStart, end: weekEnd });
 }
 
+/**
+ * Get the days the calendar shows for a view mode: the month grid
+ * (with padding days), the week, or the single day.
+ *
+ * @param currentDate - Current date to display
+ * @param viewMode - Calendar view mode
+ * @returns First and last visible day
+ */
+export function getVisibleRange(
+  currentDate: Date,
+  viewMode: 'month' | 'week' | 'day'
+): { start: Date; end: Date } {
+  const days = viewMode === 'month'
+    ? generateMonthDays(currentDate)
+    : viewMode === 'week'
+      ? generateWeekDays(currentDate)
+      : [startOfDay(currentDate)];
+
+  return { start: days[0], end: endOfDay(days[days.length - 1]) };
+}
+
+/**
+ * Check if an event overlaps a range of days.
+ *
+ * @param event - Event to check
+ * @param start - First day of the range
+ * @param end - End of the last day of the range
+ * @returns True if any day of the event is in the range
+ */
+export function isEventInRange(event: CalendarEvent, start: Date, end: Date): boolean {
+  const eventStart = startOfDay(event.date);
+  const eventEnd = endOfDay(event.endDate ?? event.date);
+  return !isAfter(eventStart, end) && !isBefore(eventEnd, start);
+}
+
 /**
  * Transform entries into calendar events.
  * Filters entries that have a valid date property.
  *
  * @param entries - Array of entries
- * @param dateProperty - Property name for the start date
- * @param endDateProperty - Optional property name for the end date
- * @returns Array of calendar events
+ * @param dateProperty - Property id for the start date
+ * @param endDateProperty - Optional property id for the end date
+ * @param dateFormats - User-configured date formats (moment syntax)
+ * @param colorProperty - Optional property id the events are colored by
+ * @returns Calendar events and entries skipped because their date couldn't be parsed
  */
 export function entriesToEvents(
   entries: BasesEntry[],
   dateProperty: string,
-  endDateProperty?: string
-): CalendarEvent[] {
+  endDateProperty?: string,
+  dateFormats: string[] = [],
+  colorProperty = ''
+): { events: CalendarEvent[]; skipped: SkippedEntry[] } {
   const events: CalendarEvent[] = [];
+  const skipped: SkippedEntry[] = [];
 
   entries.forEach((entry) => {
     // Try primary date property first, then fallback to 'date'
-    let dateValue = entry.properties[dateProperty];
-    if (!dateValue && dateProperty !== 'date') {
-      dateValue = entry.properties['date'];
+    let datePropertyUsed = dateProperty;
+    let dateValue = getEntryValue(entry, dateProperty);
+    if (!dateValue && dateProperty !== 'note.date') {
+      datePropertyUsed = 'note.date';
+      dateValue = getEntryValue(entry, datePropertyUsed);
+    }
+    const result = parseDateValue(dateValue, dateFormats);
+
+    // Report dates that are set but unreadable (notes without dates are simply not shown)
+    if (!result.ok && !result.empty) {
+      skipped.push({ file: entry.file, reason: `${getPropertyDisplayName(datePropertyUsed)}: ${result.reason}` });
     }
-    const date = parseDate(dateValue);
 
-    if (date) {
+    if (result.ok) {
+      const date = result.date;
       // Parse end date if property is specified
       let endDate: Date | undefined;
       if (endDateProperty) {
-        const endDateValue = entry.properties[endDateProperty];
-        const parsedEndDate = parseDate(endDateValue);
+        const endDateValue = getEntryValue(entry, endDateProperty);
+        const parsedEndDate = parseDate(endDateValue, dateFormats);
         if (parsedEndDate && parsedEndDate > date) {
           endDate = parsedEndDate;
         }
@@ -90,54 +145,12 @@ export function entriesToEvents(
         title: entry.file.basename,
         date,
         endDate,
+        colorValue: getColorValue(entry, colorProperty),
       });
     }
   });
 
-  return events;
-}
-
-/**
- * Parse a date value from various formats.
- *
- * @param value - Value to parse
- * @returns Date object or null
- */
-function parseDate(value: unknown): Date | null {
-  if (!value) return null;
-
-  if (value instanceof Date) {
-    return isValid(value) ? value : null;
-  }
-
-  if (typeof value === 'string') {
-    const parsed = parseISO(value);
-    return isValid(parsed) ? parsed : null;
-  }
-
-  if (typeof value === 'number') {
-    const parsed = new Date(value);
-    return isValid(parsed) ? parsed : null;
-  }
-
-  // Handle DateTime objects (Luxon, moment, etc.)
-  if (typeof value === 'object') {
-    // Luxon DateTime has ts property
-    if (value.ts && typeof value.ts === 'number') {
-      return new Date(value.ts);
-    }
-    // moment has toDate method
-    if (typeof value.toDate === 'function') {
-      return value.toDate();
-    }
-    // Has toISOString method
-    if (typeof value.toISOString === 'function') {
-      const parsed = parseISO(value.toISOString());
-      return isValid(parsed) ? parsed : null;
-    }
-  }
-
-  return null;
+  return { events, skipped };
 }
 
 /**
@@ -161,6 +174,42 @@ export function groupEventsByDate(
   return grouped;
 }
 
+/**
+ * Check if an event is a true all-day event (starts at midnight with no meaningful time)
+ * Events with specific start times that span multiple days are NOT all-day events
+ *
+ * @param event - Event to check
+ * @returns True if the event has no meaningful time of day
+ */
+export function isAllDayEvent(event: CalendarEvent): boolean {
+  const startHours = getHours(event.date);
+  const startMinutes = getMinutes(event.date);
+
+  // If event has a specific start time (not midnight), it's a timed event
+  if (startHours !== 0 || startMinutes !== 0) {
+    return false;
+  }
+
+  // If it's a multi-day event starting at midnight, check if end is also midnight
+  if (event.endDate) {
+    const endHours = getHours(event.endDate);
+    const endMinutes = getMinutes(event.endDate);
+    // If end time is also midnight (or 23:59), treat as all-day
+    if (endHours === 0 && endMinutes === 0) {
+      return true;
+    }
+    // If end time is 23:59, also treat as all-day
+    if (endHours === 23 && endMinutes === 59) {
+      return true;
+    }
+    // Otherwise it's a timed event that happens to start at midnight
+    return false;
+  }
+
+  // Single event at midnight with no end time - treat as all-day
+  return true;
+}
+
 /**
  * Check if an event is a multi-day event.
  *
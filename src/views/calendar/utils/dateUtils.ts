@@ -1,4 +1,5 @@
-import { format, addMonths, subMonths, addWeeks, subWeeks, addDays, subDays } from 'date-fns';
+import { addMonths, subMonths, addWeeks, subWeeks, addDays, subDays } from 'date-fns';
+import { formatLocalized } from '../../../utils/dateLocale';
 
 /**
  * Format a date as YYYY-MM-DD string in local timezone.
@@ -21,7 +22,7 @@ export function formatDateString(date: Date): string {
  * @returns Formatted string (e.g., "January 2026")
  */
 export function formatMonthYear(date: Date): string {
-  return format(date, 'MMMM yyyy');
+  return formatLocalized(date, 'LLLL yyyy');
 }
 
 /**
@@ -31,14 +32,14 @@ export function formatMonthYear(date: Date): string {
  * @returns Formatted string (e.g., "Jan 13-19, 2026")
  */
 export function formatWeekRange(weekStart: Date, weekEnd: Date): string {
-  const startMonth = format(weekStart, 'MMM');
-  const endMonth = format(weekEnd, 'MMM');
-  const year = format(weekEnd, 'yyyy');
+  const startMonth = formatLocalized(weekStart, 'LLL');
+  const endMonth = formatLocalized(weekEnd, 'LLL');
+  const year = formatLocalized(weekEnd, 'yyyy');
 
   if (startMonth === endMonth) {
-    return `${startMonth} ${format(weekStart, 'd')}-${format(weekEnd, 'd')}, ${year}`;
+    return `${startMonth} ${formatLocalized(weekStart, 'd')}-${formatLocalized(weekEnd, 'd')}, ${year}`;
   } else {
-    return `${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d')}, ${year}`;
+    return `${formatLocalized(weekStart, 'MMM d')} - ${formatLocalized(weekEnd, 'MMM d')}, ${year}`;
   }
 }
 
@@ -49,7 +50,7 @@ export function formatWeekRange(weekStart: Date, weekEnd: Date): string {
  * @returns Day number (e.g., "15")
  */
 export function formatDayNumber(date: Date): string {
-  return format(date, 'd');
+  return formatLocalized(date, 'd');
 }
 
 /**
@@ -60,7 +61,7 @@ export function formatDayNumber(date: Date): string {
  * @returns Weekday name (e.g., "Monday" or "Mon")
  */
 export function formatWeekday(date: Date, short: boolean = true): string {
-  return format(date, short ? 'EEE' : 'EEEE');
+  return formatLocalized(date, short ? 'EEE' : 'EEEE');
 }
 
 /**
@@ -127,8 +128,8 @@ export function nextDay(currentDate: Date): Date {
  * Format a date for display in day view header.
  *
  * @param date - Date to format
- * @returns Formatted string (e.g., "Monday, January 21, 2026")
+ * @returns Formatted string in the app language (e.g., "Monday, January 21st, 2026")
  */
 export function formatFullDate(date: Date): string {
-  return format(date, 'EEEE, MMMM d, yyyy');
+  return formatLocalized(date, 'PPPP');
 }
@@ -0,0 +1,345 @@
+import { TFile } from 'obsidian';
+import { addDays, addMilliseconds, format, startOfDay } from 'date-fns';
+import { CalendarEvent } from '../../../types/view-config';
+import { isAllDayEvent } from './calendarHelpers';
+
+/**
+ * An event read from an iCalendar file.
+ */
+export interface ICalendarEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  /** Inclusive end: the last day for all-day events, the end time for timed events */
+  end?: Date;
+  allDay: boolean;
+  description?: string;
+}
+
+/**
+ * Frontmatter property that keeps the UID of imported events,
+ * so re-importing the same file doesn't create duplicates.
+ */
+export const ICS_UID_PROPERTY = 'uid';
+
+const PRODUCT_ID = '-//Bases Views//Calendar//EN';
+
+/** Maximum length of a content line in octets, before folding (RFC 5545, 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+const DURATION_REGEX = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Get the UID of an event's note.
+ * Imported notes keep the UID from their source file; other notes
+ * get one derived from the file path, so repeated exports stay stable.
+ *
+ * @param file - Note of the event
+ * @param storedUid - Value of the uid property, if any
+ * @returns UID for the VEVENT
+ */
+export function getEventUid(file: TFile, storedUid?: unknown): string {
+  if (typeof storedUid === 'string' && storedUid.trim()) {
+    return storedUid.trim();
+  }
+  return `${file.path}@bases-views`;
+}
+
+/**
+ * Serialize calendar events into an iCalendar (RFC 5545) document.
+ * Events without a time of day become all-day events (DTEND is exclusive,
+ * so multi-day events end the day after their last day);
+ * timed events are written in UTC.
+ *
+ * @param events - Events from entriesToEvents
+ * @param getUid - UID for each event
+ * @param now - Timestamp for DTSTAMP
+ * @returns VCALENDAR text with CRLF line endings
+ */
+export function eventsToICalendar(
+  events: CalendarEvent[],
+  getUid: (event: CalendarEvent) => string,
+  now: Date = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+  ];
+
+  events.forEach((event) => {
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${escapeText(getUid(event))}`);
+    lines.push(`DTSTAMP:${formatUtc(now)}`);
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+
+    if (isAllDayEvent(event)) {
+      const lastDay = startOfDay(event.endDate ?? event.date);
+      lines.push(`DTSTART;VALUE=DATE:${format(event.date, 'yyyyMMdd')}`);
+      lines.push(`DTEND;VALUE=DATE:${format(addDays(lastDay, 1), 'yyyyMMdd')}`);
+    } else {
+      lines.push(`DTSTART:${formatUtc(event.date)}`);
+      if (event.endDate) {
+        lines.push(`DTEND:${formatUtc(event.endDate)}`);
+      }
+    }
+
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read the VEVENTs of an iCalendar document.
+ * Handles all-day and timed events (UTC, floating or with TZID),
+ * DTEND or DURATION, and folded lines. Recurrence rules are ignored:
+ * each event is read as its first occurrence.
+ *
+ * @param text - Content of an .ics file
+ * @returns Events that have a start date
+ */
+export function parseICalendar(text: string): ICalendarEvent[] {
+  const events: ICalendarEvent[] = [];
+  let current: Map<string, ContentLine> | null = null;
+
+  unfoldLines(text).forEach((line) => {
+    const contentLine = parseContentLine(line);
+    if (!contentLine) return;
+
+    if (contentLine.name === 'BEGIN' && contentLine.value.toUpperCase() === 'VEVENT') {
+      current = new Map();
+    } else if (contentLine.name === 'END' && contentLine.value.toUpperCase() === 'VEVENT') {
+      const event = current ? toEvent(current) : null;
+      if (event) events.push(event);
+      current = null;
+    } else if (current && !current.has(contentLine.name)) {
+      current.set(contentLine.name, contentLine);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * A parsed content line: NAME;PARAM=value:VALUE
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Build an event from the properties of a VEVENT.
+ */
+function toEvent(properties: Map<string, ContentLine>): ICalendarEvent | null {
+  const dtStart = properties.get('DTSTART');
+  const start = dtStart ? parseDateTime(dtStart) : null;
+  if (!dtStart || !start) return null;
+
+  const allDay = isDateValue(dtStart);
+  const summary = unescapeText(properties.get('SUMMARY')?.value ?? '');
+  const uid = properties.get('UID')?.value || `${dtStart.value}-${summary}`;
+
+  // End is exclusive in iCalendar; views use the last day (all-day) or end time
+  let end: Date | null = null;
+  const dtEnd = properties.get('DTEND');
+  const duration = properties.get('DURATION');
+  if (dtEnd) {
+    end = parseDateTime(dtEnd);
+  } else if (duration) {
+    const milliseconds = parseDuration(duration.value);
+    end = milliseconds === null ? null : addMilliseconds(start, milliseconds);
+  }
+  if (end && allDay) {
+    end = addDays(end, -1);
+  }
+
+  const description = properties.get('DESCRIPTION')?.value;
+
+  return {
+    uid: unescapeText(uid),
+    summary,
+    start,
+    end: end && end > start ? end : undefined,
+    allDay,
+    description: description ? unescapeText(description) : undefined,
+  };
+}
+
+/**
+ * Whether a DTSTART/DTEND holds a date without time.
+ */
+function isDateValue(line: ContentLine): boolean {
+  return line.params.VALUE?.toUpperCase() === 'DATE' || /^\d{8}$/.test(line.value);
+}
+
+/**
+ * Parse a DATE or DATE-TIME value.
+ * UTC times end in Z; times with TZID are converted from that zone;
+ * floating times are read as local time.
+ */
+function parseDateTime(line: ContentLine): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+
+  if (utc) {
+    return new Date(Date.UTC(...parts));
+  }
+  if (line.params.TZID && match[4] !== undefined) {
+    const zoned = zonedTimeToDate(parts, line.params.TZID);
+    if (zoned) return zoned;
+  }
+  return new Date(...parts);
+}
+
+/**
+ * Convert wall-clock time in an IANA time zone to a Date.
+ * Returns null for zones the runtime doesn't know (e.g. Windows zone names).
+ */
+function zonedTimeToDate(
+  parts: readonly [number, number, number, number, number, number],
+  timeZone: string
+): Date | null {
+  try {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+
+    // Offset of the zone at the (approximate) instant, from how it displays that instant
+    const guess = Date.UTC(...parts);
+    const shown: Record<string, number> = {};
+    formatter.formatToParts(new Date(guess)).forEach(({ type, value }) => {
+      shown[type] = Number(value);
+    });
+    const shownAsUtc = Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute, shown.second);
+    return new Date(guess - (shownAsUtc - guess));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P2D) into milliseconds.
+ */
+function parseDuration(value: string): number | null {
+  const match = DURATION_REGEX.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks ?? 0) * 7 * 86400 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+}
+
+/**
+ * Split a content line into name, parameters and value.
+ * Colons and semicolons inside quoted parameter values are kept.
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, valueStart).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart + 1) };
+}
+
+/**
+ * Join folded lines (a line break followed by a space or tab continues the line).
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Fold a content line to at most 75 octets per line.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkOctets = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    if (chunkOctets + octets > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    chunk += char;
+    chunkOctets += octets;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline).
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Reverse escapeText.
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Format a date as a UTC DATE-TIME (e.g. 20260115T093000Z).
+ */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
@@ -3,6 +3,9 @@ import * as React from 'react';
 import { ReactBasesView } from '../base/ReactBasesView';
 import { GanttView } from './GanttView';
 import { ErrorBoundary } from '../../components/shared/ErrorBoundary';
+import { getColorViewOptions, getNoteCreationViewOptions } from '../base/viewOptions';
+import type BasesCustomViewsPlugin from '../../main';
+import { t } from '../../i18n';
 
 export const GanttViewType = 'bases-gantt';
 
@@ -13,27 +16,35 @@ export const GanttViewType = 'bases-gantt';
 export class GanttBasesView extends ReactBasesView {
   type = GanttViewType;
 
-  constructor(controller: QueryController, containerEl: HTMLElement) {
-    super(controller, containerEl);
+  constructor(controller: QueryController, containerEl: HTMLElement, plugin: BasesCustomViewsPlugin) {
+    super(controller, containerEl, plugin);
   }
 
   /**
-   * Extract property name from BasesPropertyId (format: "type.propertyName")
+   * Start and end dates are shifted together by the bulk action bar and the context menu
    */
-  private extractPropertyName(propertyId: unknown): string {
-    if (!propertyId || typeof propertyId !== 'string') return '';
-    const parts = propertyId.split('.');
-    return parts.length > 1 ? parts.slice(1).join('.') : propertyId;
+  protected override getDateProperties(): string[] {
+    return [
+      this.getPropertyOption('startDateProperty') || 'note.start',
+      this.getPropertyOption('endDateProperty') || 'note.end',
+    ];
+  }
+
+  /**
+   * Tasks can be moved between groups from the context menu
+   */
+  protected override getGroupByProperty(): string {
+    return this.getPropertyOption('groupByProperty') || '';
   }
 
   /**
    * Get the React component to render
    */
   protected getReactComponent(data: BasesQueryResult): React.ReactElement {
-    // Get options from config - property type returns BasesPropertyId like "date.start"
-    const startDateProperty = this.extractPropertyName(this.config.get('startDateProperty')) || 'start';
-    const endDateProperty = this.extractPropertyName(this.config.get('endDateProperty')) || 'end';
-    const groupByProperty = this.extractPropertyName(this.config.get('groupByProperty')) || '';
+    // Get options from config - property type returns BasesPropertyId like "note.start" or "formula.due"
+    const startDateProperty = this.getPropertyOption('startDateProperty') || 'note.start';
+    const endDateProperty = this.getPropertyOption('endDateProperty') || 'note.end';
+    const groupByProperty = this.getPropertyOption('groupByProperty') || '';
     const collapsedGroups = (this.config.get('collapsedGroups') as string[] | undefined) || [];
     const timelineStep = (this.config.get('timelineStep') as 'day' | 'week' | 'month') || 'day';
 
@@ -49,12 +60,17 @@ export class GanttBasesView extends ReactBasesView {
           groupByProperty,
           collapsedGroups,
           timelineStep,
+          dateFormats: this.plugin.settings.dateFormats,
         },
         onCollapsedGroupsChange: (groups: string[]) => {
           this.config.set('collapsedGroups', groups);
         },
+        onTimelineStepChange: (step: 'day' | 'week' | 'month') => {
+          this.config.set('timelineStep', step);
+        },
         app: this.app,
         hoverParent: this,
+        newNoteOptions: this.getNoteCreationOptions(),
       })
     );
   }
@@ -66,36 +82,38 @@ export class GanttBasesView extends ReactBasesView {
     return [
       {
         key: 'startDateProperty',
-        displayName: 'Start Date',
+        displayName: t('options.startDate'),
         type: 'property',
-        default: 'start',
-        placeholder: 'Select date property',
+        default: 'note.start',
+        placeholder: t('common.selectDateProperty'),
       },
       {
         key: 'endDateProperty',
-        displayName: 'End Date',
+        displayName: t('options.endDate'),
         type: 'property',
-        default: 'end',
-        placeholder: 'Select date property',
+        default: 'note.end',
+        placeholder: t('common.selectDateProperty'),
       },
       {
         key: 'groupByProperty',
-        displayName: 'Group By',
+        displayName: t('options.groupBy'),
         type: 'property',
         default: '',
-        placeholder: 'Select property (optional)',
+        placeholder: t('common.selectPropertyOptional'),
       },
       {
         key: 'timelineStep',
-        displayName: 'Timeline Step',
+        displayName: t('options.timelineStep'),
         type: 'dropdown',
         default: 'day',
         options: {
-          day: 'Day',
-          week: 'Week',
-          month: 'Month',
+          day: t('common.day'),
+          week: t('common.week'),
+          month: t('common.month'),
         },
       },
+      ...getColorViewOptions(),
+      ...getNoteCreationViewOptions(),
     ];
   }
 }
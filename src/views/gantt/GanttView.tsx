@@ -1,22 +1,37 @@
 import * as React from 'react';
-import { App, BasesQueryResult, HoverParent } from 'obsidian';
-import { differenceInDays, addDays, format } from 'date-fns';
+import { App, BasesQueryResult, HoverParent, Notice } from 'obsidian';
+import { differenceInDays, addDays } from 'date-fns';
 import { useGanttData } from './hooks/useGanttData';
+import { useGanttExport } from './hooks/useGanttExport';
 import { Timeline } from './components/Timeline';
 import { Grid } from './components/Grid';
 import { TaskBar } from './components/TaskBar';
 import { TaskList } from './components/TaskList';
 import { GanttGroupHeader } from './components/GanttGroupHeader';
 import { TextInputModal } from '../../components/shared/TextInputModal';
-import { GanttViewOptions } from '../../types/view-config';
+import { GanttTimelineStep, GanttViewOptions } from '../../types/view-config';
 import { usePropertyUpdate } from '../../hooks/usePropertyUpdate';
+import { createNote, NoteCreationOptions } from '../../utils/noteCreator';
+import { reportError } from '../../utils/errorReporter';
+import { SkippedEntries } from '../../components/shared/SkippedEntries';
+import { FilterBar } from '../../components/shared/FilterBar';
+import { useViewCommands } from '../../context/ViewCommandsContext';
+import { usePersistedScroll } from '../../context/ViewStateContext';
+import { calculateTaskPosition } from './utils/dateCalculations';
+import { getPropertyDisplayName } from '../../utils/propertyId';
+import { ViewData } from '../../utils/viewDataExport';
+import { t } from '../../i18n';
 
 interface GanttViewProps {
   data: BasesQueryResult;
   options: GanttViewOptions;
   onCollapsedGroupsChange?: (groups: string[]) => void;
+  /** Callback to persist timeline step changes */
+  onTimelineStepChange?: (step: GanttTimelineStep) => void;
   app: App;
   hoverParent: HoverParent;
+  /** Folder, file name and template for notes created from the chart */
+  newNoteOptions: NoteCreationOptions;
 }
 
 /**
@@ -28,18 +43,22 @@ export const GanttView: React.FC<GanttViewProps> = ({
   data,
   options,
   onCollapsedGroupsChange,
+  onTimelineStepChange,
   app,
   hoverParent,
+  newNoteOptions,
 }) => {
   const {
     tasks,
     groups,
+    skipped,
     timelineStart,
     timelineEnd,
     startDateProperty,
     endDateProperty,
     groupByProperty,
     collapsedGroups,
+    setCollapsedGroups,
     toggleGroupCollapse,
   } = useGanttData(
     data,
@@ -47,7 +66,8 @@ export const GanttView: React.FC<GanttViewProps> = ({
     options.startDateProperty,
     options.endDateProperty,
     options.groupByProperty,
-    options.collapsedGroups
+    options.collapsedGroups,
+    options.dateFormats
   );
 
   // Wrap toggleGroupCollapse to persist changes
@@ -63,27 +83,60 @@ export const GanttView: React.FC<GanttViewProps> = ({
     onCollapsedGroupsChange?.(Array.from(newCollapsed));
   }, [toggleGroupCollapse, collapsedGroups, onCollapsedGroupsChange]);
 
+  /**
+   * Collapse or expand all groups at once and persist
+   */
+  const handleSetAllCollapsed = React.useCallback((collapsed: boolean) => {
+    const names = collapsed ? groups.map((g) => g.name) : [];
+    setCollapsedGroups(new Set(names));
+    onCollapsedGroupsChange?.(names);
+  }, [groups, setCollapsedGroups, onCollapsedGroupsChange]);
+
+  // Timeline step, synced with the view option
+  const [timelineStep, setTimelineStep] = React.useState<GanttTimelineStep>(options.timelineStep || 'day');
+
+  React.useEffect(() => {
+    setTimelineStep(options.timelineStep || 'day');
+  }, [options.timelineStep]);
+
+  const handleTimelineStepChange = React.useCallback((step: GanttTimelineStep) => {
+    setTimelineStep(step);
+    onTimelineStepChange?.(step);
+  }, [onTimelineStepChange]);
+
+  // Export what the chart currently shows (step and collapsed groups included)
+  const chart = React.useMemo(
+    () => ({ tasks, groups, timelineStart, timelineEnd, timelineStep }),
+    [tasks, groups, timelineStart, timelineEnd, timelineStep]
+  );
+  const { exportChart } = useGanttExport(chart, newNoteOptions, app);
+
   // Property update for renaming groups
-  const { updateProperty } = usePropertyUpdate(app);
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
 
   /**
    * Rename a group by updating the group property for all tasks in that group
    */
   const handleRenameGroup = React.useCallback(async (oldName: string, newName: string) => {
-    if (!groupByProperty) return;
+    if (!groupByProperty || !ensureEditable(groupByProperty)) return;
 
     // Find the group and update all its tasks
     const group = groups.find((g) => g.name === oldName);
     if (!group) return;
 
-    // Update each task's group property
+    // Update each task's group property (undone as a single step)
+    const batch = startBatch(t('history.renameGroup', { name: oldName }));
     for (const task of group.tasks) {
-      await updateProperty(task.file, groupByProperty, newName);
+      await updateProperty(task.file, groupByProperty, newName, batch);
     }
-  }, [groups, groupByProperty, updateProperty]);
+  }, [groups, groupByProperty, updateProperty, ensureEditable, startBatch]);
 
   // Ref for the chart container (used for drag-to-group detection)
   const chartRef = React.useRef<HTMLDivElement>(null);
+  // Ref for the horizontally scrolling chart wrapper
+  const chartWrapperRef = React.useRef<HTMLDivElement>(null);
+  // Keep the horizontal scroll position across re-renders and tab switches
+  usePersistedScroll(chartWrapperRef, 'ganttScrollLeft', 'left');
   // Ref to track if interaction (drag/resize) just ended - prevents accidental task creation
   const interactionCooldownRef = React.useRef(false);
 
@@ -98,6 +151,33 @@ export const GanttView: React.FC<GanttViewProps> = ({
     }, 100);
   }, []);
 
+  /**
+   * Ask for a task name and create a one-day task starting at the given date
+   */
+  const promptNewTask = React.useCallback((clickedDate: Date) => {
+    new TextInputModal(
+      app,
+      t('gantt.newTask'),
+      async (name) => {
+        if (!name) return;
+
+        const create = async () => {
+          await createNote(app, newNoteOptions, {
+            title: name,
+            properties: { [startDateProperty]: clickedDate, [endDateProperty]: addDays(clickedDate, 1) },
+          });
+        };
+
+        try {
+          await create();
+        } catch (error) {
+          reportError({ action: t('action.createTask'), error, retry: create });
+        }
+      },
+      t('gantt.taskName')
+    ).open();
+  }, [app, newNoteOptions, startDateProperty, endDateProperty]);
+
   /**
    * Handle click on chart to create a new task
    */
@@ -119,30 +199,74 @@ export const GanttView: React.FC<GanttViewProps> = ({
     const dayOffset = Math.floor((clickX / chartWidth) * totalDays);
     const clickedDate = addDays(timelineStart, dayOffset);
 
-    // Show modal to get task name
-    new TextInputModal(
-      app,
-      'New task',
-      async (name) => {
-        if (!name) return;
+    promptNewTask(clickedDate);
+  }, [timelineStart, timelineEnd, promptNewTask]);
 
-        const timestamp = Date.now();
-        const fileName = `${name} ${timestamp}.md`;
-        const startStr = format(clickedDate, 'yyyy-MM-dd');
-        const endStr = format(addDays(clickedDate, 1), 'yyyy-MM-dd');
+  // Position of today on the timeline (percent), or null if outside
+  const todayPosition = React.useMemo(() => {
+    const today = new Date();
+    if (today < timelineStart || today > addDays(timelineEnd, 1)) return null;
+    const { left, width } = calculateTaskPosition(today, today, timelineStart, timelineEnd);
+    return left + width / 2;
+  }, [timelineStart, timelineEnd]);
 
-        // Build frontmatter with date properties
-        const frontmatter = `---\n${startDateProperty}: ${startStr}\n${endDateProperty}: ${endStr}\n---\n\n`;
+  /**
+   * Scroll the chart horizontally so today is centered
+   */
+  const scrollToToday = React.useCallback(() => {
+    const wrapper = chartWrapperRef.current;
+    if (!wrapper) return;
 
-        try {
-          await app.vault.create(fileName, frontmatter);
-        } catch (error) {
-          console.error('Failed to create task:', error);
-        }
-      },
-      'Task name'
-    ).open();
-  }, [app, timelineStart, timelineEnd, startDateProperty, endDateProperty]);
+    if (todayPosition === null) {
+      new Notice(t('gantt.todayOutside'));
+      return;
+    }
+
+    wrapper.scrollLeft = (todayPosition / 100) * wrapper.scrollWidth - wrapper.clientWidth / 2;
+  }, [todayPosition]);
+
+  /**
+   * Tasks as displayed (tasks of collapsed groups left out), in row order
+   */
+  const getViewData = React.useCallback((): ViewData => {
+    const columns = [
+      { key: 'file', label: 'file' },
+      { key: 'title', label: 'title' },
+      { key: 'start', label: getPropertyDisplayName(startDateProperty) },
+      { key: 'end', label: getPropertyDisplayName(endDateProperty) },
+      { key: 'duration', label: 'duration' },
+    ];
+    if (groupByProperty) {
+      columns.push({ key: 'group', label: getPropertyDisplayName(groupByProperty) });
+    }
+
+    const rows = [...tasks]
+      .sort((a, b) => a.row - b.row)
+      .map((task) => ({
+        file: task.file,
+        title: task.title,
+        start: task.startDate,
+        end: task.endDate,
+        duration: differenceInDays(task.endDate, task.startDate) + 1,
+        group: task.group,
+      }));
+
+    return { name: t('view.gantt'), columns, rows };
+  }, [tasks, startDateProperty, endDateProperty, groupByProperty]);
+
+  // Expose timeline, group and export actions to plugin commands
+  useViewCommands({
+    getViewData,
+    goToToday: scrollToToday,
+    scrollToToday,
+    setTimelineStep: handleTimelineStepChange,
+    createItem: () => promptNewTask(new Date()),
+    exportGantt: (exportFormat, target) => void exportChart(exportFormat, target),
+    ...(groups.length > 0 && {
+      collapseAllGroups: () => handleSetAllCollapsed(true),
+      expandAllGroups: () => handleSetAllCollapsed(false),
+    }),
+  });
 
   // Calculate chart dimensions
   const hasGroups = groups.length > 0;
@@ -155,6 +279,10 @@ export const GanttView: React.FC<GanttViewProps> = ({
 
   return (
     <div className="bv-gantt-view">
+      <FilterBar />
+
+      {/* Notes whose dates couldn't be parsed */}
+      <SkippedEntries skipped={skipped} app={app} />
 
       {/* Gantt chart container */}
       <div className="bv-gantt-container">
@@ -166,9 +294,9 @@ export const GanttView: React.FC<GanttViewProps> = ({
         />
 
         {/* Right side with timeline and chart */}
-        <div className="bv-gantt-chart-wrapper">
+        <div ref={chartWrapperRef} className="bv-gantt-chart-wrapper">
           {/* Timeline header */}
-          <Timeline start={timelineStart} end={timelineEnd} step={options.timelineStep} />
+          <Timeline start={timelineStart} end={timelineEnd} step={timelineStep} />
 
           {/* Chart area with grid and task bars */}
           <div
@@ -178,7 +306,12 @@ export const GanttView: React.FC<GanttViewProps> = ({
             onClick={handleChartClick}
           >
             {/* Background grid */}
-            <Grid start={timelineStart} end={timelineEnd} rowCount={maxRow + 1} step={options.timelineStep} />
+            <Grid start={timelineStart} end={timelineEnd} rowCount={maxRow + 1} step={timelineStep} />
+
+            {/* Today marker */}
+            {todayPosition !== null && (
+              <div className="bv-gantt-today-marker" style={{ left: `${todayPosition}%` }} />
+            )}
 
             {/* Group headers */}
             {groups.map((group) => (
@@ -196,6 +329,7 @@ export const GanttView: React.FC<GanttViewProps> = ({
               <TaskBar
                 key={task.id}
                 task={task}
+                tasks={tasks}
                 timelineStart={timelineStart}
                 timelineEnd={timelineEnd}
                 app={app}
@@ -204,7 +338,7 @@ export const GanttView: React.FC<GanttViewProps> = ({
                 groupByProperty={groupByProperty}
                 chartRef={chartRef}
                 onInteractionEnd={handleInteractionEnd}
-                timelineStep={options.timelineStep}
+                timelineStep={timelineStep}
               />
             ))}
 
@@ -212,11 +346,14 @@ export const GanttView: React.FC<GanttViewProps> = ({
             {tasks.length === 0 && groups.length === 0 && (
               <div className="bv-gantt-empty-overlay">
                 <div className="bv-gantt-empty-message">
-                  <p>No tasks with valid dates found</p>
+                  <p>{t('gantt.emptyTitle')}</p>
                   <p className="bv-gantt-empty-hint">
-                    Click on the chart to create your first task, or add{' '}
-                    <code>{startDateProperty}</code> and <code>{endDateProperty}</code>{' '}
-                    properties to existing notes.
+                    {/* Property names are shown as code inside the translated hint */}
+                    {t('gantt.emptyHint').split(/(\{start\}|\{end\})/).map((part, index) => {
+                      if (part === '{start}') return <code key={index}>{startDateProperty}</code>;
+                      if (part === '{end}') return <code key={index}>{endDateProperty}</code>;
+                      return part;
+                    })}
                   </p>
                 </div>
               </div>
@@ -1,5 +1,8 @@
 import * as React from 'react';
+import { Menu } from 'obsidian';
 import { TaskGroup } from '../../../types/view-config';
+import { useSelection } from '../../../context/SelectionContext';
+import { t } from '../../../i18n';
 
 interface GanttGroupHeaderProps {
   group: TaskGroup;
@@ -12,6 +15,7 @@ interface GanttGroupHeaderProps {
  * Group header row for Gantt chart.
  * Shows group name with collapse toggle and spans the full timeline width.
  * Supports inline editing of group name via double-click.
+ * Right-click opens a menu to rename, collapse or select the group.
  */
 export const GanttGroupHeader: React.FC<GanttGroupHeaderProps> = ({
   group,
@@ -22,6 +26,7 @@ export const GanttGroupHeader: React.FC<GanttGroupHeaderProps> = ({
   const [isEditing, setIsEditing] = React.useState(false);
   const [editValue, setEditValue] = React.useState(group.name);
   const inputRef = React.useRef<HTMLInputElement>(null);
+  const selection = useSelection();
 
   // Focus input when entering edit mode
   React.useEffect(() => {
@@ -37,18 +42,51 @@ export const GanttGroupHeader: React.FC<GanttGroupHeaderProps> = ({
     }
   };
 
+  // Don't allow editing "No Group"
+  const canRename = group.name !== 'No Group' && onRenameGroup !== undefined;
+
   /**
    * Handle double-click to enter edit mode
    */
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    // Don't allow editing "No Group"
-    if (group.name === 'No Group') return;
+    if (!canRename) return;
     setEditValue(group.name);
     setIsEditing(true);
   };
 
+  /**
+   * Show the group menu
+   */
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (isEditing) return;
+
+    const menu = new Menu();
+    if (canRename) {
+      menu.addItem((item) => item
+        .setTitle(t('menu.renameGroup'))
+        .setIcon('pencil')
+        .onClick(() => {
+          setEditValue(group.name);
+          setIsEditing(true);
+        }));
+    }
+    menu.addItem((item) => item
+      .setTitle(group.isCollapsed ? t('menu.expandGroup') : t('menu.collapseGroup'))
+      .setIcon(group.isCollapsed ? 'chevrons-up-down' : 'chevrons-down-up')
+      .onClick(() => onToggle(group.name)));
+    if (selection) {
+      menu.addItem((item) => item
+        .setTitle(t('menu.selectGroup'))
+        .setIcon('check-square')
+        .onClick(() => selection.set(group.tasks.map((task) => task.id))));
+    }
+    menu.showAtMouseEvent(e.nativeEvent);
+  };
+
   /**
    * Save the new group name
    */
@@ -84,6 +122,7 @@ export const GanttGroupHeader: React.FC<GanttGroupHeaderProps> = ({
         width: timelineWidth,
       }}
       onClick={handleClick}
+      onContextMenu={handleContextMenu}
     >
       <span
         className={`bv-gantt-group-toggle ${group.isCollapsed ? 'bv-gantt-group-toggle-collapsed' : ''}`}
@@ -1,5 +1,6 @@
 import { App, Modal, Setting } from 'obsidian';
 import { format, parse, isValid } from 'date-fns';
+import { t } from '../../../i18n';
 
 /**
  * Modal for creating new Gantt tasks with name and dates.
@@ -25,14 +26,14 @@ export class NewTaskModal extends Modal {
   onOpen() {
     const { contentEl } = this;
 
-    contentEl.createEl('h2', { text: 'New task' });
+    contentEl.createEl('h2', { text: t('gantt.newTask') });
 
     // Task name input
     new Setting(contentEl)
-      .setName('Task name')
+      .setName(t('gantt.taskName'))
       .addText((text) =>
         text
-          .setPlaceholder('Enter task name')
+          .setPlaceholder(t('gantt.taskNamePlaceholder'))
           .onChange((value) => {
             this.taskName = value;
           })
@@ -40,7 +41,7 @@ export class NewTaskModal extends Modal {
 
     // Start date input
     new Setting(contentEl)
-      .setName('Start date')
+      .setName(t('gantt.startDate'))
       .addText((text) =>
         text
           .setPlaceholder('2024-01-15')
@@ -55,7 +56,7 @@ export class NewTaskModal extends Modal {
 
     // End date input
     new Setting(contentEl)
-      .setName('End date')
+      .setName(t('gantt.endDate'))
       .addText((text) =>
         text
           .setPlaceholder('2024-01-15')
@@ -72,14 +73,14 @@ export class NewTaskModal extends Modal {
     new Setting(contentEl)
       .addButton((btn) =>
         btn
-          .setButtonText('Cancel')
+          .setButtonText(t('common.cancel'))
           .onClick(() => {
             this.close();
           })
       )
       .addButton((btn) =>
         btn
-          .setButtonText('Create')
+          .setButtonText(t('common.create'))
           .setCta()
           .onClick(() => {
             this.close();
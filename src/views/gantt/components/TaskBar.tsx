@@ -4,11 +4,18 @@ import { Task, TaskGroup, GanttTimelineStep } from '../../../types/view-config';
 import { useTaskResize } from '../hooks/useTaskResize';
 import { useTaskDrag } from '../hooks/useTaskDrag';
 import { useHoverPreview } from '../../../hooks/useHoverPreview';
+import { useNoteContextMenu } from '../../../hooks/useNoteContextMenu';
 import { createNoteOpener } from '../../../utils/noteOpener';
+import { useIsSelected } from '../../../context/SelectionContext';
+import { useItemColorStyle } from '../../../context/ColorRulesContext';
 import { calculateTaskPosition } from '../utils/dateCalculations';
+import { reportError } from '../../../utils/errorReporter';
+import { t } from '../../../i18n';
 
 interface TaskBarProps {
   task: Task;
+  /** All tasks of the chart, for moving the selection together */
+  tasks: Task[];
   timelineStart: Date;
   timelineEnd: Date;
   app: App;
@@ -27,6 +34,7 @@ interface TaskBarProps {
  */
 export const TaskBar: React.FC<TaskBarProps> = ({
   task,
+  tasks,
   timelineStart,
   timelineEnd,
   app,
@@ -59,6 +67,7 @@ export const TaskBar: React.FC<TaskBarProps> = ({
   });
   const { isDragging, handleDragStart, consumeHadMovement: consumeDragMovement } = useTaskDrag({
     task,
+    tasks,
     app,
     timelineStart,
     timelineEnd,
@@ -76,6 +85,8 @@ export const TaskBar: React.FC<TaskBarProps> = ({
   );
 
   const openNote = createNoteOpener(app, task.file);
+  const handleContextMenu = useNoteContextMenu(task.file, app);
+  const isSelected = useIsSelected(task.id);
 
   // Focus input when entering edit mode
   React.useEffect(() => {
@@ -91,13 +102,17 @@ export const TaskBar: React.FC<TaskBarProps> = ({
   const saveTaskName = React.useCallback(async () => {
     const newName = editValue.trim();
     if (newName && newName !== task.title) {
-      try {
-        const newPath = task.file.parent
-          ? `${task.file.parent.path}/${newName}.md`
-          : `${newName}.md`;
+      const newPath = task.file.parent
+        ? `${task.file.parent.path}/${newName}.md`
+        : `${newName}.md`;
+      const rename = async () => {
         await app.fileManager.renameFile(task.file, newPath);
+      };
+
+      try {
+        await rename();
       } catch (error) {
-        console.error('Failed to rename task:', error);
+        reportError({ action: t('action.renameTask'), error, file: task.file, retry: rename });
         setEditValue(task.title); // Reset on error
       }
     } else {
@@ -151,16 +166,20 @@ export const TaskBar: React.FC<TaskBarProps> = ({
 
   // Determine if task is being manipulated
   const isActive = isResizing || isDragging;
+  const colorStyle = useItemColorStyle(task.colorValue);
 
   return (
     <div
-      className={`bv-gantt-task-bar ${isActive ? 'bv-gantt-task-bar-active' : ''} ${isDragging ? 'bv-gantt-task-bar-dragging' : ''}`}
+      className={`bv-gantt-task-bar ${isActive ? 'bv-gantt-task-bar-active' : ''} ${isDragging ? 'bv-gantt-task-bar-dragging' : ''} ${isSelected ? 'bv-selected' : ''} ${colorStyle ? 'bv-colored' : ''}`}
+      data-selection-id={task.id}
       style={{
+        ...colorStyle,
         left: `${position.left}%`,
         width: `${position.width}%`,
         top: `${task.row * 40}px`,
       }}
       onClick={handleClick}
+      onContextMenu={isEditing ? undefined : handleContextMenu}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
     >
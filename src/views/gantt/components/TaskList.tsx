@@ -1,6 +1,7 @@
 import * as React from 'react';
-import { format } from 'date-fns';
 import { Task, TaskGroup } from '../../../types/view-config';
+import { formatLocalized } from '../../../utils/dateLocale';
+import { t } from '../../../i18n';
 
 interface TaskListProps {
   tasks: Task[];
@@ -23,7 +24,7 @@ export const TaskList: React.FC<TaskListProps> = ({
   return (
     <div className="bv-gantt-task-list">
       <div className="bv-gantt-task-list-header">
-        <div className="bv-gantt-task-list-title">Task</div>
+        <div className="bv-gantt-task-list-title">{t('gantt.taskColumn')}</div>
       </div>
 
       <div className="bv-gantt-task-list-content">
@@ -65,7 +66,7 @@ export const TaskList: React.FC<TaskListProps> = ({
           >
             <div className="bv-gantt-task-list-item-title">{task.title}</div>
             <div className="bv-gantt-task-list-item-dates">
-              {format(task.startDate, 'MMM d')} - {format(task.endDate, 'MMM d')}
+              {formatLocalized(task.startDate, 'MMM d')} - {formatLocalized(task.endDate, 'MMM d')}
             </div>
           </div>
         ))}
@@ -73,7 +74,7 @@ export const TaskList: React.FC<TaskListProps> = ({
         {/* Empty state for task list */}
         {tasks.length === 0 && groups.length === 0 && (
           <div className="bv-gantt-task-list-empty">
-            <span>No tasks</span>
+            <span>{t('gantt.noTasks')}</span>
           </div>
         )}
       </div>
@@ -1,7 +1,7 @@
 import * as React from 'react';
-import { format } from 'date-fns';
 import { generateTimelineMarkers } from '../utils/dateCalculations';
 import { GanttTimelineStep } from '../../../types/view-config';
+import { formatLocalized } from '../../../utils/dateLocale';
 
 interface TimelineProps {
   start: Date;
@@ -29,7 +29,7 @@ export const Timeline: React.FC<TimelineProps> = ({ start, end, step }) => {
         >
           {marker.isMonthStart && (
             <div className="bv-gantt-timeline-month">
-              {format(marker.date, 'MMM yyyy')}
+              {formatLocalized(marker.date, 'LLL yyyy')}
             </div>
           )}
           <div className="bv-gantt-timeline-date">{marker.label}</div>
@@ -1,6 +1,9 @@
 import { useState, useMemo, useCallback } from 'react';
 import { App, BasesQueryResult } from 'obsidian';
 import { adaptBasesData } from '../../../utils/basesDataAdapter';
+import { useOptimisticEntries } from '../../../context/PendingChangesContext';
+import { useQuickFilteredEntries } from '../../../context/QuickFilterContext';
+import { useColorRules } from '../../../context/ColorRulesContext';
 import { entriesToTasks, calculateTaskRows, groupTasksByProperty, calculateGroupedRows } from '../utils/ganttHelpers';
 import { calculateTimelineRange } from '../utils/dateCalculations';
 import { TaskGroup } from '../../../types/view-config';
@@ -14,6 +17,8 @@ import { TaskGroup } from '../../../types/view-config';
  * @param initialStartProperty - Initial start date property
  * @param initialEndProperty - Initial end date property
  * @param initialGroupByProperty - Initial group by property
+ * @param initialCollapsedGroups - Groups collapsed when the view opens
+ * @param dateFormats - Extra date formats from plugin settings (moment syntax)
  * @returns Object with tasks, timeline, groups, and property management
  */
 export function useGanttData(
@@ -22,13 +27,14 @@ export function useGanttData(
   initialStartProperty: string,
   initialEndProperty: string,
   initialGroupByProperty?: string,
-  initialCollapsedGroups?: string[]
+  initialCollapsedGroups?: string[],
+  dateFormats: string[] = []
 ) {
   const [startDateProperty, setStartDateProperty] = useState(
-    initialStartProperty || 'start'
+    initialStartProperty || 'note.start'
   );
   const [endDateProperty, setEndDateProperty] = useState(
-    initialEndProperty || 'end'
+    initialEndProperty || 'note.end'
   );
   const [groupByProperty, setGroupByProperty] = useState(
     initialGroupByProperty || ''
@@ -37,15 +43,24 @@ export function useGanttData(
     new Set(initialCollapsedGroups || [])
   );
 
+  const colorProperty = useColorRules()?.property ?? '';
+
   // Transform Bases data to our internal format
-  const entries = useMemo(() => {
-    return adaptBasesData(data, app);
-  }, [data, app]);
+  const adaptedEntries = useMemo(() => {
+    return adaptBasesData(data, app, [startDateProperty, endDateProperty, groupByProperty, colorProperty]);
+  }, [data, app, startDateProperty, endDateProperty, groupByProperty, colorProperty]);
+
+  // Leave out notes that don't match the filter bar
+  const filteredEntries = useQuickFilteredEntries(adaptedEntries, [startDateProperty, endDateProperty]);
+
+  // Show pending writes before the metadata cache catches up
+  const entries = useOptimisticEntries(filteredEntries);
 
   // Convert entries to tasks with date filtering and group info
-  const rawTasks = useMemo(() => {
-    return entriesToTasks(entries, startDateProperty, endDateProperty, groupByProperty);
-  }, [entries, startDateProperty, endDateProperty, groupByProperty]);
+  // Notes whose dates can't be parsed are reported as skipped
+  const { tasks: rawTasks, skipped } = useMemo(() => {
+    return entriesToTasks(entries, startDateProperty, endDateProperty, groupByProperty, dateFormats, colorProperty);
+  }, [entries, startDateProperty, endDateProperty, groupByProperty, dateFormats, colorProperty]);
 
   // Calculate timeline range based on all tasks
   const [timelineStart, timelineEnd] = useMemo(() => {
@@ -88,6 +103,7 @@ export function useGanttData(
   return {
     tasks,
     groups,
+    skipped,
     timelineStart,
     timelineEnd,
     startDateProperty,
@@ -97,6 +113,7 @@ export function useGanttData(
     setEndDateProperty,
     setGroupByProperty,
     collapsedGroups,
+    setCollapsedGroups,
     toggleGroupCollapse,
   };
 }
@@ -0,0 +1,68 @@
+import { useCallback } from 'react';
+import { App, Notice, TFile } from 'obsidian';
+import { format } from 'date-fns';
+import { createFile, createNote, NoteCreationOptions } from '../../../utils/noteCreator';
+import { reportError } from '../../../utils/errorReporter';
+import { GanttChartData, GanttExportFormat, ganttToMermaid, ganttToSvg } from '../utils/ganttExport';
+import { t } from '../../../i18n';
+
+/**
+ * Where an exported chart goes: the clipboard, or a new file in the vault
+ * (a note with a Mermaid block, or an .svg file).
+ */
+export type GanttExportTarget = 'clipboard' | 'file';
+
+/**
+ * Hook for exporting the Gantt chart as Mermaid source or SVG.
+ *
+ * @param chart - Tasks, groups and timeline as currently shown
+ * @param newNoteOptions - Folder, file name and template for the new note
+ * @param app - Obsidian app instance
+ * @returns Export handler
+ */
+export function useGanttExport(
+  chart: GanttChartData,
+  newNoteOptions: NoteCreationOptions,
+  app: App
+) {
+  const exportChart = useCallback(async (exportFormat: GanttExportFormat, target: GanttExportTarget) => {
+    const content = exportFormat === 'mermaid' ? ganttToMermaid(chart) : ganttToSvg(chart);
+
+    try {
+      if (target === 'clipboard') {
+        await window.navigator.clipboard.writeText(exportFormat === 'mermaid' ? toCodeBlock(content) : content);
+        new Notice(t('gantt.exportCopied'));
+        return;
+      }
+
+      const title = t('gantt.exportTitle', { date: format(new Date(), 'yyyy-MM-dd') });
+      let file: TFile;
+      if (exportFormat === 'mermaid') {
+        // The chart is the whole note, so the template note doesn't apply
+        file = await createNote(app, { ...newNoteOptions, templatePath: '' }, {
+          title,
+          properties: {},
+          body: toCodeBlock(content) + '\n',
+        });
+      } else {
+        file = await createFile(app, newNoteOptions, title, 'svg', content);
+      }
+      await app.workspace.getLeaf('tab').openFile(file);
+    } catch (error) {
+      reportError({
+        action: t('action.exportGantt'),
+        error,
+        retry: () => exportChart(exportFormat, target),
+      });
+    }
+  }, [chart, newNoteOptions, app]);
+
+  return { exportChart };
+}
+
+/**
+ * Wrap Mermaid source in a fenced code block, as Obsidian renders it.
+ */
+function toCodeBlock(source: string): string {
+  return '```mermaid\n' + source + '\n```';
+}
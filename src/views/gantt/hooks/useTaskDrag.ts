@@ -2,10 +2,14 @@ import { useState, useCallback, useRef } from 'react';
 import { App } from 'obsidian';
 import { Task, TaskGroup, GanttTimelineStep } from '../../../types/view-config';
 import { usePropertyUpdate } from '../../../hooks/usePropertyUpdate';
+import { getDraggedItems, useSelection } from '../../../context/SelectionContext';
 import { calculateDateFromDelta, getTimelineUnitCount } from '../utils/dateCalculations';
+import { t } from '../../../i18n';
 
 interface UseTaskDragOptions {
   task: Task;
+  /** All tasks of the chart; selected ones move together with the dragged task */
+  tasks: Task[];
   app: App;
   timelineStart: Date;
   timelineEnd: Date;
@@ -41,12 +45,15 @@ function findGroupAtPosition(
  * Hook for task bar drag (move) functionality.
  * Handles mouse events for dragging entire task to different time position.
  * Supports moving tasks between groups via vertical dragging.
+ * When the task is selected, all selected tasks move by the same amount,
+ * each keeping its own offset.
  *
  * @param options - Drag options including task, app, pixelsPerDay, groups, and groupByProperty
  * @returns Object with drag handlers and state
  */
 export function useTaskDrag({
   task,
+  tasks,
   app,
   timelineStart,
   timelineEnd,
@@ -59,7 +66,8 @@ export function useTaskDrag({
   const [isDragging, setIsDragging] = useState(false);
   const dragStartRef = useRef<{ x: number; y: number } | null>(null);
   const hadMovementRef = useRef(false);
-  const { updateProperty } = usePropertyUpdate(app);
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
+  const selection = useSelection();
   const step = timelineStep || 'day';
 
   const ROW_HEIGHT = 40;
@@ -94,13 +102,24 @@ export function useTaskDrag({
       e.preventDefault();
       e.stopPropagation();
 
+      // Formula and file dates are read-only
+      if (!ensureEditable(task.startDateProperty, task.endDateProperty)) return;
+
       setIsDragging(true);
       hadMovementRef.current = false;
       dragStartRef.current = { x: e.clientX, y: e.clientY };
 
-      const originalStartDate = task.startDate;
-      const originalEndDate = task.endDate;
-      const originalGroup = task.group;
+      // Dates and group of every moved task as they were at drag start
+      const movedTasks = getDraggedItems(task, tasks, selection).map((movedTask) => ({
+        file: movedTask.file,
+        startDate: movedTask.startDate,
+        endDate: movedTask.endDate,
+        group: movedTask.group,
+      }));
+      let lastDeltaX = 0;
+
+      // All writes of this drag are undone together
+      const batch = startBatch(t('history.moveTask'));
 
       // Calculate pixels per unit at drag start using actual chart width
       const pixelsPerUnit = getPixelsPerUnit();
@@ -119,14 +138,18 @@ export function useTaskDrag({
           hadMovementRef.current = true;
         }
 
-        // Calculate new dates based on horizontal movement
-        const newStartDate = calculateDateFromDelta(originalStartDate, deltaX, pixelsPerUnit, step);
-        const newEndDate = calculateDateFromDelta(originalEndDate, deltaX, pixelsPerUnit, step);
-
-        // Update both date properties
-        void updateProperty(task.file, task.startDateProperty, newStartDate.toISOString());
-        void updateProperty(task.file, task.endDateProperty, newEndDate.toISOString());
-
+        // Skip writes while the pointer stays within the same timeline unit
+        const snappedDelta = Math.round(deltaX / pixelsPerUnit);
+        if (snappedDelta === lastDeltaX) return;
+        lastDeltaX = snappedDelta;
+
+        // Calculate new dates based on horizontal movement and update both date properties
+        movedTasks.forEach((movedTask) => {
+          const newStartDate = calculateDateFromDelta(movedTask.startDate, deltaX, pixelsPerUnit, step);
+          const newEndDate = calculateDateFromDelta(movedTask.endDate, deltaX, pixelsPerUnit, step);
+          void updateProperty(movedTask.file, task.startDateProperty, newStartDate, batch);
+          void updateProperty(movedTask.file, task.endDateProperty, newEndDate, batch);
+        });
       };
 
       /**
@@ -139,11 +162,13 @@ export function useTaskDrag({
           const relativeY = upEvent.clientY - chartRect.top;
           const newGroup = findGroupAtPosition(relativeY, groups, ROW_HEIGHT);
 
-          // Update group property if changed
-          if (newGroup && newGroup !== originalGroup) {
+          // Update group property of the dragged task if changed; selected tasks follow it
+          if (newGroup && newGroup !== task.group && ensureEditable(groupByProperty)) {
             // Handle "No Group" - set empty value
             const groupValue = newGroup === 'No Group' ? '' : newGroup;
-            void updateProperty(task.file, groupByProperty, groupValue);
+            movedTasks
+              .filter((movedTask) => movedTask.group !== newGroup)
+              .forEach((movedTask) => void updateProperty(movedTask.file, groupByProperty, groupValue, batch));
           }
         }
 
@@ -157,7 +182,7 @@ export function useTaskDrag({
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
     },
-    [task, updateProperty, getPixelsPerUnit, step, groups, groupByProperty, chartRef, onDragEnd]
+    [task, tasks, selection, updateProperty, ensureEditable, startBatch, getPixelsPerUnit, step, groups, groupByProperty, chartRef, onDragEnd]
   );
 
   return {
@@ -3,6 +3,7 @@ import { App } from 'obsidian';
 import { Task, GanttTimelineStep } from '../../../types/view-config';
 import { usePropertyUpdate } from '../../../hooks/usePropertyUpdate';
 import { calculateDateFromDelta, getTimelineUnitCount } from '../utils/dateCalculations';
+import { t } from '../../../i18n';
 
 interface UseTaskResizeOptions {
   task: Task;
@@ -33,7 +34,7 @@ export function useTaskResize({
   const [isResizing, setIsResizing] = useState(false);
   const resizeTypeRef = useRef<'start' | 'end' | null>(null);
   const hadMovementRef = useRef(false);
-  const { updateProperty } = usePropertyUpdate(app);
+  const { updateProperty, ensureEditable, startBatch } = usePropertyUpdate(app);
   const step = timelineStep || 'day';
 
   /**
@@ -63,6 +64,9 @@ export function useTaskResize({
       e.preventDefault();
       e.stopPropagation();
 
+      // Formula and file dates are read-only
+      if (!ensureEditable(handle === 'start' ? task.startDateProperty : task.endDateProperty)) return;
+
       setIsResizing(true);
       hadMovementRef.current = false;
       resizeTypeRef.current = handle;
@@ -73,6 +77,9 @@ export function useTaskResize({
       // Calculate pixels per unit at resize start using actual chart width
       const pixelsPerUnit = getPixelsPerUnit();
 
+      // All writes of this resize are undone together
+      const batch = startBatch(t('history.resizeTask'));
+
       /**
        * Handle mouse move during resize
        */
@@ -100,7 +107,7 @@ export function useTaskResize({
             return; // Don't allow end date to be before start date
           }
 
-          void updateProperty(task.file, propertyName, newDate.toISOString());
+          void updateProperty(task.file, propertyName, newDate, batch);
         }
       };
 
@@ -118,7 +125,7 @@ export function useTaskResize({
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
     },
-    [task, updateProperty, getPixelsPerUnit, step, onResizeEnd]
+    [task, updateProperty, ensureEditable, startBatch, getPixelsPerUnit, step, onResizeEnd]
   );
 
   return {
@@ -1,6 +1,7 @@
-import { startOfMonth, endOfMonth, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval, differenceInDays, differenceInWeeks, differenceInMonths, addDays, addWeeks, addMonths, format } from 'date-fns';
+import { startOfMonth, endOfMonth, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval, differenceInDays, differenceInWeeks, differenceInMonths, addDays, addWeeks, addMonths } from 'date-fns';
 import { GanttTimelineStep } from '../../../types/view-config';
 import { Task } from '../../../types/view-config';
+import { formatLocalized, getWeekOptions } from '../../../utils/dateLocale';
 
 /**
  * Calculate the timeline range that encompasses all tasks.
@@ -55,6 +56,7 @@ export function calculateTaskPosition(
 
 /**
  * Generate timeline markers for the header based on step.
+ * Weeks start on the configured first day; labels use the app language.
  *
  * @param timelineStart - Timeline start date
  * @param timelineEnd - Timeline end date
@@ -67,10 +69,10 @@ export function generateTimelineMarkers(
   step: GanttTimelineStep = 'day'
 ): Array<{ date: Date; label: string; isMonthStart: boolean }> {
   if (step === 'week') {
-    const weeks = eachWeekOfInterval({ start: timelineStart, end: timelineEnd }, { weekStartsOn: 1 });
+    const weeks = eachWeekOfInterval({ start: timelineStart, end: timelineEnd }, getWeekOptions());
     return weeks.map((date) => ({
       date,
-      label: format(date, 'd MMM'),
+      label: formatLocalized(date, 'd MMM'),
       isMonthStart: date.getDate() <= 7,
     }));
   }
@@ -79,7 +81,7 @@ export function generateTimelineMarkers(
     const months = eachMonthOfInterval({ start: timelineStart, end: timelineEnd });
     return months.map((date) => ({
       date,
-      label: format(date, 'MMM yyyy'),
+      label: formatLocalized(date, 'LLL yyyy'),
       isMonthStart: true,
     }));
   }
@@ -88,7 +90,7 @@ export function generateTimelineMarkers(
   const days = eachDayOfInterval({ start: timelineStart, end: timelineEnd });
   return days.map((date) => ({
     date,
-    label: format(date, 'd'),
+    label: formatLocalized(date, 'd'),
     isMonthStart: date.getDate() === 1,
   }));
 }
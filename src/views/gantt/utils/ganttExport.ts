@@ -0,0 +1,236 @@
+import { differenceInDays, format, max, min } from 'date-fns';
+import { GanttTimelineStep, Task, TaskGroup } from '../../../types/view-config';
+import { calculateTaskPosition, generateTimelineMarkers } from './dateCalculations';
+import { formatLocalized, getWeekOptions } from '../../../utils/dateLocale';
+
+/**
+ * Format of an exported Gantt chart.
+ */
+export type GanttExportFormat = 'mermaid' | 'svg';
+
+/**
+ * What the Gantt chart shows: tasks with rows, groups and the timeline range.
+ * Matches the output of useGanttData, so exports follow the on-screen layout.
+ */
+export interface GanttChartData {
+  tasks: Task[];
+  groups: TaskGroup[];
+  timelineStart: Date;
+  timelineEnd: Date;
+  timelineStep: GanttTimelineStep;
+}
+
+/** Mermaid axis label format for each timeline step (d3 time format) */
+const MERMAID_AXIS_FORMATS: Record<GanttTimelineStep, string> = {
+  day: '%e',
+  week: '%e %b',
+  month: '%b %Y',
+};
+
+const MERMAID_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** Width of one timeline unit in the SVG, per step */
+const SVG_UNIT_WIDTHS: Record<GanttTimelineStep, number> = {
+  day: 28,
+  week: 56,
+  month: 96,
+};
+
+const SVG_LABEL_WIDTH = 220;
+const SVG_HEADER_HEIGHT = 48;
+const SVG_ROW_HEIGHT = 40;
+const SVG_BAR_HEIGHT = 24;
+
+/** Fixed colors: the SVG is viewed outside Obsidian, so theme variables aren't available */
+const SVG_COLORS = {
+  background: '#ffffff',
+  text: '#222222',
+  mutedText: '#6b6b6b',
+  grid: '#e4e4e4',
+  monthLine: '#b8b8b8',
+  groupRow: '#f3f3f3',
+  bar: '#7f6df2',
+  barText: '#ffffff',
+};
+
+/**
+ * Build Mermaid `gantt` source for the chart.
+ * Each group becomes a section; collapsed groups are shown as a single
+ * bar spanning their tasks. The axis ticks follow the timeline step.
+ *
+ * @param chart - Tasks, groups and timeline of the chart
+ * @returns Mermaid source without the code fence
+ */
+export function ganttToMermaid(chart: GanttChartData): string {
+  const { tasks, groups, timelineStep } = chart;
+  const lines = [
+    'gantt',
+    '    dateFormat YYYY-MM-DD',
+    `    axisFormat ${MERMAID_AXIS_FORMATS[timelineStep]}`,
+    `    tickInterval 1${timelineStep}`,
+  ];
+
+  if (timelineStep === 'week') {
+    lines.push(`    weekday ${MERMAID_WEEKDAYS[getWeekOptions().weekStartsOn]}`);
+  }
+
+  if (groups.length === 0) {
+    sortByRow(tasks).forEach((task) => {
+      lines.push(toMermaidTask(task.title, task.startDate, task.endDate));
+    });
+    return lines.join('\n');
+  }
+
+  groups.forEach((group) => {
+    lines.push(`    section ${escapeMermaid(group.name)}`);
+
+    if (group.isCollapsed) {
+      if (group.tasks.length > 0) {
+        const { start, end } = getGroupRange(group);
+        lines.push(toMermaidTask(`${group.name} (${group.tasks.length})`, start, end));
+      }
+      return;
+    }
+
+    sortByRow(group.tasks).forEach((task) => {
+      lines.push(toMermaidTask(task.title, task.startDate, task.endDate));
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the chart as a standalone SVG document:
+ * task list, timeline header, grid and task bars.
+ * Rows and collapsed groups match the view.
+ *
+ * @param chart - Tasks, groups and timeline of the chart
+ * @returns SVG markup
+ */
+export function ganttToSvg(chart: GanttChartData): string {
+  const { tasks, groups, timelineStart, timelineEnd, timelineStep } = chart;
+  const markers = generateTimelineMarkers(timelineStart, timelineEnd, timelineStep);
+  const chartWidth = markers.length * SVG_UNIT_WIDTHS[timelineStep];
+  const unitWidth = chartWidth / markers.length;
+
+  const maxRow = groups.length > 0
+    ? Math.max(...groups.map((g) => g.startRow + g.rowCount - 1), 0)
+    : Math.max(...tasks.map((t) => t.row), 0);
+  const rowCount = tasks.length > 0 || groups.length > 0 ? maxRow + 1 : 0;
+
+  const width = SVG_LABEL_WIDTH + chartWidth;
+  const height = SVG_HEADER_HEIGHT + rowCount * SVG_ROW_HEIGHT;
+  const rowTop = (row: number) => SVG_HEADER_HEIGHT + row * SVG_ROW_HEIGHT;
+  const toX = (percent: number) => SVG_LABEL_WIDTH + (percent / 100) * chartWidth;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="-apple-system, 'Segoe UI', Roboto, sans-serif" font-size="12">`,
+    `<rect width="${width}" height="${height}" fill="${SVG_COLORS.background}"/>`,
+  ];
+
+  // Group header rows
+  groups.forEach((group) => {
+    const y = rowTop(group.startRow);
+    parts.push(`<rect x="0" y="${y}" width="${width}" height="${SVG_ROW_HEIGHT}" fill="${SVG_COLORS.groupRow}"/>`);
+    parts.push(
+      `<text x="12" y="${y + SVG_ROW_HEIGHT / 2}" dominant-baseline="middle" font-weight="600" fill="${SVG_COLORS.text}">`
+      + `${group.isCollapsed ? '▸' : '▾'} ${escapeXml(group.name)} `
+      + `<tspan fill="${SVG_COLORS.mutedText}" font-weight="400">${group.tasks.length}</tspan></text>`
+    );
+  });
+
+  // Vertical grid lines and timeline header
+  markers.forEach((marker, index) => {
+    const x = SVG_LABEL_WIDTH + index * unitWidth;
+    const stroke = marker.isMonthStart ? SVG_COLORS.monthLine : SVG_COLORS.grid;
+    parts.push(`<line x1="${x}" y1="${SVG_HEADER_HEIGHT / 2}" x2="${x}" y2="${height}" stroke="${stroke}"/>`);
+    if (marker.isMonthStart) {
+      parts.push(`<text x="${x + 4}" y="16" font-weight="600" fill="${SVG_COLORS.text}">${escapeXml(formatLocalized(marker.date, 'LLL yyyy'))}</text>`);
+    }
+    parts.push(
+      `<text x="${x + unitWidth / 2}" y="${SVG_HEADER_HEIGHT - 10}" text-anchor="middle" fill="${SVG_COLORS.mutedText}">${escapeXml(marker.label)}</text>`
+    );
+  });
+
+  // Horizontal row lines
+  for (let row = 0; row <= rowCount; row++) {
+    parts.push(`<line x1="0" y1="${rowTop(row)}" x2="${width}" y2="${rowTop(row)}" stroke="${SVG_COLORS.grid}"/>`);
+  }
+  parts.push(`<line x1="${SVG_LABEL_WIDTH}" y1="0" x2="${SVG_LABEL_WIDTH}" y2="${height}" stroke="${SVG_COLORS.monthLine}"/>`);
+
+  // Task list and bars
+  tasks.forEach((task, index) => {
+    const y = rowTop(task.row);
+    const { left, width: barPercent } = calculateTaskPosition(task.startDate, task.endDate, timelineStart, timelineEnd);
+    const barX = toX(left);
+    const barWidth = Math.max((barPercent / 100) * chartWidth, 2);
+    const barY = y + (SVG_ROW_HEIGHT - SVG_BAR_HEIGHT) / 2;
+    const clipId = `bv-gantt-bar-${index}`;
+    const title = escapeXml(task.title);
+
+    parts.push(`<text x="24" y="${y + 16}" fill="${SVG_COLORS.text}">${escapeXml(truncate(task.title, 30))}</text>`);
+    parts.push(
+      `<text x="24" y="${y + 30}" font-size="10" fill="${SVG_COLORS.mutedText}">`
+      + `${escapeXml(formatLocalized(task.startDate, 'MMM d'))} - ${escapeXml(formatLocalized(task.endDate, 'MMM d'))}</text>`
+    );
+    parts.push(`<clipPath id="${clipId}"><rect x="${barX}" y="${barY}" width="${barWidth}" height="${SVG_BAR_HEIGHT}"/></clipPath>`);
+    parts.push(`<rect x="${barX}" y="${barY}" width="${barWidth}" height="${SVG_BAR_HEIGHT}" rx="4" fill="${SVG_COLORS.bar}"><title>${title}</title></rect>`);
+    parts.push(
+      `<text x="${barX + 6}" y="${barY + SVG_BAR_HEIGHT / 2}" dominant-baseline="middle" fill="${SVG_COLORS.barText}" clip-path="url(#${clipId})">${title}</text>`
+    );
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * A Mermaid task line. Gantt end dates are inclusive, so the duration counts both ends.
+ */
+function toMermaidTask(title: string, start: Date, end: Date): string {
+  const days = Math.max(differenceInDays(end, start) + 1, 1);
+  return `    ${escapeMermaid(title)} :${format(start, 'yyyy-MM-dd')}, ${days}d`;
+}
+
+/**
+ * Earliest start and latest end of a group's tasks.
+ */
+function getGroupRange(group: TaskGroup): { start: Date; end: Date } {
+  return {
+    start: min(group.tasks.map((task) => task.startDate)),
+    end: max(group.tasks.map((task) => task.endDate)),
+  };
+}
+
+/**
+ * Tasks in the order they appear in the chart.
+ */
+function sortByRow(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => a.row - b.row);
+}
+
+/**
+ * Remove characters that end a task name or start a comment in Mermaid.
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/[:;#%\n]+/g, ' ').replace(/\s+/g, ' ').trim() || '-';
+}
+
+/**
+ * Escape text for use in SVG markup.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Shorten text to a maximum number of characters, adding an ellipsis.
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
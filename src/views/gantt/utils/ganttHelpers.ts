@@ -1,5 +1,8 @@
-import { BasesEntry, Task, TaskGroup } from '../../../types/view-config';
-import { parseISO, isValid } from 'date-fns';
+import { BasesEntry, SkippedEntry, Task, TaskGroup } from '../../../types/view-config';
+import { getEntryValue } from '../../../utils/basesDataAdapter';
+import { parseDateValue } from '../../../utils/dateParsing';
+import { getPropertyDisplayName } from '../../../utils/propertyId';
+import { getColorValue } from '../../../utils/colorUtils';
 
 /**
  * Safely convert any value to a string.
@@ -21,31 +24,50 @@ function valueToString(value: unknown): string {
 /**
  * Transform entries into tasks for Gantt view.
  * Filters entries that have valid start and end dates.
+ * Entries whose dates are set but can't be parsed are returned as skipped.
  *
  * @param entries - Array of entries
- * @param startDateProperty - Property name for start date
- * @param endDateProperty - Property name for end date
- * @param groupByProperty - Optional property name for grouping
- * @returns Array of tasks
+ * @param startDateProperty - Property id for start date
+ * @param endDateProperty - Property id for end date
+ * @param groupByProperty - Optional property id for grouping
+ * @param dateFormats - User-configured date formats (moment syntax)
+ * @param colorProperty - Optional property id the bars are colored by
+ * @returns Tasks and skipped entries
  */
 export function entriesToTasks(
   entries: BasesEntry[],
   startDateProperty: string,
   endDateProperty: string,
-  groupByProperty?: string
-): Task[] {
+  groupByProperty?: string,
+  dateFormats: string[] = [],
+  colorProperty = ''
+): { tasks: Task[]; skipped: SkippedEntry[] } {
   const tasks: Task[] = [];
+  const skipped: SkippedEntry[] = [];
 
   entries.forEach((entry, index) => {
-    const startValue = entry.properties[startDateProperty];
-    const endValue = entry.properties[endDateProperty];
+    const startValue = getEntryValue(entry, startDateProperty);
+    const endValue = getEntryValue(entry, endDateProperty);
 
     // Parse dates
-    const startDate = parseDate(startValue);
-    const endDate = parseDate(endValue);
+    const startResult = parseDateValue(startValue, dateFormats);
+    const endResult = parseDateValue(endValue, dateFormats);
+    const startDate = startResult.ok ? startResult.date : null;
+    const endDate = endResult.ok ? endResult.date : null;
+
+    // Report values that are set but unreadable (notes without dates are simply not shown)
+    const results = [
+      [startDateProperty, startResult],
+      [endDateProperty, endResult],
+    ] as const;
+    results.forEach(([propertyId, result]) => {
+      if (!result.ok && !result.empty) {
+        skipped.push({ file: entry.file, reason: `${getPropertyDisplayName(propertyId)}: ${result.reason}` });
+      }
+    });
 
     // Get group value if grouping is enabled
-    const rawGroupValue = groupByProperty ? entry.properties[groupByProperty] : undefined;
+    const rawGroupValue = groupByProperty ? getEntryValue(entry, groupByProperty) : undefined;
     const groupValue = groupByProperty
       ? (rawGroupValue !== undefined && rawGroupValue !== null
           ? valueToString(rawGroupValue)
@@ -64,41 +86,12 @@ export function entriesToTasks(
         endDateProperty,
         row: index,
         group: groupValue,
+        colorValue: getColorValue(entry, colorProperty),
       });
     }
   });
 
-  return tasks;
-}
-
-/**
- * Parse a date value from various formats.
- * Handles Date objects, ISO strings, and timestamps.
- *
- * @param value - Value to parse
- * @returns Date object or null
- */
-function parseDate(value: unknown): Date | null {
-  if (!value) return null;
-
-  // Already a Date object
-  if (value instanceof Date) {
-    return isValid(value) ? value : null;
-  }
-
-  // String (ISO format)
-  if (typeof value === 'string') {
-    const parsed = parseISO(value);
-    return isValid(parsed) ? parsed : null;
-  }
-
-  // Number (timestamp)
-  if (typeof value === 'number') {
-    const parsed = new Date(value);
-    return isValid(parsed) ? parsed : null;
-  }
-
-  return null;
+  return { tasks, skipped };
 }
 
 /**